@@ -5,9 +5,16 @@ import cookieParser from 'cookie-parser';
 import routes from '@/routes';
 import { envConfig } from '@/config/env';
 import { errorHandler } from '@/shared/middlewares/error.middleware';
+import { metricsRegistry } from '@/utils/metrics';
 
 const app = express();
 
+if (envConfig.TRUST_PROXY) {
+  // Webhook IP allowlists need the client address, not the load balancer's
+  const trustProxy = envConfig.TRUST_PROXY;
+  app.set('trust proxy', /^\d+$/.test(trustProxy) ? Number(trustProxy) : trustProxy === 'true' || trustProxy);
+}
+
 app.use(helmet());
 
 const corsOrigins = envConfig.CORS_ORIGINS
@@ -30,13 +37,23 @@ app.use(
     verify: rawBodySaver,
   }),
 );
-app.use(express.urlencoded({ extended: true }));
+app.use(express.urlencoded({ extended: true, verify: rawBodySaver }));
 app.use(cookieParser());
 
 app.get('/health', (_req, res: express.Response) => {
   res.status(200).json({ status: 'ok' });
 });
 
+// Scraped by Prometheus; when METRICS_TOKEN is set the scraper must send it as a bearer token
+app.get('/metrics', async (req, res: express.Response) => {
+  if (envConfig.METRICS_TOKEN && req.headers.authorization !== `Bearer ${envConfig.METRICS_TOKEN}`) {
+    res.status(401).json({ message: 'Unauthorized' });
+    return;
+  }
+  res.set('Content-Type', metricsRegistry.contentType);
+  res.send(await metricsRegistry.metrics());
+});
+
 app.use('/api', routes);
 
 app.use((_req, res, next) => {
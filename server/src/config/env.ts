@@ -45,9 +45,22 @@ const envSchema = z.object({
     .optional(),
   ZCASH_OPERATION_TIMEOUT_MS: z.coerce.number().default(120_000),
   QUEUE_REDIS_URL: z.string().url().optional(),
+  RUN_WORKER_CONCURRENCY: z.coerce.number().int().min(1).default(5),
+  RUN_ORG_CONCURRENCY: z.coerce.number().int().min(1).default(3),
+  TRIGGER_WORKER_CONCURRENCY: z.coerce.number().int().min(1).default(5),
+  WORKFLOW_NODE_CONCURRENCY: z.coerce.number().int().min(1).default(4),
+  WORKFLOW_MAX_DURATION_MS: z.coerce.number().int().min(0).default(0),
+  RUN_LOG_RETENTION_DAYS: z.coerce.number().int().min(0).default(30),
+  DEAD_LETTER_ALERT_THRESHOLD: z.coerce.number().int().min(0).default(10),
+  DEAD_LETTER_ALERT_WEBHOOK_URL: z.string().url().optional(),
+  METRICS_TOKEN: z.string().min(1).optional(),
+  OTEL_EXPORTER_OTLP_ENDPOINT: z.string().url().optional(),
+  OTEL_EXPORTER_OTLP_HEADERS: z.string().optional(),
+  OTEL_SERVICE_NAME: z.string().min(1).default('zecflow-server'),
   PUBLIC_URL: z.string().url(),
   ENCRYPTION_KEY: z.string().min(16),
   CORS_ORIGINS: z.string().optional(),
+  TRUST_PROXY: z.string().optional(),
   KEEP_ALIVE_INTERVAL_MS: z.coerce.number().optional(),
 });
 
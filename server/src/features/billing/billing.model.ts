@@ -7,6 +7,9 @@ export interface CreditTransactionDocument extends Document {
   amount: number;
   operation?: CreditOperation;
   reason?: string;
+  run?: Schema.Types.ObjectId;
+  /** Source run when the charge is for a replay */
+  replayOf?: Schema.Types.ObjectId;
   balanceAfter: number;
 }
 
@@ -17,6 +20,8 @@ const creditTransactionSchema = new Schema<CreditTransactionDocument>(
     amount: { type: Number, required: true },
     operation: { type: String },
     reason: { type: String },
+    run: { type: Schema.Types.ObjectId, ref: 'Run' },
+    replayOf: { type: Schema.Types.ObjectId, ref: 'Run' },
     balanceAfter: { type: Number, required: true },
   },
   { timestamps: true },
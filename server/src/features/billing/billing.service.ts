@@ -7,6 +7,7 @@ import { logger } from '@/utils/logger';
 
 export const CREDIT_COSTS: Record<CreditOperation, number> = {
   'workflow-run': 1,
+  'workflow-replay': 1,
   'nillion-compute': 5,
   'nillion-block-graph': 3,
   'nillion-math-logic': 1,
@@ -40,6 +41,7 @@ const deductCredits = async (
   amount: number,
   reason?: string,
   operation?: CreditOperation,
+  links: { run?: string; replayOf?: string } = {},
 ): Promise<{ remaining: number; deducted: number }> => {
   const org = await OrganizationModel.findById(organizationId);
   if (!org) {
@@ -63,6 +65,8 @@ const deductCredits = async (
     amount,
     operation,
     reason,
+    run: links.run,
+    replayOf: links.replayOf,
     balanceAfter: org.credits,
   });
 
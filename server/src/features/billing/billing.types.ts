@@ -1,5 +1,6 @@
 export type CreditOperation =
   | 'workflow-run'
+  | 'workflow-replay'
   | 'nillion-compute'
   | 'nillion-block-graph'
   | 'nillion-math-logic'
@@ -18,5 +19,7 @@ export interface CreditTransaction {
   amount: number;
   operation?: CreditOperation;
   reason?: string;
+  run?: string;
+  replayOf?: string;
   balanceAfter: number;
 }
\ No newline at end of file
@@ -4,7 +4,7 @@ import { HttpStatus } from '@/utils/http-status';
 import { findUserById } from '@/features/auth/auth.service';
 import { createBlock, listBlocksForWorkflow, updateBlock, deleteBlock } from './blocks.service';
 import { blockRegistry } from './blocks.registry';
-import { nillionBlockRegistry } from './nillion-blocks.registry';
+import { nillionBlockRegistry, getNillionBlockPorts } from './nillion-blocks.registry';
 
 export const createBlockHandler = async (req: AuthenticatedRequest, res: Response): Promise<void> => {
   if (!req.user) {
@@ -97,6 +97,7 @@ export const listBlockDefinitions = (_req: Request, res: Response): void => {
     handler: 'nillion' as const,
     inputs: block.inputs,
     outputs: block.outputs,
+    ports: getNillionBlockPorts(block),
     icon: block.icon,
     color: block.color,
     tags: block.tags,
@@ -0,0 +1,106 @@
+import { BlockPort, PortType } from './blocks.types';
+
+type CoercionResult = { ok: true; value: unknown } | { ok: false };
+
+const isPlainObject = (value: unknown): value is Record<string, unknown> =>
+  typeof value === 'object' && value !== null && !Array.isArray(value);
+
+const parseJson = (value: string): unknown => {
+  try {
+    return JSON.parse(value);
+  } catch {
+    return undefined;
+  }
+};
+
+/**
+ * Convert a value to a port type where the conversion is lossless (numeric strings,
+ * `"true"`/`"false"`, JSON text for objects and arrays). `undefined` and `null` pass
+ * through untouched so missing inputs stay missing.
+ */
+export const coercePortValue = (value: unknown, type: PortType): CoercionResult => {
+  if (value === undefined || value === null || type === 'any') {
+    return { ok: true, value };
+  }
+
+  switch (type) {
+    case 'number': {
+      if (typeof value === 'number') return Number.isFinite(value) ? { ok: true, value } : { ok: false };
+      if (typeof value === 'bigint') return { ok: true, value: Number(value) };
+      if (typeof value === 'boolean') return { ok: true, value: value ? 1 : 0 };
+      if (typeof value === 'string' && value.trim().length) {
+        const parsed = Number(value.trim());
+        return Number.isFinite(parsed) ? { ok: true, value: parsed } : { ok: false };
+      }
+      return { ok: false };
+    }
+    case 'string':
+      if (typeof value === 'string') return { ok: true, value };
+      if (typeof value === 'number' || typeof value === 'boolean' || typeof value === 'bigint') {
+        return { ok: true, value: String(value) };
+      }
+      return { ok: false };
+    case 'boolean':
+      if (typeof value === 'boolean') return { ok: true, value };
+      if (value === 0 || value === 1) return { ok: true, value: value === 1 };
+      if (typeof value === 'string') {
+        const normalized = value.trim().toLowerCase();
+        if (normalized === 'true' || normalized === '1') return { ok: true, value: true };
+        if (normalized === 'false' || normalized === '0') return { ok: true, value: false };
+      }
+      return { ok: false };
+    case 'object': {
+      if (isPlainObject(value)) return { ok: true, value };
+      const parsed = typeof value === 'string' ? parseJson(value) : undefined;
+      return isPlainObject(parsed) ? { ok: true, value: parsed } : { ok: false };
+    }
+    case 'array': {
+      if (Array.isArray(value)) return { ok: true, value };
+      const parsed = typeof value === 'string' ? parseJson(value) : undefined;
+      return Array.isArray(parsed) ? { ok: true, value: parsed } : { ok: false };
+    }
+    default:
+      return { ok: false };
+  }
+};
+
+const COMPATIBLE_TYPES: Record<Exclude<PortType, 'any'>, PortType[]> = {
+  number: ['number', 'string', 'boolean'],
+  string: ['string', 'number', 'boolean', 'object', 'array'],
+  boolean: ['boolean', 'number', 'string'],
+  object: ['object'],
+  array: ['array'],
+};
+
+/** Whether a value produced by a `from` port can ever be coerced into a `to` port. */
+export const arePortTypesCompatible = (from: PortType, to: PortType): boolean => {
+  if (from === 'any' || to === 'any') return true;
+  return COMPATIBLE_TYPES[from].includes(to);
+};
+
+export const describeValueType = (value: unknown): string => {
+  if (value === null) return 'null';
+  if (Array.isArray(value)) return 'array';
+  return typeof value;
+};
+
+export const findPort = (ports: BlockPort[] | undefined, name: string): BlockPort | undefined =>
+  ports?.find((port) => port.name === name);
+
+/**
+ * The input handle an edge feeds. Explicit target handles win, edges from input nodes use
+ * the field name, and other handle-less edges go to the only declared input or `value`.
+ */
+export const resolveTargetHandle = (
+  edge: { targetHandle?: string },
+  sourceNode: { type?: string; data?: Record<string, any> } | undefined,
+  inputs: BlockPort[] | undefined,
+): string => {
+  if (edge.targetHandle) {
+    return edge.targetHandle;
+  }
+  if (sourceNode?.type === 'input' && sourceNode.data?.fieldName) {
+    return String(sourceNode.data.fieldName);
+  }
+  return inputs?.length === 1 ? inputs[0].name : 'value';
+};
@@ -1,7 +1,7 @@
 import { z } from 'zod';
-import { BlockHandlerType } from './blocks.types';
+import { BlockHandlerType, BlockPort } from './blocks.types';
 
-type BlockCategory = 'input' | 'compute' | 'action' | 'storage' | 'transform';
+type BlockCategory = 'input' | 'compute' | 'action' | 'storage' | 'transform' | 'control';
 
 export interface BlockDefinition {
   id: string;
@@ -11,6 +11,22 @@ export interface BlockDefinition {
   handler: BlockHandlerType;
   configSchema: z.ZodTypeAny;
   requiresConnector?: boolean;
+  /** Connector types the block can work with, when it needs a connector */
+  connectorTypes?: string[];
+  /**
+   * Typed input handles. Edge values are coerced to the port type before the block runs.
+   * Blocks with no inputs read their data through config paths and treat edges as ordering only.
+   */
+  inputs: BlockPort[];
+  outputs: BlockPort[];
+  /**
+   * Source handles that act as mutually exclusive branches. The block reports the
+   * taken branch through its `branch` output and edges leaving the other handles
+   * are not followed.
+   */
+  branches?: string[];
+  /** Changes something outside the run (payments, writes, outbound calls); replays must confirm these */
+  sideEffects?: boolean;
 }
 
 const valuePathSchema = z.string().min(1, 'Use dot notation paths');
@@ -20,11 +36,27 @@ const inputSlotSchema = z.object({
   output: z.string().optional(),
 }).optional();
 
+const nodePolicySchema = z.object({
+  retries: z.number().int().min(0).max(10).default(0),
+  backoff: z.enum(['fixed', 'exponential']).default('exponential'),
+  backoffDelayMs: z.number().int().min(0).max(300000).default(1000),
+  timeoutMs: z.number().int().positive().max(3600000).optional(),
+  onError: z.enum(['fail', 'continue', 'route']).default('fail'),
+  fallbackValue: z.unknown().optional(),
+  redact: z.enum(['none', 'values', 'all']).optional(),
+}).optional();
+
 const conditionalFields = {
   runIfPath: z.string().optional(),
   runIfEquals: z.union([z.string(), z.number(), z.boolean()]).optional(),
   __inputSlots: z.record(z.string(), inputSlotSchema).optional(),
+  policy: nodePolicySchema,
 };
+const mathInputs: BlockPort[] = [
+  { name: 'a', type: 'number', required: true, configField: 'aPath' },
+  { name: 'b', type: 'number', required: true, configField: 'bPath' },
+];
+
 const withCondition = (schema: z.ZodObject<any, any>) =>
   schema
     .merge(z.object(conditionalFields))
@@ -37,6 +69,8 @@ export const blockRegistry: BlockDefinition[] = [
     description: 'Capture trigger payload or a nested path',
     category: 'input',
     handler: 'logic',
+    inputs: [],
+    outputs: [{ name: 'value', type: 'any', description: 'Payload field or the whole payload' }],
     configSchema: withCondition(z.object({
       path: z.string().optional(),
       alias: z.string().optional(),
@@ -48,6 +82,8 @@ export const blockRegistry: BlockDefinition[] = [
     description: 'Extract a value from payload or memory and store it under an alias',
     category: 'transform',
     handler: 'logic',
+    inputs: [],
+    outputs: [{ name: 'result', type: 'any' }],
     configSchema: withCondition(z.object({
       source: z.enum(['payload', 'memory']).default('payload'),
       path: valuePathSchema,
@@ -60,18 +96,81 @@ export const blockRegistry: BlockDefinition[] = [
     description: 'Parse structured memo text into key/value pairs',
     category: 'transform',
     handler: 'logic',
+    inputs: [{ name: 'memo', type: 'string', required: true, configField: 'sourcePath' }],
+    outputs: [{ name: 'result', type: 'object', description: 'Parsed key/value pairs' }],
     configSchema: withCondition(z.object({
       sourcePath: valuePathSchema,
       delimiter: z.string().default(':'),
       alias: z.string().min(1),
     })),
   },
+  {
+    id: 'condition',
+    name: 'Condition',
+    description: 'Route execution down the true or false edge based on a value',
+    category: 'control',
+    handler: 'logic',
+    branches: ['true', 'false'],
+    inputs: [{ name: 'value', type: 'any', required: true, configField: 'conditionPath' }],
+    outputs: [
+      { name: 'result', type: 'object' },
+      { name: 'passed', type: 'boolean' },
+      { name: 'branch', type: 'string' },
+      { name: 'value', type: 'any' },
+    ],
+    configSchema: withCondition(z.object({
+      conditionPath: valuePathSchema.optional(),
+      operator: z
+        .enum(['truthy', 'falsy', 'equals', 'not_equals', 'gt', 'gte', 'lt', 'lte', 'contains', 'exists'])
+        .default('truthy'),
+      compareTo: z.union([z.string(), z.number(), z.boolean()]).optional(),
+      alias: z.string().optional(),
+    })),
+  },
+  {
+    id: 'for-each',
+    name: 'For Each',
+    description: 'Run an embedded sub-graph once for every item of an array',
+    category: 'control',
+    handler: 'logic',
+    inputs: [{ name: 'items', type: 'array', required: true, configField: 'itemsPath' }],
+    outputs: [{ name: 'result', type: 'array', description: 'Outputs of every iteration, in item order' }],
+    configSchema: withCondition(z.object({
+      itemsPath: valuePathSchema.optional(),
+      itemAlias: z.string().min(1).default('item'),
+      concurrency: z.number().int().min(1).max(20).default(1),
+      maxIterations: z.number().int().min(1).max(1000).default(100),
+      subgraph: z.object({
+        nodes: z.array(z.record(z.string(), z.any())).min(1),
+        edges: z.array(z.record(z.string(), z.any())).default([]),
+      }),
+      alias: z.string().optional(),
+    })),
+  },
+  {
+    id: 'call-workflow',
+    name: 'Call Workflow',
+    description: 'Run another published workflow with mapped inputs and return its outputs',
+    category: 'control',
+    handler: 'logic',
+    sideEffects: true,
+    inputs: [],
+    outputs: [{ name: 'result', type: 'object', description: 'Outputs of the called workflow, or the child run in async mode' }],
+    configSchema: withCondition(z.object({
+      workflowId: z.string().min(1),
+      mode: z.enum(['sync', 'async']).default('sync'),
+      inputs: z.record(z.string(), valuePathSchema).default({}),
+      alias: z.string().optional(),
+    })),
+  },
   {
     id: 'nillion-compute',
     name: 'Nillion Compute',
     description: 'Execute private compute workload with secret inputs',
     category: 'compute',
     handler: 'nillion',
+    inputs: [{ name: 'input', type: 'object', configField: 'inputPath', description: 'Workload input; the payload when neither is set' }],
+    outputs: [{ name: 'result', type: 'any' }],
     configSchema: withCondition(z.object({
       workloadId: z.string().min(1),
       inputPath: z.string().optional(),
@@ -84,6 +183,8 @@ export const blockRegistry: BlockDefinition[] = [
     description: 'Execute visual Nillion blocks (math, logic, etc.) in TEE',
     category: 'compute',
     handler: 'nillion',
+    inputs: [],
+    outputs: [{ name: 'result', type: 'object', description: 'Block graph outputs keyed by node and output' }],
     configSchema: withCondition(z.object({
       nillionGraph: z.object({
         nodes: z.array(z.any()),
@@ -99,6 +200,11 @@ export const blockRegistry: BlockDefinition[] = [
     description: 'Invoke NilAI LLM with templated prompts',
     category: 'compute',
     handler: 'nilai',
+    inputs: [],
+    outputs: [
+      { name: 'result', type: 'object', description: 'Reply with signature and attestation' },
+      { name: 'message', type: 'string', description: 'Reply text' },
+    ],
     configSchema: withCondition(z.object({
       model: z.string().optional(),
       promptTemplate: z.string().min(1),
@@ -111,6 +217,14 @@ export const blockRegistry: BlockDefinition[] = [
     description: 'Send shielded transaction using workflow data',
     category: 'action',
     handler: 'zcash',
+    sideEffects: true,
+    inputs: [
+      { name: 'amount', type: 'number', required: true, configField: 'amountPath' },
+      { name: 'address', type: 'string', configField: 'addressPath', description: 'Recipient; fallbackAddress when neither is set' },
+      { name: 'memo', type: 'string', configField: 'memoPath' },
+      { name: 'fromAddress', type: 'string', configField: 'fromAddressPath' },
+    ],
+    outputs: [{ name: 'result', type: 'object', description: 'Operation id and transaction details' }],
     configSchema: withCondition(z.object({
       addressPath: valuePathSchema.optional(),
       amountPath: valuePathSchema,
@@ -142,6 +256,10 @@ export const blockRegistry: BlockDefinition[] = [
     category: 'action',
     handler: 'connector',
     requiresConnector: true,
+    connectorTypes: ['custom-http'],
+    sideEffects: true,
+    inputs: [{ name: 'body', type: 'any', configField: 'bodyPath', description: 'Request body; the payload when neither is set' }],
+    outputs: [{ name: 'result', type: 'any', description: 'Response body' }],
     configSchema: withCondition(z.object({
       relativePath: z.string().default('/'),
       method: z.enum(['GET', 'POST', 'PUT', 'PATCH', 'DELETE']).default('POST'),
@@ -156,6 +274,9 @@ export const blockRegistry: BlockDefinition[] = [
     description: 'Call arbitrary HTTP endpoint with workflow data',
     category: 'action',
     handler: 'connector',
+    sideEffects: true,
+    inputs: [{ name: 'body', type: 'any', configField: 'bodyPath', description: 'Request body; the payload when neither is set' }],
+    outputs: [{ name: 'result', type: 'any', description: 'Response body' }],
     configSchema: withCondition(z.object({
       method: z.enum(['GET', 'POST', 'PUT', 'PATCH', 'DELETE']).default('POST'),
       url: z.string().url(),
@@ -170,6 +291,12 @@ export const blockRegistry: BlockDefinition[] = [
     description: 'Persist state to Nillion storage collection with encryption',
     category: 'storage',
     handler: 'nillion',
+    sideEffects: true,
+    inputs: [
+      { name: 'data', type: 'object', configField: 'dataPath', description: 'Document to store; the payload when neither is set' },
+      { name: 'key', type: 'string', configField: 'keyPath' },
+    ],
+    outputs: [{ name: 'result', type: 'object' }],
     configSchema: withCondition(z.object({
       collectionId: z.string().min(1),
       keyPath: z.string().optional(),
@@ -185,6 +312,8 @@ export const blockRegistry: BlockDefinition[] = [
     description: 'Fetch private state from Nillion storage',
     category: 'storage',
     handler: 'nillion',
+    inputs: [{ name: 'key', type: 'string', required: true, configField: 'keyPath' }],
+    outputs: [{ name: 'result', type: 'object' }],
     configSchema: withCondition(z.object({
       collectionId: z.string().min(1),
       keyPath: valuePathSchema,
@@ -197,6 +326,8 @@ export const blockRegistry: BlockDefinition[] = [
     description: 'Add two numeric values from payload or memory',
     category: 'compute',
     handler: 'nillion',
+    inputs: mathInputs,
+    outputs: [{ name: 'result', type: 'number' }],
     configSchema: withCondition(z.object({
       aPath: valuePathSchema.optional(),
       bPath: valuePathSchema.optional(),
@@ -209,6 +340,8 @@ export const blockRegistry: BlockDefinition[] = [
     description: 'Subtract the second value from the first',
     category: 'compute',
     handler: 'nillion',
+    inputs: mathInputs,
+    outputs: [{ name: 'result', type: 'number' }],
     configSchema: withCondition(z.object({
       aPath: valuePathSchema.optional(),
       bPath: valuePathSchema.optional(),
@@ -221,6 +354,8 @@ export const blockRegistry: BlockDefinition[] = [
     description: 'Multiply two numeric values',
     category: 'compute',
     handler: 'nillion',
+    inputs: mathInputs,
+    outputs: [{ name: 'result', type: 'number' }],
     configSchema: withCondition(z.object({
       aPath: valuePathSchema.optional(),
       bPath: valuePathSchema.optional(),
@@ -233,6 +368,8 @@ export const blockRegistry: BlockDefinition[] = [
     description: 'Divide the first value by the second',
     category: 'compute',
     handler: 'nillion',
+    inputs: mathInputs,
+    outputs: [{ name: 'result', type: 'number' }],
     configSchema: withCondition(z.object({
       aPath: valuePathSchema.optional(),
       bPath: valuePathSchema.optional(),
@@ -245,6 +382,8 @@ export const blockRegistry: BlockDefinition[] = [
     description: 'Compare two numbers and return whether a > b',
     category: 'compute',
     handler: 'nillion',
+    inputs: mathInputs,
+    outputs: [{ name: 'result', type: 'boolean' }],
     configSchema: withCondition(z.object({
       aPath: valuePathSchema.optional(),
       bPath: valuePathSchema.optional(),
@@ -257,6 +396,13 @@ export const blockRegistry: BlockDefinition[] = [
     description: 'Choose between two values based on a boolean condition',
     category: 'compute',
     handler: 'nillion',
+    branches: ['true', 'false'],
+    inputs: [
+      { name: 'condition', type: 'boolean', required: true, configField: 'conditionPath' },
+      { name: 'true', type: 'any', required: true, configField: 'truePath' },
+      { name: 'false', type: 'any', required: true, configField: 'falsePath' },
+    ],
+    outputs: [{ name: 'result', type: 'any' }],
     configSchema: withCondition(z.object({
       conditionPath: valuePathSchema.optional(),
       truePath: valuePathSchema.optional(),
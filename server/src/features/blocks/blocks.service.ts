@@ -5,6 +5,7 @@ import { HttpStatus } from '@/utils/http-status';
 import { ConnectorModel } from '@/features/connectors/connectors.model';
 import { WorkflowModel } from '@/features/workflows/workflows.model';
 import { TriggerModel } from '@/features/triggers/triggers.model';
+import { validateConfigExpressions } from '@/features/workflows/workflows.expressions';
 import { Types } from 'mongoose';
 
 type DependencyInput =
@@ -37,6 +38,13 @@ const normalizeDependencyInput = (deps?: DependencyInput[]): NormalizedDependenc
     .filter((dep): dep is NormalizedDependency => dep !== null);
 };
 
+const assertValidExpressions = (config: Record<string, unknown>) => {
+  const issues = validateConfigExpressions(config);
+  if (issues.length) {
+    throw new AppError('Invalid expression in block config', HttpStatus.BAD_REQUEST, issues);
+  }
+};
+
 interface CreateBlockInput {
   workflowId: string;
   type: string;
@@ -75,6 +83,7 @@ export const createBlock = async (input: CreateBlockInput) => {
   }
 
   const parsedConfig = definition.configSchema.parse(input.config);
+  assertValidExpressions(parsedConfig as Record<string, unknown>);
 
   const normalizedDeps = normalizeDependencyInput(input.dependencies);
 
@@ -164,6 +173,7 @@ export const updateBlock = async (input: UpdateBlockInput) => {
       throw new AppError('Unknown block type', HttpStatus.BAD_REQUEST);
     }
     const parsedConfig = definition.configSchema.parse(input.config) as Record<string, unknown>;
+    assertValidExpressions(parsedConfig);
     
     // Merge __inputSlots instead of replacing to handle concurrent connections
     const existingConfig = (block.config ?? {}) as Record<string, unknown>;
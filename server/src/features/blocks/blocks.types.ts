@@ -5,6 +5,18 @@ export interface BlockExecutionContext {
   memory: Record<string, unknown>;
 }
 
+export type PortType = 'number' | 'string' | 'boolean' | 'object' | 'array' | 'any';
+
+export interface BlockPort {
+  /** Handle an edge connects to */
+  name: string;
+  type: PortType;
+  required?: boolean;
+  /** Config field that can supply the value when no edge is connected */
+  configField?: string;
+  description?: string;
+}
+
 export type NillionBlockCategory = 'math' | 'comparison' | 'logical' | 'statistical' | 'use_case' | 'control_flow';
 
 export interface NillionBlockInput {
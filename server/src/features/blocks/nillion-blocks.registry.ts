@@ -1,4 +1,11 @@
-import { NillionBlockCategory, NillionComputeBlock } from './blocks.types';
+import {
+  BlockPort,
+  NillionBlockCategory,
+  NillionBlockInput,
+  NillionBlockOutput,
+  NillionComputeBlock,
+  PortType,
+} from './blocks.types';
 
 export const nillionBlockRegistry: NillionComputeBlock[] = [
   {
@@ -357,3 +364,31 @@ export const getNillionBlock = (id: string): NillionComputeBlock | undefined =>
 
 export const getNillionBlocksByCategory = (category: NillionBlockCategory): NillionComputeBlock[] =>
   nillionBlockRegistry.filter((block) => block.category === category);
+
+const toPortType = (type: NillionBlockInput['type'] | NillionBlockOutput['type']): PortType => {
+  switch (type) {
+    case 'bool':
+      return 'boolean';
+    case 'array':
+      return 'array';
+    case 'struct':
+      return 'object';
+    default:
+      return 'number';
+  }
+};
+
+/** Generic port view of a Nillion block, in the same shape as the workflow block registry. */
+export const getNillionBlockPorts = (block: NillionComputeBlock): { inputs: BlockPort[]; outputs: BlockPort[] } => ({
+  inputs: block.inputs.map((input) => ({
+    name: input.name,
+    type: toPortType(input.type),
+    required: input.required,
+    description: input.description,
+  })),
+  outputs: block.outputs.map((output) => ({
+    name: output.name,
+    type: toPortType(output.type),
+    description: output.description,
+  })),
+});
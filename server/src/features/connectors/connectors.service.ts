@@ -8,7 +8,6 @@ import {
   decryptConnectorConfig,
 } from './connectors.security';
 import { BlockModel } from '@/features/blocks/blocks.model';
-import { TriggerModel } from '@/features/triggers/triggers.model';
 
 interface CreateConnectorInput {
   name: string;
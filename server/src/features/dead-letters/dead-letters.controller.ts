@@ -0,0 +1,100 @@
+import { Response } from 'express';
+import { AuthenticatedRequest } from '@/shared/middlewares/auth.middleware';
+import { HttpStatus } from '@/utils/http-status';
+import { findUserById } from '@/features/auth/auth.service';
+import { discardDeadLetters, listDeadLetters, requeueDeadLetters } from './dead-letters.service';
+import { DeadLetterStatus } from './dead-letters.types';
+
+const DEFAULT_PAGE_SIZE = 50;
+
+export const listDeadLettersHandler = async (req: AuthenticatedRequest, res: Response): Promise<void> => {
+  if (!req.user) {
+    res.status(HttpStatus.UNAUTHORIZED).json({ message: 'Unauthorized' });
+    return;
+  }
+  const user = await findUserById(req.user.id);
+  if (!user) {
+    res.status(HttpStatus.NOT_FOUND).json({ message: 'User not found' });
+    return;
+  }
+
+  const query = req.query as Record<string, string | undefined>;
+  const page = await listDeadLetters(user.organization.toString(), {
+    status: (query.status as DeadLetterStatus | undefined) ?? 'open',
+    workflowId: query.workflowId,
+    before: query.cursor,
+    limit: query.limit !== undefined ? Number(query.limit) : DEFAULT_PAGE_SIZE,
+  });
+  res.json(page);
+};
+
+export const requeueDeadLettersHandler = async (req: AuthenticatedRequest, res: Response): Promise<void> => {
+  if (!req.user) {
+    res.status(HttpStatus.UNAUTHORIZED).json({ message: 'Unauthorized' });
+    return;
+  }
+  const user = await findUserById(req.user.id);
+  if (!user) {
+    res.status(HttpStatus.NOT_FOUND).json({ message: 'User not found' });
+    return;
+  }
+
+  const result = await requeueDeadLetters(user.organization.toString(), req.body.ids);
+  res.status(HttpStatus.ACCEPTED).json(result);
+};
+
+export const requeueDeadLetterHandler = async (req: AuthenticatedRequest, res: Response): Promise<void> => {
+  if (!req.user) {
+    res.status(HttpStatus.UNAUTHORIZED).json({ message: 'Unauthorized' });
+    return;
+  }
+  const user = await findUserById(req.user.id);
+  if (!user) {
+    res.status(HttpStatus.NOT_FOUND).json({ message: 'User not found' });
+    return;
+  }
+
+  const { deadLetterId } = req.params as { deadLetterId: string };
+  const result = await requeueDeadLetters(user.organization.toString(), [deadLetterId]);
+  if (!result.requeued.length) {
+    const reason = result.skipped[0]?.reason ?? 'Dead letter not found';
+    res.status(HttpStatus.CONFLICT).json({ message: reason });
+    return;
+  }
+  res.status(HttpStatus.ACCEPTED).json(result);
+};
+
+export const discardDeadLettersHandler = async (req: AuthenticatedRequest, res: Response): Promise<void> => {
+  if (!req.user) {
+    res.status(HttpStatus.UNAUTHORIZED).json({ message: 'Unauthorized' });
+    return;
+  }
+  const user = await findUserById(req.user.id);
+  if (!user) {
+    res.status(HttpStatus.NOT_FOUND).json({ message: 'User not found' });
+    return;
+  }
+
+  const result = await discardDeadLetters(user.organization.toString(), req.body.ids);
+  res.json(result);
+};
+
+export const discardDeadLetterHandler = async (req: AuthenticatedRequest, res: Response): Promise<void> => {
+  if (!req.user) {
+    res.status(HttpStatus.UNAUTHORIZED).json({ message: 'Unauthorized' });
+    return;
+  }
+  const user = await findUserById(req.user.id);
+  if (!user) {
+    res.status(HttpStatus.NOT_FOUND).json({ message: 'User not found' });
+    return;
+  }
+
+  const { deadLetterId } = req.params as { deadLetterId: string };
+  const result = await discardDeadLetters(user.organization.toString(), [deadLetterId]);
+  if (!result.discarded.length) {
+    res.status(HttpStatus.NOT_FOUND).json({ message: 'Dead letter not found' });
+    return;
+  }
+  res.json(result);
+};
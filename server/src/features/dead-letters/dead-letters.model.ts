@@ -0,0 +1,44 @@
+import { Schema, model, Document } from 'mongoose';
+import { DeadLetterLastStep, DeadLetterStatus } from './dead-letters.types';
+
+export interface DeadLetterDocument extends Document {
+  run: Schema.Types.ObjectId;
+  /** Missing only when the job's run and workflow were already gone */
+  workflow?: Schema.Types.ObjectId;
+  organization?: Schema.Types.ObjectId;
+  jobId?: string;
+  failedReason: string;
+  attemptsMade: number;
+  lastStep?: DeadLetterLastStep;
+  status: DeadLetterStatus;
+  /** How many times the run has been dead-lettered, including after requeues */
+  occurrences: number;
+  requeuedAt?: Date;
+  /** When a later attempt of the run succeeded */
+  resolvedAt?: Date;
+  discardedAt?: Date;
+  createdAt: Date;
+  updatedAt: Date;
+}
+
+const deadLetterSchema = new Schema<DeadLetterDocument>(
+  {
+    run: { type: Schema.Types.ObjectId, ref: 'Run', required: true, unique: true },
+    workflow: { type: Schema.Types.ObjectId, ref: 'Workflow' },
+    organization: { type: Schema.Types.ObjectId, ref: 'Organization' },
+    jobId: { type: String },
+    failedReason: { type: String, required: true },
+    attemptsMade: { type: Number, required: true },
+    lastStep: { type: Schema.Types.Mixed },
+    status: { type: String, enum: ['open', 'requeued', 'resolved', 'discarded'], default: 'open' },
+    occurrences: { type: Number, default: 1 },
+    requeuedAt: { type: Date },
+    resolvedAt: { type: Date },
+    discardedAt: { type: Date },
+  },
+  { timestamps: true },
+);
+
+deadLetterSchema.index({ organization: 1, status: 1, updatedAt: -1 });
+
+export const DeadLetterModel = model<DeadLetterDocument>('DeadLetter', deadLetterSchema);
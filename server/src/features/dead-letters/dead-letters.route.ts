@@ -0,0 +1,21 @@
+import { Router } from 'express';
+import { authenticate } from '@/shared/middlewares/auth.middleware';
+import { validate } from '@/shared/middlewares/validation.middleware';
+import { listDeadLettersSchema, bulkDeadLettersSchema, deadLetterIdSchema } from './dead-letters.schema';
+import {
+  listDeadLettersHandler,
+  requeueDeadLettersHandler,
+  requeueDeadLetterHandler,
+  discardDeadLettersHandler,
+  discardDeadLetterHandler,
+} from './dead-letters.controller';
+
+const router = Router();
+
+router.get('/', authenticate, validate(listDeadLettersSchema), listDeadLettersHandler);
+router.post('/requeue', authenticate, validate(bulkDeadLettersSchema), requeueDeadLettersHandler);
+router.post('/discard', authenticate, validate(bulkDeadLettersSchema), discardDeadLettersHandler);
+router.post('/:deadLetterId/requeue', authenticate, validate(deadLetterIdSchema), requeueDeadLetterHandler);
+router.delete('/:deadLetterId', authenticate, validate(deadLetterIdSchema), discardDeadLetterHandler);
+
+export default router;
@@ -0,0 +1,22 @@
+import { z } from 'zod';
+
+const objectIdSchema = z.string().regex(/^[a-f0-9]{24}$/i, 'Invalid id');
+
+export const listDeadLettersSchema = z.object({
+  query: z.object({
+    status: z.enum(['open', 'requeued', 'resolved', 'discarded']).optional(),
+    workflowId: objectIdSchema.optional(),
+    cursor: objectIdSchema.optional(),
+    limit: z.coerce.number().int().min(1).max(200).optional(),
+  }),
+});
+
+export const bulkDeadLettersSchema = z.object({
+  body: z.object({
+    ids: z.array(z.string().min(1)).min(1).max(500),
+  }),
+});
+
+export const deadLetterIdSchema = z.object({
+  params: z.object({ deadLetterId: z.string().min(1) }),
+});
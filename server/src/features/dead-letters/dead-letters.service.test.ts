@@ -0,0 +1,117 @@
+import { beforeEach, describe, expect, it, vi } from 'vitest';
+import { closeDeadLetter, onDeadLetterAlert, recordDeadLetter } from './dead-letters.service';
+
+type Letter = { run: string; organization?: string; status: string; [field: string]: unknown };
+
+const letters = vi.hoisted(() => new Map<string, Letter>());
+
+const matchesStatus = (letter: Letter, status: unknown) =>
+  status === undefined ||
+  (typeof status === 'string' ? letter.status === status : (status as { $in: string[] }).$in.includes(letter.status));
+
+vi.mock('./dead-letters.model', () => ({
+  DeadLetterModel: {
+    findOneAndUpdate: vi.fn(
+      async (filter: { run: string }, update: { $set: Record<string, unknown>; $unset: Record<string, unknown> }) => {
+        const previous = letters.get(filter.run);
+        const next: Letter = { ...previous, ...update.$set } as Letter;
+        for (const field of Object.keys(update.$unset)) delete next[field];
+        letters.set(filter.run, next);
+        return previous ? { ...previous } : null;
+      },
+    ),
+    updateOne: vi.fn(async (filter: { run: string; status?: unknown }, update: { $set: Record<string, unknown> }) => {
+      const letter = letters.get(filter.run);
+      if (letter && matchesStatus(letter, filter.status)) {
+        Object.assign(letter, update.$set);
+      }
+      return {};
+    }),
+    countDocuments: vi.fn(
+      async (filter: { organization: string; status: string }) =>
+        [...letters.values()].filter((letter) => letter.organization === filter.organization && letter.status === filter.status).length,
+    ),
+  },
+}));
+
+vi.mock('@/config/env', async (importOriginal) => {
+  const { envConfig } = await importOriginal<typeof import('@/config/env')>();
+  return { envConfig: { ...envConfig, DEAD_LETTER_ALERT_THRESHOLD: 2, DEAD_LETTER_ALERT_WEBHOOK_URL: undefined } };
+});
+
+vi.mock('@/features/runs/runs.model', () => ({
+  RunModel: { findById: vi.fn(() => ({ select: async () => null })) },
+}));
+
+vi.mock('@/features/workflows/workflows.model', () => ({ WorkflowModel: { findById: vi.fn() } }));
+
+vi.mock('@/features/runs/runs.service', () => ({ resumeRun: vi.fn() }));
+
+vi.mock('@/features/runs/runs.events', () => ({ publishRunEvent: vi.fn() }));
+
+vi.mock('@/utils/logger', () => ({
+  logger: { debug: vi.fn(), info: vi.fn(), warn: vi.fn(), error: vi.fn() },
+}));
+
+const alerts = vi.fn();
+onDeadLetterAlert(alerts);
+
+const fail = (runId: string) =>
+  recordDeadLetter({ runId, workflowId: 'wf-1', organizationId: 'org-1', failedReason: 'boom', attemptsMade: 1 });
+
+beforeEach(() => {
+  letters.clear();
+  alerts.mockClear();
+});
+
+describe('closeDeadLetter', () => {
+  it('marks an open letter requeued when its run is resumed', async () => {
+    await fail('run-1');
+    await closeDeadLetter('run-1', 'requeued');
+
+    expect(letters.get('run-1')).toMatchObject({ status: 'requeued', requeuedAt: expect.any(Date) });
+  });
+
+  it('resolves an open or requeued letter once its run succeeds', async () => {
+    await fail('run-1');
+    await fail('run-2');
+    await closeDeadLetter('run-2', 'requeued');
+
+    await closeDeadLetter('run-1', 'resolved');
+    await closeDeadLetter('run-2', 'resolved');
+
+    expect(letters.get('run-1')).toMatchObject({ status: 'resolved', resolvedAt: expect.any(Date) });
+    expect(letters.get('run-2')).toMatchObject({ status: 'resolved', resolvedAt: expect.any(Date) });
+  });
+
+  it('leaves discarded letters alone', async () => {
+    letters.set('run-1', { run: 'run-1', organization: 'org-1', status: 'discarded' });
+
+    await closeDeadLetter('run-1', 'requeued');
+    await closeDeadLetter('run-1', 'resolved');
+
+    expect(letters.get('run-1')?.status).toBe('discarded');
+  });
+
+  it('stops a resumed run from counting toward the alert threshold', async () => {
+    await fail('run-1');
+    await fail('run-2');
+    expect(alerts).toHaveBeenCalledTimes(1);
+
+    await closeDeadLetter('run-2', 'requeued');
+    await closeDeadLetter('run-2', 'resolved');
+    await fail('run-3');
+
+    expect(alerts).toHaveBeenCalledTimes(2);
+    expect(alerts).toHaveBeenLastCalledWith(expect.objectContaining({ openCount: 2, latest: expect.objectContaining({ runId: 'run-3' }) }));
+  });
+
+  it('reopens the letter when the run fails again', async () => {
+    await fail('run-1');
+    await closeDeadLetter('run-1', 'resolved');
+    await fail('run-1');
+
+    expect(letters.get('run-1')?.status).toBe('open');
+    expect(letters.get('run-1')).not.toHaveProperty('resolvedAt');
+  });
+});
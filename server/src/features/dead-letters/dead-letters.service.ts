@@ -0,0 +1,204 @@
+import axios from 'axios';
+import { Types } from 'mongoose';
+import { envConfig } from '@/config/env';
+import { logger } from '@/utils/logger';
+import { RunModel } from '@/features/runs/runs.model';
+import { resumeRun } from '@/features/runs/runs.service';
+import { publishRunEvent } from '@/features/runs/runs.events';
+import { WorkflowModel } from '@/features/workflows/workflows.model';
+import { DeadLetterModel, DeadLetterDocument } from './dead-letters.model';
+import { DeadLetterAlert, DeadLetterStatus } from './dead-letters.types';
+
+type DeadLetterAlertHandler = (alert: DeadLetterAlert) => void | Promise<void>;
+
+const alertHandlers: DeadLetterAlertHandler[] = [];
+
+/** Called once each time an organization's open dead letters reach `DEAD_LETTER_ALERT_THRESHOLD`. */
+export const onDeadLetterAlert = (handler: DeadLetterAlertHandler): void => {
+  alertHandlers.push(handler);
+};
+
+onDeadLetterAlert(async (alert) => {
+  logger.error(alert, 'Dead-letter threshold reached');
+  if (envConfig.DEAD_LETTER_ALERT_WEBHOOK_URL) {
+    await axios.post(envConfig.DEAD_LETTER_ALERT_WEBHOOK_URL, { type: 'dead-letter-threshold', ...alert }, { timeout: 10_000 });
+  }
+});
+
+const notifyThreshold = async (organizationId: string, latest: DeadLetterAlert['latest']) => {
+  const threshold = envConfig.DEAD_LETTER_ALERT_THRESHOLD;
+  if (threshold <= 0) {
+    return;
+  }
+  const openCount = await DeadLetterModel.countDocuments({ organization: organizationId, status: 'open' });
+  // Alert on the crossing only, so a growing backlog does not page on every failure
+  if (openCount !== threshold) {
+    return;
+  }
+  const alert: DeadLetterAlert = { organizationId, openCount, threshold, latest };
+  for (const handler of alertHandlers) {
+    try {
+      await handler(alert);
+    } catch (error) {
+      logger.warn({ err: error, organizationId }, 'Dead-letter alert handler failed');
+    }
+  }
+};
+
+interface RecordDeadLetterInput {
+  runId: string;
+  /** From the job, for runs or workflows that no longer exist */
+  workflowId?: string;
+  organizationId?: string;
+  jobId?: string;
+  failedReason: string;
+  attemptsMade: number;
+}
+
+/**
+ * Keep a run that failed for good, either in the engine or because its queue job used up its
+ * attempts, and settle the run as failed. A run or workflow that no longer exists is recorded
+ * with the ids the job carried.
+ */
+export const recordDeadLetter = async (input: RecordDeadLetterInput): Promise<void> => {
+  const run = await RunModel.findById(input.runId).select('workflow status steps');
+  if (!run) {
+    logger.warn({ runId: input.runId }, 'Dead-lettered job has no run');
+  }
+  const workflowId = run ? String(run.workflow) : input.workflowId;
+  const workflow = workflowId && Types.ObjectId.isValid(workflowId)
+    ? await WorkflowModel.findById(workflowId).select('organization')
+    : null;
+  if (!workflow) {
+    logger.warn({ runId: input.runId, workflowId }, 'Dead-lettered run has no workflow');
+  }
+  const organizationId = workflow ? workflow.organization.toString() : input.organizationId;
+
+  const last = run?.steps?.[run.steps.length - 1];
+  const previous = await DeadLetterModel.findOneAndUpdate(
+    { run: input.runId },
+    {
+      $set: {
+        workflow: workflowId,
+        organization: organizationId,
+        jobId: input.jobId,
+        failedReason: input.failedReason,
+        attemptsMade: input.attemptsMade,
+        lastStep: last
+          ? { nodeId: last.nodeId, blockId: last.blockId, status: last.status, ...(last.error ? { error: last.error } : {}) }
+          : undefined,
+        status: 'open',
+      },
+      $unset: { requeuedAt: 1, resolvedAt: 1, discardedAt: 1 },
+      $inc: { occurrences: 1 },
+    },
+    { upsert: true, new: false, setDefaultsOnInsert: true },
+  );
+
+  if (run) {
+    const settled = await RunModel.updateOne(
+      { _id: run._id, status: { $in: ['pending', 'running'] } },
+      { $set: { status: 'failed', finishedAt: new Date(), result: { error: input.failedReason } } },
+    );
+    if (settled.modifiedCount) {
+      publishRunEvent(input.runId, { type: 'run-finished', status: 'failed', error: input.failedReason });
+    }
+  }
+
+  if (previous?.status !== 'open' && organizationId && workflowId) {
+    await notifyThreshold(organizationId, {
+      runId: input.runId,
+      workflowId,
+      failedReason: input.failedReason,
+    });
+  }
+};
+
+/**
+ * Take a run's dead letter out of the open backlog: `requeued` once the run is resumed,
+ * `resolved` once it succeeds. A run that fails again is reopened by `recordDeadLetter`.
+ */
+export const closeDeadLetter = async (runId: string, status: 'requeued' | 'resolved'): Promise<void> => {
+  if (status === 'requeued') {
+    await DeadLetterModel.updateOne({ run: runId, status: 'open' }, { $set: { status, requeuedAt: new Date() } });
+    return;
+  }
+  await DeadLetterModel.updateOne(
+    { run: runId, status: { $in: ['open', 'requeued'] } },
+    { $set: { status, resolvedAt: new Date() } },
+  );
+};
+
+interface ListDeadLettersFilters {
+  status: DeadLetterStatus;
+  workflowId?: string;
+  /** Id of the last entry of the previous page */
+  before?: string;
+  limit: number;
+}
+
+export const listDeadLetters = async (organizationId: string, filters: ListDeadLettersFilters) => {
+  const query: Record<string, unknown> = { organization: organizationId, status: filters.status };
+  if (filters.workflowId) {
+    query.workflow = filters.workflowId;
+  }
+  if (filters.before) {
+    query._id = { $lt: new Types.ObjectId(filters.before) };
+  }
+  const deadLetters = await DeadLetterModel.find(query)
+    .sort({ _id: -1 })
+    .limit(filters.limit + 1)
+    .populate('workflow', 'name')
+    .lean();
+  const hasMore = deadLetters.length > filters.limit;
+  const items = hasMore ? deadLetters.slice(0, filters.limit) : deadLetters;
+  const openCount = await DeadLetterModel.countDocuments({ organization: organizationId, status: 'open' });
+  return {
+    deadLetters: items,
+    openCount,
+    nextCursor: hasMore ? String(items[items.length - 1]._id) : null,
+  };
+};
+
+const findOpenDeadLetters = async (organizationId: string, ids: string[]) => {
+  const validIds = ids.filter((id) => Types.ObjectId.isValid(id));
+  const found = await DeadLetterModel.find({ _id: { $in: validIds }, organization: organizationId, status: 'open' });
+  const foundIds = new Set(found.map((letter) => letter.id as string));
+  const missing = ids.filter((id) => !foundIds.has(id)).map((id) => ({ id, reason: 'Not found or no longer open' }));
+  return { found, missing };
+};
+
+/** Put dead-lettered runs back on the queue; they continue from their checkpoint like a resumed run. */
+export const requeueDeadLetters = async (organizationId: string, ids: string[]) => {
+  const { found, missing } = await findOpenDeadLetters(organizationId, ids);
+  const requeued: string[] = [];
+  const skipped = [...missing];
+
+  for (const letter of found as DeadLetterDocument[]) {
+    const run = await RunModel.findById(letter.run);
+    if (!run) {
+      skipped.push({ id: letter.id, reason: 'Run no longer exists' });
+      continue;
+    }
+    if (run.status === 'running' || run.status === 'succeeded' || run.status === 'cancelled') {
+      skipped.push({ id: letter.id, reason: `Run is ${run.status}` });
+      continue;
+    }
+    await resumeRun(run);
+    letter.status = 'requeued';
+    letter.requeuedAt = new Date();
+    await letter.save();
+    requeued.push(letter.id);
+  }
+
+  return { requeued, skipped };
+};
+
+export const discardDeadLetters = async (organizationId: string, ids: string[]) => {
+  const { found, missing } = await findOpenDeadLetters(organizationId, ids);
+  await DeadLetterModel.updateMany(
+    { _id: { $in: found.map((letter) => letter._id) } },
+    { $set: { status: 'discarded', discardedAt: new Date() } },
+  );
+  return { discarded: found.map((letter) => letter.id as string), skipped: missing };
+};
@@ -0,0 +1,15 @@
+export type DeadLetterStatus = 'open' | 'requeued' | 'resolved' | 'discarded';
+
+export interface DeadLetterLastStep {
+  nodeId: string;
+  blockId: string;
+  status: string;
+  error?: string;
+}
+
+export interface DeadLetterAlert {
+  organizationId: string;
+  openCount: number;
+  threshold: number;
+  latest: { runId: string; workflowId: string; failedReason: string };
+}
@@ -256,7 +256,7 @@ export const demoLoanHandler = async (req: Request, res: Response): Promise<void
       runId: run.id,
       workflowId: (workflow as any)._id.toString(),
     });
-  } catch (err) {
+  } catch {
     res.status(HttpStatus.INTERNAL_SERVER_ERROR).json({ message: 'Demo loan evaluation failed' });
   }
 };
@@ -412,7 +412,7 @@ export const demoMedicalHandler = async (req: Request, res: Response): Promise<v
       workflowId,
       collectionId,
     });
-  } catch (err) {
+  } catch {
     res.status(HttpStatus.INTERNAL_SERVER_ERROR).json({ message: 'Demo medical evaluation failed' });
   }
 };
@@ -505,7 +505,7 @@ export const demoDelegationHandler = async (req: Request, res: Response): Promis
     }
 
     res.json({ token });
-  } catch (err) {
+  } catch {
     res.status(HttpStatus.INTERNAL_SERVER_ERROR).json({ message: 'Failed to generate delegation token' });
   }
 };
@@ -670,7 +670,7 @@ export const demoRunStatusHandler = async (req: Request, res: Response): Promise
       completedNodeIds,
       outputs: (result as any).outputs ?? {},
     });
-  } catch (err) {
+  } catch {
     res.status(HttpStatus.INTERNAL_SERVER_ERROR).json({ message: 'Failed to fetch run status' });
   }
 };
\ No newline at end of file
@@ -1,15 +1,13 @@
 import axios, { AxiosRequestConfig } from 'axios';
 import crypto from 'crypto';
 import { TriggerModel } from '@/features/triggers/triggers.model';
-import { WorkflowModel } from '@/features/workflows/workflows.model';
 import { ConnectorModel } from '@/features/connectors/connectors.model';
 import { decryptConnectorConfig } from '@/features/connectors/connectors.security';
 import { createRun } from '@/features/runs/runs.service';
 import { logger } from '@/utils/logger';
+import { claimPollTick, loadSeenRecords, releasePollTick } from './poll-state';
 
-const lastPolledAt = new Map<string, number>();
-const lastSeenState = new Map<string, Map<string, string>>();
-const DEFAULT_INTERVAL_MS = 30_000;
+const MIN_POLL_INTERVAL_MS = 10_000;
 
 const extractRecords = (payload: unknown, path?: string): unknown[] => {
   if (!path) {
@@ -64,160 +62,145 @@ const evaluateCondition = (leftValue: any, operator: string, rightValue: any): b
   }
 };
 
-const hasChanged = (
-  triggerId: string,
+interface RecordSighting {
+  stateKey: string;
+  hash: string;
+  changed: boolean;
+}
+
+/** Compare a record with its last sighting without recording it; see `markSeen`. */
+const checkRecord = (
+  seenRecords: Map<string, string>,
   record: Record<string, any>,
   recordIdPath?: string,
   watchFields?: string[],
-): boolean => {
-  const recordId = recordIdPath ? String(getNestedValue(record, recordIdPath)) : JSON.stringify(record);
-  const stateKey = `${triggerId}:${recordId}`;
-
-  if (!lastSeenState.has(triggerId)) {
-    lastSeenState.set(triggerId, new Map());
-  }
-
-  const triggerState = lastSeenState.get(triggerId)!;
+): RecordSighting => {
+  const stateKey = recordIdPath ? String(getNestedValue(record, recordIdPath)) : computeHash(record);
+  const previousHash = seenRecords.get(stateKey);
 
   if (watchFields && watchFields.length > 0) {
     const watchedValues = watchFields.map((field) => getNestedValue(record, field));
-    const currentHash = computeHash(watchedValues);
-    const previousHash = triggerState.get(stateKey);
-
-    if (previousHash === currentHash) {
-      return false;
-    }
+    const hash = computeHash(watchedValues);
+    return { stateKey, hash, changed: previousHash !== undefined && previousHash !== hash };
+  }
+  const hash = computeHash(record);
+  return { stateKey, hash, changed: previousHash !== hash };
+};
 
-    triggerState.set(stateKey, currentHash);
-    return previousHash !== undefined;
-  } else {
-    const currentHash = computeHash(record);
-    const previousHash = triggerState.get(stateKey);
+const markSeen = (seenRecords: Map<string, string>, { stateKey, hash }: RecordSighting): void => {
+  // Re-inserting keeps the map ordered by last sighting, so the oldest records are trimmed first
+  seenRecords.delete(stateKey);
+  seenRecords.set(stateKey, hash);
+};
 
-    if (previousHash === currentHash) {
-      return false;
-    }
+/** How often a custom HTTP poll trigger is polled. */
+export const getCustomPollIntervalMs = (config: Record<string, unknown>): number => {
+  const pollIntervalSec = config.pollIntervalSec as number | undefined;
+  return Math.max((pollIntervalSec ?? 30) * 1000, MIN_POLL_INTERVAL_MS);
+};
 
-    triggerState.set(stateKey, currentHash);
-    return true;
+/** Poll one trigger's endpoint and start a run per new or changed record. Returns the number of runs. */
+export const pollCustomHttpTrigger = async (triggerId: string, workflowId: string): Promise<number> => {
+  const trigger = await TriggerModel.findById(triggerId).lean();
+  if (!trigger || trigger.status !== 'active') {
+    return 0;
+  }
+  if (!trigger.connector) {
+    throw new Error('Custom HTTP poll trigger missing connector');
+  }
+  const connector = await ConnectorModel.findById(trigger.connector).lean();
+  if (!connector) {
+    throw new Error('Custom HTTP poll connector not found');
   }
-};
 
-const pollCustomHttpTriggers = async (): Promise<void> => {
-  const triggers = await TriggerModel.find({ type: 'custom-http-poll', status: 'active' }).lean();
-  for (const trigger of triggers) {
-    if (!trigger.connector) {
-      logger.warn({ triggerId: trigger._id }, 'Custom HTTP poll trigger missing connector');
-      continue;
-    }
-    const connector = await ConnectorModel.findById(trigger.connector).lean();
-    if (!connector) {
-      continue;
-    }
-    const workflow = await WorkflowModel.findOne({ trigger: trigger._id, status: 'published' }).lean();
-    if (!workflow) {
-      continue;
-    }
+  const triggerConfig = trigger.config as Record<string, unknown>;
+  const interval = getCustomPollIntervalMs(triggerConfig);
 
-    const now = Date.now();
-    const pollIntervalSec = (trigger.config as Record<string, unknown>).pollIntervalSec as number | undefined;
-    const interval = Math.max((pollIntervalSec ?? 30) * 1000, 10_000);
-    const last = lastPolledAt.get(trigger._id.toString()) ?? 0;
-    if (now - last < interval) {
-      continue;
-    }
+  const connectorConfig = decryptConnectorConfig(connector.type, connector.config as Record<string, unknown>);
+  const baseUrl = connectorConfig.baseUrl as string;
+  if (!baseUrl) {
+    throw new Error('Connector missing baseUrl');
+  }
 
-    const connectorConfig = decryptConnectorConfig(connector.type, connector.config as Record<string, unknown>);
-    const baseUrl = connectorConfig.baseUrl as string;
-    if (!baseUrl) {
-      logger.warn({ connectorId: connector._id }, 'Connector missing baseUrl');
-      continue;
-    }
+  const relativePath = (triggerConfig.relativePath as string) ?? '/';
+  const method = (triggerConfig.method as string) ?? 'GET';
+  const triggerHeaders = triggerConfig.headers as Record<string, string> | undefined;
+  const headers = {
+    ...(connectorConfig.headers as Record<string, string> | undefined),
+    ...(triggerHeaders ?? {}),
+  };
+  const recordPath = triggerConfig.recordsPath as string | undefined;
+  const params = triggerConfig.queryParams as Record<string, string> | undefined;
+  const body = triggerConfig.body as Record<string, unknown> | undefined;
+
+  const trimmedBase = baseUrl.endsWith('/') ? baseUrl.slice(0, -1) : baseUrl;
+  const trimmedPath = relativePath.startsWith('/') ? relativePath.slice(1) : relativePath;
+  const url = trimmedPath ? `${trimmedBase}/${trimmedPath}` : trimmedBase;
+
+  const recordIdPath = triggerConfig.recordIdPath as string | undefined;
+  const watchFields = triggerConfig.watchFields as string[] | undefined;
+  const changeDetection = triggerConfig.changeDetection as boolean | undefined;
+
+  const conditionField = triggerConfig.conditionField as string | undefined;
+  const conditionOperator = triggerConfig.conditionOperator as string | undefined;
+  const conditionValue = triggerConfig.conditionValue;
+
+  // Ticks arrive once per interval; the half-interval guard only drops duplicates, e.g. after a republish
+  const state = await claimPollTick(triggerId, interval / 2);
+  if (!state) {
+    return 0;
+  }
+  const seenRecords = loadSeenRecords(state);
+  let polledAt: Date | undefined;
 
-    const triggerConfig = trigger.config as Record<string, unknown>;
-    const relativePath = (triggerConfig.relativePath as string) ?? '/';
-    const method = (triggerConfig.method as string) ?? 'GET';
-    const triggerHeaders = triggerConfig.headers as Record<string, string> | undefined;
-    const headers = {
-      ...(connectorConfig.headers as Record<string, string> | undefined),
-      ...(triggerHeaders ?? {}),
-    };
-    const recordPath = triggerConfig.recordsPath as string | undefined;
-    const params = triggerConfig.queryParams as Record<string, string> | undefined;
-    const body = triggerConfig.body as Record<string, unknown> | undefined;
-    
-    let url: string;
-    const trimmedBase = baseUrl.endsWith('/') ? baseUrl.slice(0, -1) : baseUrl;
-    const trimmedPath = relativePath.startsWith('/') ? relativePath.slice(1) : relativePath;
-    url = trimmedPath ? `${trimmedBase}/${trimmedPath}` : trimmedBase;
-
-    const recordIdPath = triggerConfig.recordIdPath as string | undefined;
-    const watchFields = triggerConfig.watchFields as string[] | undefined;
-    const changeDetection = triggerConfig.changeDetection as boolean | undefined;
-
-    const conditionField = triggerConfig.conditionField as string | undefined;
-    const conditionOperator = triggerConfig.conditionOperator as string | undefined;
-    const conditionValue = triggerConfig.conditionValue;
-
-    try {
-      const requestConfig: AxiosRequestConfig = { method, url, headers, params, data: body };
-      const response = await axios.request(requestConfig);
-      lastPolledAt.set(trigger._id.toString(), now);
-
-      const records = extractRecords(response.data, recordPath);
-      const maxBatch = (trigger.config as Record<string, unknown>).maxBatch as number | undefined;
-      const batch = maxBatch ? records.slice(0, maxBatch) : records;
-
-      let triggeredCount = 0;
-
-      for (const record of batch) {
-        if (conditionField && conditionOperator) {
-          const fieldValue = getNestedValue(record, conditionField);
-          if (!evaluateCondition(fieldValue, conditionOperator, conditionValue)) {
-            continue;
-          }
-        }
+  try {
+    const requestConfig: AxiosRequestConfig = { method, url, headers, params, data: body };
+    const response = await axios.request(requestConfig);
+    polledAt = new Date();
 
-        if (changeDetection !== false) {
-          const changed = hasChanged(trigger._id.toString(), record as Record<string, any>, recordIdPath, watchFields);
-          if (!changed) {
-            continue;
-          }
-        }
+    const records = extractRecords(response.data, recordPath);
+    const maxBatch = triggerConfig.maxBatch as number | undefined;
+    const batch = maxBatch ? records.slice(0, maxBatch) : records;
 
-        await createRun({
-          workflowId: workflow._id.toString(),
-          triggerId: trigger._id.toString(),
-          payload: record as Record<string, unknown>,
-        });
+    let triggeredCount = 0;
 
-        triggeredCount++;
+    for (const record of batch) {
+      if (conditionField && conditionOperator) {
+        const fieldValue = getNestedValue(record, conditionField);
+        if (!evaluateCondition(fieldValue, conditionOperator, conditionValue)) {
+          continue;
+        }
       }
 
-      if (triggeredCount > 0) {
-        logger.info({ triggerId: trigger._id, count: triggeredCount }, 'Custom poll triggered workflows');
+      const sighting =
+        changeDetection !== false
+          ? checkRecord(seenRecords, record as Record<string, any>, recordIdPath, watchFields)
+          : undefined;
+      if (sighting && !sighting.changed) {
+        markSeen(seenRecords, sighting);
+        continue;
       }
-    } catch (error) {
-      logger.error({ err: error, triggerId: trigger._id }, 'Custom HTTP poll failed');
-    }
-  }
-};
 
-let intervalHandle: NodeJS.Timeout | null = null;
+      await createRun({
+        workflowId,
+        triggerId,
+        payload: record as Record<string, unknown>,
+      });
+      // Only recorded once its run exists, so a record whose run failed to start is retried next tick
+      if (sighting) {
+        markSeen(seenRecords, sighting);
+      }
 
-export const startCustomPollRunner = (): void => {
-  if (intervalHandle) {
-    return;
-  }
-  intervalHandle = setInterval(() => {
-    pollCustomHttpTriggers().catch((error) => logger.error({ err: error }, 'Custom poll runner error'));
-  }, DEFAULT_INTERVAL_MS);
-  logger.info('Custom HTTP poll runner started');
-};
+      triggeredCount++;
+    }
 
-export const stopCustomPollRunner = (): void => {
-  if (intervalHandle) {
-    clearInterval(intervalHandle);
-    intervalHandle = null;
+    if (triggeredCount > 0) {
+      logger.info({ triggerId, count: triggeredCount }, 'Custom poll triggered workflows');
+    }
+    return triggeredCount;
+  } finally {
+    await releasePollTick(state, { seenRecords, polledAt }).catch((error) =>
+      logger.error({ err: error, triggerId }, 'Failed to save custom poll state'),
+    );
   }
 };
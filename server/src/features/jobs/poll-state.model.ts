@@ -0,0 +1,31 @@
+import { Document, Schema, model } from 'mongoose';
+
+export interface PollStateDocument extends Document {
+  trigger: Schema.Types.ObjectId;
+  /** Where the next poll continues, e.g. the newest tweet id seen */
+  cursor?: string;
+  /** Hash of each record last seen, keyed by record id, oldest first */
+  seenRecords: { key: string; hash: string }[];
+  lastPolledAt?: Date;
+  lockedUntil?: Date;
+  lockToken?: string;
+  createdAt: Date;
+  updatedAt: Date;
+}
+
+const pollStateSchema = new Schema<PollStateDocument>(
+  {
+    trigger: { type: Schema.Types.ObjectId, ref: 'Trigger', required: true, unique: true },
+    cursor: { type: String },
+    seenRecords: {
+      type: [{ _id: false, key: { type: String, required: true }, hash: { type: String, required: true } }],
+      default: [],
+    },
+    lastPolledAt: { type: Date },
+    lockedUntil: { type: Date },
+    lockToken: { type: String },
+  },
+  { timestamps: true },
+);
+
+export const PollStateModel = model<PollStateDocument>('PollState', pollStateSchema);
@@ -0,0 +1,69 @@
+import { randomUUID } from 'crypto';
+import { PollStateModel, PollStateDocument } from './poll-state.model';
+import { logger } from '@/utils/logger';
+
+// A crashed instance's lock expires so the trigger is picked up again
+const POLL_LOCK_TTL_MS = 5 * 60_000;
+const MAX_SEEN_RECORDS = 5_000;
+
+/**
+ * Take a trigger's poll lock when its interval has passed and no other instance holds it.
+ * Returns the stored state, or `null` when this instance should skip the trigger.
+ */
+export const claimPollTick = async (triggerId: string, intervalMs: number): Promise<PollStateDocument | null> => {
+  const now = Date.now();
+  try {
+    return await PollStateModel.findOneAndUpdate(
+      {
+        trigger: triggerId,
+        lockedUntil: { $not: { $gt: new Date(now) } },
+        lastPolledAt: { $not: { $gt: new Date(now - intervalMs) } },
+      },
+      { $set: { lockedUntil: new Date(now + POLL_LOCK_TTL_MS), lockToken: randomUUID() } },
+      { upsert: true, new: true },
+    );
+  } catch (error) {
+    // The upsert collides with the existing state while it is locked or was polled too recently
+    if ((error as { code?: number }).code === 11000) {
+      return null;
+    }
+    throw error;
+  }
+};
+
+interface PollProgress {
+  cursor?: string;
+  seenRecords?: Map<string, string>;
+  /** Left out when the poll failed, so the trigger is retried on the next tick */
+  polledAt?: Date;
+}
+
+/** Save what the tick got through and release the lock. */
+export const releasePollTick = async (state: PollStateDocument, progress: PollProgress = {}): Promise<void> => {
+  const update: Record<string, unknown> = {};
+  if (progress.cursor !== undefined) {
+    update.cursor = progress.cursor;
+  }
+  if (progress.seenRecords) {
+    update.seenRecords = Array.from(progress.seenRecords, ([key, hash]) => ({ key, hash })).slice(-MAX_SEEN_RECORDS);
+  }
+  if (progress.polledAt) {
+    update.lastPolledAt = progress.polledAt;
+  }
+
+  const result = await PollStateModel.updateOne(
+    { _id: state._id, lockToken: state.lockToken },
+    { $set: update, $unset: { lockedUntil: 1, lockToken: 1 } },
+  );
+  if (result.matchedCount === 0) {
+    logger.warn({ triggerId: state.trigger.toString() }, 'Poll lock expired before the poll finished; progress not saved');
+  }
+};
+
+export const loadSeenRecords = (state: PollStateDocument): Map<string, string> =>
+  new Map((state.seenRecords ?? []).map((record) => [record.key, record.hash]));
+
+/** Move a trigger's cursor without polling, e.g. so a republished schedule does not catch up on its pause. */
+export const setPollCursor = async (triggerId: string, cursor: string): Promise<void> => {
+  await PollStateModel.updateOne({ trigger: triggerId }, { $set: { cursor } }, { upsert: true });
+};
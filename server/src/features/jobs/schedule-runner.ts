@@ -1,58 +1,227 @@
-import cron, { ScheduledTask } from 'node-cron';
+import { Job } from 'bullmq';
 import { WorkflowModel } from '@/features/workflows/workflows.model';
-import { TriggerModel } from '@/features/triggers/triggers.model';
+import { TriggerModel, TriggerDocument } from '@/features/triggers/triggers.model';
+import { recordTriggerFire } from '@/features/triggers/triggers.service';
 import { logger } from '@/utils/logger';
 import { createRun } from '@/features/runs/runs.service';
+import { pollZcashTrigger, ZCASH_POLL_INTERVAL_MS } from '@/features/zcash-execution/zcash-watcher';
+import {
+  listTriggerJobIds,
+  removeTriggerJob,
+  startTriggerWorker,
+  TriggerJobData,
+  TriggerRepeat,
+  upsertTriggerJob,
+} from '@/queues/trigger-queue';
+import { getNextFireTimes, getFireTimesBetween, scheduleConfigSchema } from '@/features/triggers/trigger-schedule';
+import { getCustomPollIntervalMs, pollCustomHttpTrigger } from './custom-poll-runner';
+import { getTwitterPollIntervalMs, pollTwitterTrigger } from './twitter-poll-runner';
+import { claimPollTick, releasePollTick, setPollCursor } from './poll-state';
 
-const workflowSchedules = new Map<string, ScheduledTask>();
+// A tick counts fire times up to this far ahead as due, in case it fires a little early
+const EARLY_TICK_TOLERANCE_MS = 5_000;
+// The latest fire time only counts as the tick's own when it is this recent; older ones were missed
+const LATE_TICK_TOLERANCE_MS = 60_000;
+const MAX_CATCH_UP_RUNS = 100;
 
-const scheduleWorkflow = async (workflowId: string, expression: string, triggerId: string) => {
-  const task = cron.schedule(expression, async () => {
-    try {
+const scheduleRepeat = (config: Record<string, unknown>): TriggerRepeat | null => {
+  const schedule = scheduleConfigSchema.parse(config);
+  const [next] = getNextFireTimes(schedule, 1);
+  if (!next) {
+    return null;
+  }
+  const endDate = schedule.endAt ? new Date(schedule.endAt) : undefined;
+  if (schedule.intervalMinutes) {
+    // Starting on the next slot keeps BullMQ's ticks on the same slots as the preview
+    return { every: schedule.intervalMinutes * 60_000, startDate: next, endDate };
+  }
+  return {
+    pattern: schedule.expression!,
+    tz: schedule.timezone,
+    startDate: schedule.startAt ? new Date(schedule.startAt) : undefined,
+    endDate,
+  };
+};
+
+/** How often a trigger's repeatable job fires; `null` for triggers fired by inbound requests. */
+const repeatFor = (trigger: TriggerDocument): TriggerRepeat | null => {
+  const config = (trigger.config ?? {}) as Record<string, unknown>;
+  switch (trigger.type) {
+    case 'schedule':
+      return scheduleRepeat(config);
+    case 'custom-http-poll':
+      return { every: getCustomPollIntervalMs(config) };
+    case 'twitter-post':
+      return { every: getTwitterPollIntervalMs(config) };
+    case 'zcash-transaction':
+      return { every: ZCASH_POLL_INTERVAL_MS };
+    default:
+      return null;
+  }
+};
+
+/**
+ * Start the runs a schedule owes since it last fired. A tick runs its own fire time; fire times
+ * missed before it, e.g. while no server was up, follow the trigger's `missedRunPolicy`.
+ */
+const runDueSchedule = async (triggerId: string, workflowId: string, mode: 'tick' | 'catch-up'): Promise<number> => {
+  const trigger = await TriggerModel.findById(triggerId).lean();
+  if (!trigger) {
+    return 0;
+  }
+  const schedule = scheduleConfigSchema.parse(trigger.config ?? {});
+  const state = await claimPollTick(triggerId, 0);
+  if (!state) {
+    return 0;
+  }
+
+  const now = new Date();
+  const until = mode === 'tick' ? new Date(now.getTime() + EARLY_TICK_TOLERANCE_MS) : now;
+  let cursor: string | undefined;
+  let runs = 0;
+
+  try {
+    // Without a cursor nothing was missed yet; a tick still owes its own fire time
+    const after = state.cursor ? new Date(state.cursor) : new Date(now.getTime() - LATE_TICK_TOLERANCE_MS);
+    const owed = state.cursor || mode === 'tick' ? getFireTimesBetween(schedule, after, until, MAX_CATCH_UP_RUNS + 1) : [];
+    const latest = owed[owed.length - 1];
+    const current =
+      mode === 'tick' && latest && now.getTime() - latest.getTime() <= LATE_TICK_TOLERANCE_MS ? owed.pop() : undefined;
+
+    const catchUp =
+      schedule.missedRunPolicy === 'run_all'
+        ? owed.slice(-MAX_CATCH_UP_RUNS)
+        : schedule.missedRunPolicy === 'run_once'
+          ? owed.slice(-1)
+          : [];
+    if (owed.length) {
+      logger.info(
+        { triggerId, workflowId, missed: owed.length, policy: schedule.missedRunPolicy },
+        'Schedule trigger missed fire times',
+      );
+    }
+
+    for (const scheduledAt of current ? [...catchUp, current] : catchUp) {
       await createRun({
         workflowId,
         triggerId,
-        payload: { scheduledAt: new Date().toISOString() },
+        payload: {
+          scheduledAt: scheduledAt.toISOString(),
+          firedAt: new Date().toISOString(),
+          catchUp: scheduledAt !== current,
+        },
       });
-    } catch (error) {
-      logger.error({ err: error, workflowId }, 'Failed to enqueue scheduled run');
+      cursor = scheduledAt.toISOString();
+      runs++;
     }
-  });
 
-  workflowSchedules.set(workflowId, task);
-  logger.info({ workflowId }, 'Scheduled workflow trigger registered');
+    cursor = until.toISOString();
+    return runs;
+  } finally {
+    await releasePollTick(state, { cursor, polledAt: cursor ? now : undefined }).catch((error) =>
+      logger.error({ err: error, triggerId }, 'Failed to save schedule state'),
+    );
+  }
+};
+
+const tickHandlers: Record<string, (data: TriggerJobData) => Promise<number>> = {
+  schedule: ({ triggerId, workflowId }) => runDueSchedule(triggerId, workflowId, 'tick'),
+  'custom-http-poll': ({ triggerId, workflowId }) => pollCustomHttpTrigger(triggerId, workflowId),
+  'twitter-post': ({ triggerId, workflowId }) => pollTwitterTrigger(triggerId, workflowId),
+  'zcash-transaction': ({ triggerId, workflowId }) => pollZcashTrigger(triggerId, workflowId),
+};
+
+const processTriggerTick = async (job: Job<TriggerJobData>): Promise<number> => {
+  const { triggerId, triggerType } = job.data;
+  const handler = tickHandlers[triggerType];
+  if (!handler) {
+    throw new Error(`No tick handler for trigger type ${triggerType}`);
+  }
+
+  try {
+    const runs = await handler(job.data);
+    await recordTriggerFire(triggerId, { status: runs > 0 ? 'fired' : 'idle', runs });
+    return runs;
+  } catch (error) {
+    const message = error instanceof Error ? error.message : String(error);
+    await recordTriggerFire(triggerId, { status: 'failed', runs: 0, error: message }).catch((recordError) =>
+      logger.error({ err: recordError, triggerId }, 'Failed to record trigger fire'),
+    );
+    throw error;
+  }
 };
 
-export const unregisterWorkflowSchedule = (workflowId: string): void => {
-  const task = workflowSchedules.get(workflowId);
-  if (task) {
-    task.stop();
-    workflowSchedules.delete(workflowId);
-    logger.info({ workflowId }, 'Scheduled workflow trigger removed');
+export const unregisterWorkflowSchedule = async (workflowId: string): Promise<void> => {
+  if (await removeTriggerJob(workflowId)) {
+    logger.info({ workflowId }, 'Workflow trigger job removed');
   }
 };
 
-export const registerWorkflowSchedule = async (workflowId: string): Promise<void> => {
+/**
+ * Add the repeatable job for a published workflow whose trigger is a schedule or a poller. With
+ * `catchUp`, a schedule first starts the runs it missed while no server was up.
+ */
+export const registerWorkflowSchedule = async (workflowId: string, options: { catchUp?: boolean } = {}): Promise<void> => {
   const workflow = await WorkflowModel.findById(workflowId);
   if (!workflow || !workflow.trigger) {
+    await unregisterWorkflowSchedule(workflowId);
     return;
   }
   const trigger = await TriggerModel.findById(workflow.trigger);
-  if (!trigger || trigger.type !== 'schedule') {
+  if (!trigger) {
+    await unregisterWorkflowSchedule(workflowId);
+    return;
+  }
+
+  try {
+    const repeat = repeatFor(trigger);
+    if (!repeat) {
+      await unregisterWorkflowSchedule(workflowId);
+      return;
+    }
+    await upsertTriggerJob({ workflowId, triggerId: trigger.id, triggerType: trigger.type }, repeat);
+    logger.info({ workflowId, triggerId: trigger.id }, 'Workflow trigger job registered');
+  } catch (error) {
+    // Schedules saved before their config was validated may hold a config BullMQ cannot use
+    logger.warn({ err: error, workflowId, triggerId: trigger.id }, 'Failed to register workflow trigger job');
+    await unregisterWorkflowSchedule(workflowId);
+    return;
+  }
+
+  if (trigger.type !== 'schedule') {
     return;
   }
-  const expression = (trigger.config as Record<string, unknown>)?.expression as string;
-  if (!expression || !cron.validate(expression)) {
-    logger.warn({ workflowId }, 'Invalid cron expression for schedule trigger');
+  if (!options.catchUp) {
+    // Fire times while the workflow was not published are not missed runs
+    await setPollCursor(trigger.id, new Date().toISOString());
     return;
   }
-  unregisterWorkflowSchedule(workflowId);
-  await scheduleWorkflow(workflowId, expression, trigger.id);
+  try {
+    const runs = await runDueSchedule(trigger.id, workflowId, 'catch-up');
+    if (runs > 0) {
+      await recordTriggerFire(trigger.id, { status: 'fired', runs });
+    }
+  } catch (error) {
+    logger.error({ err: error, workflowId, triggerId: trigger.id }, 'Failed to catch up on missed schedule runs');
+  }
 };
 
+/** Bring the repeatable jobs in line with the published workflows, e.g. after a deploy. */
 export const initializeTriggerSchedules = async (): Promise<void> => {
-  const workflows = await WorkflowModel.find({ status: 'published', trigger: { $ne: null } });
-  for (const workflow of workflows) {
-    await registerWorkflowSchedule(workflow.id);
+  const workflows = await WorkflowModel.find({ status: 'published', trigger: { $ne: null } }).select('_id').lean();
+  const publishedIds = new Set(workflows.map((workflow) => String(workflow._id)));
+
+  for (const workflowId of await listTriggerJobIds()) {
+    if (!publishedIds.has(workflowId)) {
+      await unregisterWorkflowSchedule(workflowId);
+    }
+  }
+  for (const workflowId of publishedIds) {
+    await registerWorkflowSchedule(workflowId, { catchUp: true });
   }
 };
+
+export const startTriggerRunner = (): void => {
+  startTriggerWorker(processTriggerTick);
+  logger.info('Trigger runner started');
+};
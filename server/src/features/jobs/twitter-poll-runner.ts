@@ -1,14 +1,11 @@
 import { TriggerModel } from '@/features/triggers/triggers.model';
-import { WorkflowModel } from '@/features/workflows/workflows.model';
 import { ConnectorModel } from '@/features/connectors/connectors.model';
 import { decryptConnectorConfig } from '@/features/connectors/connectors.security';
 import { createRun } from '@/features/runs/runs.service';
-import { twitterService } from '@/shared/services/twitter.service';
+import { TwitterPost, twitterService } from '@/shared/services/twitter.service';
 import { logger } from '@/utils/logger';
+import { claimPollTick, releasePollTick } from './poll-state';
 
-const lastSeenTweetId = new Map<string, string>();
-const lastPolledAt = new Map<string, number>();
-const DEFAULT_INTERVAL_MS = 60_000; // Poll every 60 seconds for Twitter
 const MIN_POLL_INTERVAL_MS = 30_000;
 
 interface TwitterTriggerConfig {
@@ -27,148 +24,130 @@ const matchesFilter = (text: string, filter?: string): boolean => {
   return keywords.some((keyword) => lowerText.includes(keyword));
 };
 
-const pollTwitterTriggers = async (): Promise<void> => {
-  const triggers = await TriggerModel.find({ type: 'twitter-post', status: 'active' }).lean();
+// Tweet ids grow over time; the API lists newest first
+const oldestFirst = (posts: TwitterPost[]): TwitterPost[] =>
+  [...posts].sort((a, b) => (BigInt(a.id) < BigInt(b.id) ? -1 : BigInt(a.id) > BigInt(b.id) ? 1 : 0));
 
-  for (const trigger of triggers) {
-    if (!trigger.connector) {
-      logger.warn({ triggerId: trigger._id }, 'Twitter trigger missing connector');
-      continue;
-    }
-
-    const connector = await ConnectorModel.findById(trigger.connector).lean();
-    if (!connector) {
-      continue;
-    }
-
-    const workflow = await WorkflowModel.findOne({ trigger: trigger._id, status: 'published' }).lean();
-    if (!workflow) {
-      continue;
-    }
-
-    const now = Date.now();
-    const triggerConfig = trigger.config as TwitterTriggerConfig;
-    const pollIntervalSec = triggerConfig.pollIntervalSec || 60;
-    const interval = Math.max(pollIntervalSec * 1000, MIN_POLL_INTERVAL_MS);
-    const last = lastPolledAt.get(trigger._id.toString()) ?? 0;
-
-    if (now - last < interval) {
-      continue;
-    }
-
-    const connectorConfig = decryptConnectorConfig(
-      connector.type,
-      connector.config as Record<string, unknown>,
-    ) as { bearerToken?: string; handle?: string };
+/** How often a Twitter trigger is polled. */
+export const getTwitterPollIntervalMs = (config: Record<string, unknown>): number => {
+  const pollIntervalSec = (config as TwitterTriggerConfig).pollIntervalSec || 60;
+  return Math.max(pollIntervalSec * 1000, MIN_POLL_INTERVAL_MS);
+};
 
-    const bearerToken = connectorConfig.bearerToken;
-    if (!bearerToken) {
-      logger.warn({ connectorId: connector._id }, 'Twitter connector missing bearerToken');
-      continue;
-    }
+/** Fetch one trigger's new posts and mentions and start a run for each. Returns the number of runs. */
+export const pollTwitterTrigger = async (triggerId: string, workflowId: string): Promise<number> => {
+  const trigger = await TriggerModel.findById(triggerId).lean();
+  if (!trigger || trigger.status !== 'active') {
+    return 0;
+  }
+  if (!trigger.connector) {
+    throw new Error('Twitter trigger missing connector');
+  }
 
-    const handleToMonitor = triggerConfig.handle || connectorConfig.handle;
-    if (!handleToMonitor) {
-      logger.warn({ triggerId: trigger._id }, 'Twitter trigger missing handle');
-      continue;
-    }
+  const connector = await ConnectorModel.findById(trigger.connector).lean();
+  if (!connector) {
+    throw new Error('Twitter connector not found');
+  }
 
-    const eventType = triggerConfig.eventType || 'all';
-    const filter = triggerConfig.filter;
-    const triggerId = trigger._id.toString();
-    const lastSeenId = lastSeenTweetId.get(triggerId);
+  const triggerConfig = trigger.config as TwitterTriggerConfig;
+  const interval = getTwitterPollIntervalMs(trigger.config as Record<string, unknown>);
 
-    try {
-      let triggeredCount = 0;
+  const connectorConfig = decryptConnectorConfig(
+    connector.type,
+    connector.config as Record<string, unknown>,
+  ) as { bearerToken?: string; handle?: string };
 
-      // Fetch posts (timeline)
-      if (eventType === 'posts' || eventType === 'all') {
-        const { posts, newestId } = await twitterService.getUserTimeline(handleToMonitor, bearerToken, {
-          sinceId: lastSeenId,
-          maxResults: 10,
-        });
+  const bearerToken = connectorConfig.bearerToken;
+  if (!bearerToken) {
+    throw new Error('Twitter connector missing bearerToken');
+  }
 
-        for (const post of posts) {
-          if (filter && !matchesFilter(post.text, filter)) {
-            continue;
-          }
+  const handleToMonitor = triggerConfig.handle || connectorConfig.handle;
+  if (!handleToMonitor) {
+    throw new Error('Twitter trigger missing handle');
+  }
 
+  const eventType = triggerConfig.eventType || 'all';
+  const filter = triggerConfig.filter;
+  // Ticks arrive once per interval; the half-interval guard only drops duplicates, e.g. after a republish
+  const state = await claimPollTick(triggerId, interval / 2);
+  if (!state) {
+    return 0;
+  }
+  const lastSeenId = state.cursor;
+  let nextCursor: string | undefined;
+  let polledAt: Date | undefined;
+
+  try {
+    let triggeredCount = 0;
+
+    // Fetch posts (timeline)
+    if (eventType === 'posts' || eventType === 'all') {
+      const { posts, newestId } = await twitterService.getUserTimeline(handleToMonitor, bearerToken, {
+        sinceId: lastSeenId,
+        maxResults: 10,
+      });
+
+      for (const post of oldestFirst(posts)) {
+        if (!filter || matchesFilter(post.text, filter)) {
           await createRun({
-            workflowId: workflow._id.toString(),
-            triggerId: trigger._id.toString(),
+            workflowId,
+            triggerId,
             payload: {
               eventType: 'post',
               post,
             },
           });
-
           triggeredCount++;
         }
-
-        if (newestId) {
-          lastSeenTweetId.set(triggerId, newestId);
-        }
+        // Advancing per post means a failed run only replays the posts after it
+        nextCursor = post.id;
       }
 
-      // Fetch mentions
-      if (eventType === 'mentions' || eventType === 'all') {
-        const { posts, newestId } = await twitterService.getUserMentions(handleToMonitor, bearerToken, {
-          sinceId: lastSeenId,
-          maxResults: 10,
-        });
+      if (newestId) {
+        nextCursor = newestId;
+      }
+    }
 
-        for (const post of posts) {
-          if (filter && !matchesFilter(post.text, filter)) {
-            continue;
-          }
+    // Fetch mentions
+    if (eventType === 'mentions' || eventType === 'all') {
+      const { posts, newestId } = await twitterService.getUserMentions(handleToMonitor, bearerToken, {
+        sinceId: lastSeenId,
+        maxResults: 10,
+      });
 
+      for (const post of oldestFirst(posts)) {
+        if (!filter || matchesFilter(post.text, filter)) {
           await createRun({
-            workflowId: workflow._id.toString(),
-            triggerId: trigger._id.toString(),
+            workflowId,
+            triggerId,
             payload: {
               eventType: 'mention',
               post,
             },
           });
-
           triggeredCount++;
         }
-
-        if (newestId && eventType === 'mentions') {
-          // Only update if we're ONLY fetching mentions (posts have priority when eventType is 'all')
-          lastSeenTweetId.set(triggerId, newestId);
+        if (eventType === 'mentions') {
+          nextCursor = post.id;
         }
       }
 
-      lastPolledAt.set(triggerId, now);
-
-      if (triggeredCount > 0) {
-        logger.info(
-          { triggerId: trigger._id, handle: handleToMonitor, count: triggeredCount },
-          'Twitter trigger fired workflows',
-        );
+      if (newestId && eventType === 'mentions') {
+        // Only update if we're ONLY fetching mentions (posts have priority when eventType is 'all')
+        nextCursor = newestId;
       }
-    } catch (error: any) {
-      logger.error({ err: error, triggerId: trigger._id, handle: handleToMonitor }, 'Twitter poll failed');
     }
-  }
-};
 
-let intervalHandle: NodeJS.Timeout | null = null;
+    polledAt = new Date();
 
-export const startTwitterPollRunner = (): void => {
-  if (intervalHandle) {
-    return;
-  }
-  intervalHandle = setInterval(() => {
-    pollTwitterTriggers().catch((error) => logger.error({ err: error }, 'Twitter poll runner error'));
-  }, DEFAULT_INTERVAL_MS);
-  logger.info('Twitter poll runner started');
-};
-
-export const stopTwitterPollRunner = (): void => {
-  if (intervalHandle) {
-    clearInterval(intervalHandle);
-    intervalHandle = null;
+    if (triggeredCount > 0) {
+      logger.info({ triggerId, handle: handleToMonitor, count: triggeredCount }, 'Twitter trigger fired workflows');
+    }
+    return triggeredCount;
+  } finally {
+    await releasePollTick(state, { cursor: nextCursor, polledAt }).catch((error) =>
+      logger.error({ err: error, triggerId }, 'Failed to save Twitter poll state'),
+    );
   }
 };
@@ -2,6 +2,8 @@ import axios from 'axios';
 import { createHash } from 'crypto';
 import { envConfig } from '@/config/env';
 import { logger } from '@/utils/logger';
+import { nilaiInferenceSeconds, nilaiRetriesTotal } from '@/utils/metrics';
+import type { RunLogger } from '@/features/runs/runs.logger';
 
 type NilAIModel = string;
 type NilaiModule = {
@@ -142,26 +144,34 @@ class NilAIService {
     }
   }
 
-  async runInference(prompt: string, model?: NilAIModel): Promise<NilAIResult> {
+  async runInference(
+    prompt: string,
+    model?: NilAIModel,
+    options: { signal?: AbortSignal; log?: RunLogger } = {},
+  ): Promise<NilAIResult> {
     const selectedModel = model || this.defaultModel;
+    const { log } = options;
     let attempt = 0;
     let lastError: any;
 
     while (attempt < this.maxInferenceAttempts) {
       attempt += 1;
+      const endTimer = nilaiInferenceSeconds.startTimer({ model: selectedModel });
       try {
+        log?.info('Sending NilAI inference request', { model: selectedModel, attempt });
         const client = await this.ensureClient();
         const rawResponse: any = await client.chat.completions.create({
           model: selectedModel,
           messages: [{ role: 'user', content: prompt }],
           max_tokens: 2048,
           temperature: 0.7,
-        });
+        }, { signal: options.signal });
 
         const content = this.normalizeContent(rawResponse?.choices?.[0]?.message?.content);
         if (!content) {
           throw new Error('No response content from NilAI');
         }
+        endTimer({ status: 'success' });
 
         const signature =
           rawResponse?.signature ??
@@ -182,19 +192,32 @@ class NilAIService {
           result: content,
         };
       } catch (error: any) {
+        endTimer({ status: 'failed' });
         if (error?.response?.status === 401 || error?.response?.status === 403) {
+          log?.error('NilAI authentication failed', { status: error.response.status });
           throw new Error('NilAI authentication failed. Check your API key.');
         }
 
+        if (options.signal?.aborted) {
+          throw options.signal.reason;
+        }
+
         lastError = error;
         if (this.isTransientNilaiError(error) && attempt < this.maxInferenceAttempts) {
           logger.warn({ err: error, attempt }, 'NilAI inference transient failure, retrying');
+          log?.warn('NilAI inference failed with a transient error, retrying', {
+            attempt,
+            maxAttempts: this.maxInferenceAttempts,
+            error: error?.message,
+          });
+          nilaiRetriesTotal.inc({ model: selectedModel });
           this.resetNilaiClient();
           await this.delay(attempt * 500);
           continue;
         }
 
         logger.error({ err: error, response: error?.response?.data }, 'NilAI inference failed');
+        log?.error('NilAI inference failed', { attempt, error: error?.message });
         throw new Error(`NilAI inference failed: ${error?.message ?? 'unknown error'}`);
       }
     }
@@ -1,9 +1,11 @@
 import axios from 'axios';
 import { NillionWorkloadModel } from './nillion-compute.model';
 import { nillionCodeGeneratorService, NillionBlockGraph } from './nillion-code-generator.service';
-import { dockerComposeGeneratorService } from './docker-compose-generator.service';
 import { nilccService } from './nilcc.service';
 import { logger } from '@/utils/logger';
+import { nilccProvisioningSeconds } from '@/utils/metrics';
+import { withSpan } from '@/utils/tracing';
+import type { RunLogger } from '@/features/runs/runs.logger';
 import { envConfig } from '@/config/env';
 
 interface NilCCInvocationResult {
@@ -12,6 +14,17 @@ interface NilCCInvocationResult {
   result: any;
 }
 
+interface NilCCCallOptions {
+  /** Aborts polling and in-flight requests; a created workload is still deleted */
+  signal?: AbortSignal;
+  /** Receives workload log lines not reported before, while the output is polled */
+  onLogs?: (workloadId: string, lines: string[]) => void;
+  /** Run log that receives workload progress and container output */
+  log?: RunLogger;
+}
+
+const LOG_FORWARD_EVERY_POLLS = 5;
+
 interface NilCCBlockGraphResult {
   output: any;
   attestation?: Record<string, unknown>;
@@ -23,6 +36,7 @@ class NilCCExecutionService {
     workloadId: string,
     payload: Record<string, unknown>,
     relativePath: string = '/',
+    options: NilCCCallOptions = {},
   ): Promise<NilCCInvocationResult> {
     logger.debug({ workloadId, relativePath }, '[NilCC] Executing workload');
 
@@ -36,9 +50,11 @@ class NilCCExecutionService {
     const url = new URL(relativePath || '/', rec.publicUrl).toString();
 
     logger.debug({ workloadId, url }, '[NilCC] Sending request to workload');
-    const { data } = await axios.post(url, payload, { timeout: 30000 });
+    options.log?.info('Calling nilCC workload', { workloadId, relativePath });
+    const { data } = await axios.post(url, payload, { timeout: 30000, signal: options.signal });
 
     logger.info({ workloadId }, '[NilCC] Workload execution completed');
+    options.log?.info('nilCC workload responded', { workloadId });
     return {
       response: data,
       attestation,
@@ -50,9 +66,11 @@ class NilCCExecutionService {
     graph: NillionBlockGraph,
     inputs: Record<string, any>,
     workflowRunId: string,
+    options: NilCCCallOptions = {},
   ): Promise<NilCCBlockGraphResult> {
+    const { signal, log } = options;
     let createdWorkloadId: string | null = null;
-    let createdWorkloadUrl: string | undefined;
+    let endProvisioning: ((labels: { outcome: string }) => number) | undefined;
     const startTime = Date.now();
     try {
       logger.info({ workflowRunId, nodeCount: graph.nodes.length, inputKeys: Object.keys(inputs) }, '[NilCC] Starting block graph execution');
@@ -87,35 +105,57 @@ class NilCCExecutionService {
       logger.debug({ workflowRunId, tier: tier.id, cpus: tier.cpus, memory: tier.memory }, '[NilCC] Selected workload tier');
 
       logger.info({ workflowRunId, workloadName }, '[NilCC] Creating workload');
-      const workloadResult = await nilccService.createWorkload({
-        name: workloadName,
-        dockerCompose: composeYaml,
-        publicContainerName: 'compute',
-        publicContainerPort: 3000,
-        cpus: tier.cpus,
-        memory: tier.memory,
-        disk: tier.disk,
-        gpus: tier.gpus,
-        artifactsVersion: artifactsVersion,
-        files,
-      });
+      log?.info('Creating nilCC workload', { nodeCount: graph.nodes.length, tier: tier.id });
+      endProvisioning = nilccProvisioningSeconds.startTimer();
+      const workloadResult = await withSpan('nilcc.workload.create', { attributes: { 'nilcc.tier': tier.id } }, (span) =>
+        nilccService
+          .createWorkload({
+            name: workloadName,
+            dockerCompose: composeYaml,
+            publicContainerName: 'compute',
+            publicContainerPort: 3000,
+            cpus: tier.cpus,
+            memory: tier.memory,
+            disk: tier.disk,
+            gpus: tier.gpus,
+            artifactsVersion: artifactsVersion,
+            files,
+          })
+          .then((workload) => {
+            span.setAttribute('nilcc.workload.id', workload.id);
+            return workload;
+          }),
+      );
 
       createdWorkloadId = workloadResult.id;
-      createdWorkloadUrl = workloadResult.publicUrl;
+      signal?.throwIfAborted();
 
       logger.info({ workflowRunId, workloadId: workloadResult.id, publicUrl: workloadResult.publicUrl }, '[NilCC] Workload created successfully');
+      log?.info('nilCC workload created, waiting for the container', { workloadId: workloadResult.id });
 
       logger.info({ workflowRunId, workloadId: workloadResult.id }, '[NilCC] Waiting for container to become ready');
-      await this.waitForContainerReady(workloadResult.id, workloadResult.publicUrl);
+      const workloadAttributes = { attributes: { 'nilcc.workload.id': workloadResult.id } };
+      const readiness = await withSpan('nilcc.workload.ready', workloadAttributes, async (span) => {
+        const outcome = await this.waitForContainerReady(workloadResult.id, workloadResult.publicUrl, signal);
+        span.setAttribute('nilcc.readiness', outcome);
+        return outcome;
+      });
+      endProvisioning({ outcome: readiness });
+      endProvisioning = undefined;
 
       logger.info({ workflowRunId, workloadId: workloadResult.id }, '[NilCC] Polling for execution output');
-      const output = await this.pollForOutput(workloadResult.id, workloadResult.publicUrl, workflowRunId);
+      const output = await withSpan('nilcc.workload.output', workloadAttributes, () =>
+        this.pollForOutput(workloadResult.id, workloadResult.publicUrl, workflowRunId, options),
+      );
 
       logger.info({ workflowRunId, workloadId: workloadResult.id }, '[NilCC] Fetching attestation report');
-      const attestation = await nilccService.getAttestationReport(workloadResult.publicUrl);
+      const attestation = await withSpan('nilcc.workload.attestation', workloadAttributes, () =>
+        nilccService.getAttestationReport(workloadResult.publicUrl),
+      );
 
       const duration = Date.now() - startTime;
       logger.info({ workflowRunId, workloadId: workloadResult.id, durationMs: duration }, '[NilCC] Block graph execution completed successfully');
+      log?.info('nilCC output received', { workloadId: workloadResult.id, durationMs: duration });
       return {
         output,
         attestation,
@@ -123,13 +163,24 @@ class NilCCExecutionService {
       };
     } catch (error: any) {
       const duration = Date.now() - startTime;
+      endProvisioning?.({ outcome: signal?.aborted ? 'aborted' : 'failed' });
+      if (signal?.aborted) {
+        logger.info({ workflowRunId, durationMs: duration }, '[NilCC] Block graph execution aborted');
+        log?.warn('nilCC execution aborted', { workloadId: createdWorkloadId, durationMs: duration });
+        throw signal.reason;
+      }
       logger.error({ err: error, workflowRunId, durationMs: duration }, '[NilCC] Block graph execution failed');
+      log?.error('nilCC execution failed', { workloadId: createdWorkloadId, durationMs: duration, error: error.message });
       throw new Error(`Nillion block graph execution failed: ${error.message}`);
     } finally {
       if (createdWorkloadId) {
         logger.debug({ workflowRunId, workloadId: createdWorkloadId }, '[NilCC] Cleaning up workload');
-        await nilccService.deleteWorkload(createdWorkloadId);
+        const workloadId = createdWorkloadId;
+        await withSpan('nilcc.workload.delete', { attributes: { 'nilcc.workload.id': workloadId } }, () =>
+          nilccService.deleteWorkload(workloadId),
+        );
         logger.info({ workloadId: createdWorkloadId }, '[NilCC] Workload deleted');
+        log?.debug('nilCC workload deleted', { workloadId: createdWorkloadId });
       }
     }
   }
@@ -146,10 +197,14 @@ class NilCCExecutionService {
 `;
   }
 
-  private async waitForContainerReady(workloadId: string, publicUrl: string | undefined): Promise<void> {
+  private async waitForContainerReady(
+    workloadId: string,
+    publicUrl: string | undefined,
+    signal?: AbortSignal,
+  ): Promise<'ready' | 'timed_out' | 'unchecked'> {
     if (!publicUrl) {
       logger.warn({ workloadId }, '[NilCC] No public URL, skipping container ready check');
-      return;
+      return 'unchecked';
     }
 
     const healthUrl = `${publicUrl}/health`;
@@ -157,9 +212,11 @@ class NilCCExecutionService {
     const waitIntervalMs = 2000;
 
     for (let attempt = 1; attempt <= maxWaitAttempts; attempt++) {
+      signal?.throwIfAborted();
       try {
         const response = await axios.get(`${healthUrl}?_t=${Date.now()}`, {
           timeout: 5000,
+          signal,
           validateStatus: () => true,
           headers: {
             'Cache-Control': 'no-cache, no-store',
@@ -169,21 +226,50 @@ class NilCCExecutionService {
 
         if (response.status === 200) {
           logger.info({ workloadId, attempt }, '[NilCC] Container ready');
-          return;
+          return 'ready';
         }
 
         logger.debug({ workloadId, attempt, status: response.status }, '[NilCC] Container not ready, retrying');
       } catch (error: any) {
+        signal?.throwIfAborted();
         logger.debug({ workloadId, attempt, error: error.message }, '[NilCC] Health check failed, retrying');
       }
 
-      await this.sleep(waitIntervalMs);
+      await this.sleep(waitIntervalMs, signal);
     }
 
     logger.warn({ workloadId, maxWaitAttempts }, '[NilCC] Container readiness check timed out, proceeding anyway');
+    return 'timed_out';
   }
 
-  private async pollForOutput(workloadId: string, publicUrl: string | undefined, workflowRunId: string): Promise<any> {
+  private async pollForOutput(
+    workloadId: string,
+    publicUrl: string | undefined,
+    workflowRunId: string,
+    options: NilCCCallOptions = {},
+  ): Promise<any> {
+    const { signal, onLogs, log } = options;
+    let forwardedLines = 0;
+    const reportLines = (lines: string[]) => {
+      if (!lines.length) return;
+      onLogs?.(workloadId, lines);
+      for (const line of lines) {
+        log?.info(line, { workloadId, stream: 'container' });
+      }
+    };
+    const forwardLogs = async () => {
+      if (!onLogs && !log) return;
+      try {
+        const lines = this.formatLogs(await nilccService.getLogs(workloadId, { tail: false }));
+        // Logs are fetched whole; a shorter answer means the log restarted
+        const fresh = lines.length >= forwardedLines ? lines.slice(forwardedLines) : lines;
+        forwardedLines = lines.length;
+        reportLines(fresh);
+      } catch (error) {
+        logger.debug({ workloadId, error: (error as Error).message }, '[NilCC] Could not forward workload logs');
+      }
+    };
+
     if (!publicUrl) {
       logger.error({ workloadId, workflowRunId }, '[NilCC] No public URL for polling');
       throw new Error('No public URL available for workload');
@@ -202,6 +288,9 @@ class NilCCExecutionService {
       const earlyLogs = await nilccService.getLogs(workloadId, { tail: false });
       if (earlyLogs) {
         logger.info({ workloadId, logs: JSON.stringify(earlyLogs).slice(0, 2000) }, '[NilCC] Container startup logs');
+        const lines = this.formatLogs(earlyLogs);
+        forwardedLines = lines.length;
+        reportLines(lines);
       }
     } catch (logErr) {
       logger.warn({ workloadId, error: (logErr as Error).message }, '[NilCC] Could not fetch early container logs');
@@ -210,11 +299,12 @@ class NilCCExecutionService {
     let attempt = 1;
     while (unlimitedPolling || attempt <= maxAttempts) {
       try {
-        await this.sleep(pollIntervalMs);
+        await this.sleep(pollIntervalMs, signal);
         
         const outputUrl = `${baseOutputUrl}?_t=${Date.now()}`;
         const response = await axios.get(outputUrl, {
           timeout: 10000,
+          signal,
           validateStatus: () => true,
           headers: {
             'Cache-Control': 'no-cache, no-store, must-revalidate',
@@ -226,8 +316,12 @@ class NilCCExecutionService {
         if (attempt === 1 || attempt % 10 === 0) {
           logger.info({ workloadId, attempt, status: response.status }, '[NilCC] Poll attempt');
         }
+        if (attempt % LOG_FORWARD_EVERY_POLLS === 0) {
+          await forwardLogs();
+        }
 
         if (response.status === 500) {
+          await forwardLogs();
           const errorBody = typeof response.data === 'object' ? JSON.stringify(response.data) : response.data;
           logger.error({ workloadId, attempt, errorBody }, '[NilCC] Workflow returned error 500');
           throw new Error(`Workflow execution failed: ${errorBody}`);
@@ -244,6 +338,7 @@ class NilCCExecutionService {
           }
           if (data && typeof data === 'object' && Object.keys(data).length > 0) {
             logger.info({ workloadId, attempt }, '[NilCC] Output received');
+            await forwardLogs();
             return data;
           }
         }
@@ -259,6 +354,7 @@ class NilCCExecutionService {
         logger.info({ workloadId, attempt, status: response.status }, '[NilCC] Unexpected status, retrying');
         attempt += 1;
       } catch (error: any) {
+        signal?.throwIfAborted();
         const isLastAttempt = !unlimitedPolling && attempt === maxAttempts;
         if (isLastAttempt) {
           logger.error({ err: error, workloadId, attempt }, '[NilCC] Failed to retrieve output after max attempts');
@@ -285,8 +381,22 @@ class NilCCExecutionService {
     throw new Error('Failed to retrieve output');
   }
 
-  private sleep(ms: number): Promise<void> {
-    return new Promise((resolve) => setTimeout(resolve, ms));
+  private sleep(ms: number, signal?: AbortSignal): Promise<void> {
+    return new Promise((resolve, reject) => {
+      if (signal?.aborted) {
+        reject(signal.reason);
+        return;
+      }
+      const onAbort = () => {
+        clearTimeout(timer);
+        reject(signal?.reason);
+      };
+      const timer = setTimeout(() => {
+        signal?.removeEventListener('abort', onAbort);
+        resolve();
+      }, ms);
+      signal?.addEventListener('abort', onAbort, { once: true });
+    });
   }
 
   private formatLogs(logData: unknown): string[] {
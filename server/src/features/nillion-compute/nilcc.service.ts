@@ -1,6 +1,7 @@
 import axios, { AxiosInstance } from 'axios';
 import { envConfig } from '@/config/env';
 import { logger } from '@/utils/logger';
+import { instrumentAxios } from '@/utils/tracing';
 
 type CreateWorkloadInput = {
   name: string;
@@ -46,6 +47,7 @@ class NilCCService {
       },
       timeout: 30000,
     });
+    instrumentAxios(this.client);
 
     logger.info('NilCC client initialized');
   }
@@ -1,5 +1,6 @@
 import { envConfig } from '@/config/env';
 import { logger } from '@/utils/logger';
+import { nildbFailuresTotal } from '@/utils/metrics';
 
 class NilDBService {
   private builderPromise?: Promise<any>;
@@ -232,6 +233,7 @@ class NilDBService {
       this.registeredCollections.add(collectionId);
     } catch (error) {
       logger.error({ err: error, collectionId }, 'Failed to ensure collection');
+      nildbFailuresTotal.inc({ operation: 'ensureCollection' });
       throw error;
     }
   }
@@ -265,6 +267,7 @@ class NilDBService {
       return true;
     } catch (error) {
       logger.error({ err: error, collectionId }, 'Failed to create collection with schema');
+      nildbFailuresTotal.inc({ operation: 'createCollection' });
       throw error;
     }
   }
@@ -284,6 +287,7 @@ class NilDBService {
       return null;
     } catch (error) {
       logger.error({ err: error, collectionId }, 'Failed to get collection schema');
+      nildbFailuresTotal.inc({ operation: 'getCollectionSchema' });
       return null;
     }
   }
@@ -427,6 +431,7 @@ class NilDBService {
       return { key, collectionId };
     } catch (error) {
       logger.error({ err: error, collectionId, key }, 'NilDB putDocument failed');
+      nildbFailuresTotal.inc({ operation: 'putDocument' });
       throw error;
     }
   }
@@ -464,6 +469,7 @@ class NilDBService {
       return { key, collectionId };
     } catch (error) {
       logger.error({ err: error, collectionId, key }, 'NilDB putDocumentRaw failed');
+      nildbFailuresTotal.inc({ operation: 'putDocumentRaw' });
       throw error;
     }
   }
@@ -547,6 +553,7 @@ class NilDBService {
       return item ? (item as T) : null;
     } catch (error) {
       logger.error({ err: error, collectionId, key }, 'NilDB getDocument failed');
+      nildbFailuresTotal.inc({ operation: 'getDocument' });
       throw error;
     }
   }
@@ -559,6 +566,7 @@ class NilDBService {
       logger.info({ collectionId, key }, 'NilDB document deleted');
     } catch (error) {
       logger.error({ err: error, collectionId, key }, 'NilDB deleteDocument failed');
+      nildbFailuresTotal.inc({ operation: 'deleteDocument' });
       throw error;
     }
   }
@@ -603,6 +611,7 @@ class NilDBService {
           await new Promise(resolve => setTimeout(resolve, 1000 * attempt));
           continue;
         }
+        nildbFailuresTotal.inc({ operation: 'storeEncryptedShares' });
         throw error;
       }
     }
@@ -21,7 +21,7 @@ export interface NillionBlockGraph {
 }
 
 class NillionCodeGeneratorService {
-  generateNodeJsCode(graph: NillionBlockGraph, workflowInputs: Record<string, any>): string {
+  generateNodeJsCode(graph: NillionBlockGraph, _workflowInputs: Record<string, any>): string {
     const executionOrder = this.topologicalSort(graph);
     const codeLines: string[] = [];
 
@@ -1,9 +1,19 @@
 import { Response } from 'express';
 import { AuthenticatedRequest } from '@/shared/middlewares/auth.middleware';
 import { HttpStatus } from '@/utils/http-status';
-import { getOrganizationById } from './organizations.service';
+import { getOrganizationById, updateOrganizationSettings } from './organizations.service';
+import { OrganizationDocument } from './organizations.model';
+import { envConfig } from '@/config/env';
 import { findUserById } from '@/features/auth/auth.service';
 
+const serializeOrganization = (organization: OrganizationDocument) => ({
+  id: organization.id,
+  name: organization.name,
+  slug: organization.slug,
+  owner: organization.owner?.toString() ?? null,
+  maxConcurrentRuns: organization.maxConcurrentRuns ?? envConfig.RUN_ORG_CONCURRENCY,
+});
+
 export const getOrganization = async (req: AuthenticatedRequest, res: Response): Promise<void> => {
   if (!req.user) {
     res.status(HttpStatus.UNAUTHORIZED).json({ message: 'Unauthorized' });
@@ -22,12 +32,23 @@ export const getOrganization = async (req: AuthenticatedRequest, res: Response):
     return;
   }
 
-  res.json({
-    organization: {
-      id: organization.id,
-      name: organization.name,
-      slug: organization.slug,
-      owner: organization.owner?.toString() ?? null,
-    },
+  res.json({ organization: serializeOrganization(organization) });
+};
+
+export const updateOrganization = async (req: AuthenticatedRequest, res: Response): Promise<void> => {
+  if (!req.user) {
+    res.status(HttpStatus.UNAUTHORIZED).json({ message: 'Unauthorized' });
+    return;
+  }
+
+  const user = await findUserById(req.user.id);
+  if (!user) {
+    res.status(HttpStatus.NOT_FOUND).json({ message: 'User not found' });
+    return;
+  }
+
+  const organization = await updateOrganizationSettings(user.organization.toString(), {
+    maxConcurrentRuns: req.body.maxConcurrentRuns,
   });
+  res.json({ organization: serializeOrganization(organization) });
 };
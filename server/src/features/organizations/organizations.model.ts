@@ -8,6 +8,8 @@ export interface OrganizationDocument extends Document {
   owner?: Schema.Types.ObjectId;
   credits: number;
   totalCreditsUsed: number;
+  /** Runs of the organization allowed to execute at once; falls back to RUN_ORG_CONCURRENCY */
+  maxConcurrentRuns?: number;
   createdAt: Date;
   updatedAt: Date;
 }
@@ -19,6 +21,7 @@ const organizationSchema = new Schema<OrganizationDocument>(
     owner: { type: Schema.Types.ObjectId, ref: 'User' },
     credits: { type: Number, default: DEFAULT_FREE_CREDITS, min: 0 },
     totalCreditsUsed: { type: Number, default: 0, min: 0 },
+    maxConcurrentRuns: { type: Number, min: 1 },
   },
   { timestamps: true },
 );
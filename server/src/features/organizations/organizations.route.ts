@@ -1,9 +1,12 @@
 import { Router } from 'express';
 import { authenticate } from '@/shared/middlewares/auth.middleware';
-import { getOrganization } from './organizations.controller';
+import { validate } from '@/shared/middlewares/validation.middleware';
+import { getOrganization, updateOrganization } from './organizations.controller';
+import { updateOrganizationSchema } from './organizations.schema';
 
 const router = Router();
 
 router.get('/current', authenticate, getOrganization);
+router.patch('/current', authenticate, validate(updateOrganizationSchema), updateOrganization);
 
 export default router;
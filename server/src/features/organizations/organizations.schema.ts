@@ -3,3 +3,9 @@ import { z } from 'zod';
 export const organizationIdSchema = z.object({
   params: z.object({ organizationId: z.string().min(1) }),
 });
+
+export const updateOrganizationSchema = z.object({
+  body: z.object({
+    maxConcurrentRuns: z.number().int().min(1).nullable().optional(),
+  }),
+});
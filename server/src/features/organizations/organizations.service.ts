@@ -19,3 +19,18 @@ export const assignOwner = async (organizationId: string, ownerId: string): Prom
 export const getOrganizationById = (id: string): Promise<OrganizationDocument | null> => {
   return OrganizationModel.findById(id);
 };
+
+export const updateOrganizationSettings = async (
+  id: string,
+  input: { maxConcurrentRuns?: number | null },
+): Promise<OrganizationDocument> => {
+  const organization = await OrganizationModel.findById(id);
+  if (!organization) {
+    throw new AppError('Organization not found', HttpStatus.NOT_FOUND);
+  }
+  if (input.maxConcurrentRuns !== undefined) {
+    organization.maxConcurrentRuns = input.maxConcurrentRuns ?? undefined;
+  }
+  await organization.save();
+  return organization;
+};
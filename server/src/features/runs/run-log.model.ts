@@ -0,0 +1,33 @@
+import { Schema, model, Document } from 'mongoose';
+import { envConfig } from '@/config/env';
+import { RunLogLevel, RunLogSource } from './runs.types';
+
+export interface RunLogDocument extends Document {
+  run: Schema.Types.ObjectId;
+  level: RunLogLevel;
+  source: RunLogSource;
+  nodeId?: string;
+  message: string;
+  data?: Record<string, unknown>;
+  createdAt: Date;
+}
+
+const runLogSchema = new Schema<RunLogDocument>(
+  {
+    run: { type: Schema.Types.ObjectId, ref: 'Run', required: true },
+    level: { type: String, enum: ['debug', 'info', 'warn', 'error'], required: true },
+    source: { type: String, enum: ['engine', 'nilcc', 'nilai', 'zcash'], required: true },
+    nodeId: { type: String },
+    message: { type: String, required: true },
+    data: { type: Schema.Types.Mixed },
+  },
+  { timestamps: { createdAt: true, updatedAt: false } },
+);
+
+// Entries are read in write order; ObjectIds sort by creation
+runLogSchema.index({ run: 1, _id: 1 });
+if (envConfig.RUN_LOG_RETENTION_DAYS > 0) {
+  runLogSchema.index({ createdAt: 1 }, { expireAfterSeconds: envConfig.RUN_LOG_RETENTION_DAYS * 24 * 60 * 60 });
+}
+
+export const RunLogModel = model<RunLogDocument>('RunLog', runLogSchema);
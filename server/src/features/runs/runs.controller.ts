@@ -1,9 +1,50 @@
 import { Response } from 'express';
+import { Types } from 'mongoose';
 import { AuthenticatedRequest } from '@/shared/middlewares/auth.middleware';
 import { HttpStatus } from '@/utils/http-status';
 import { findUserById } from '@/features/auth/auth.service';
 import { WorkflowModel } from '@/features/workflows/workflows.model';
-import { createRun, listRuns } from './runs.service';
+import { RunModel } from './runs.model';
+import { createRun, listRuns, resumeRun, cancelRun, decodeRunCursor, replayRuns, listRunLogs } from './runs.service';
+import { PublishedRunEvent, subscribeRunEvents } from './runs.events';
+import { RunLogLevel, RunStatus } from './runs.types';
+import { getRunQueueStats } from '@/queues/run-queue';
+import { closeDeadLetter } from '@/features/dead-letters/dead-letters.service';
+
+const TERMINAL_STATUSES: RunStatus[] = ['succeeded', 'failed', 'cancelled', 'timed_out'];
+const EVENT_HEARTBEAT_MS = 15000;
+const DEFAULT_RUNS_PAGE_SIZE = 50;
+const DEFAULT_LOG_TAIL = 200;
+const LOG_FOLLOW_POLL_MS = 1000;
+
+/** Start a Server-Sent Events response that keeps itself alive until either side closes it. */
+const openEventStream = (req: AuthenticatedRequest, res: Response, onClose: () => void) => {
+  res.status(HttpStatus.OK);
+  res.setHeader('Content-Type', 'text/event-stream');
+  res.setHeader('Cache-Control', 'no-cache');
+  res.setHeader('Connection', 'keep-alive');
+  res.setHeader('X-Accel-Buffering', 'no');
+  res.flushHeaders();
+
+  const heartbeat = setInterval(() => res.write(': heartbeat\n\n'), EVENT_HEARTBEAT_MS);
+  const stream = {
+    closed: false,
+    send: (type: string, data: unknown) => {
+      if (!stream.closed) {
+        res.write(`event: ${type}\ndata: ${JSON.stringify(data)}\n\n`);
+      }
+    },
+    close: () => {
+      if (stream.closed) return;
+      stream.closed = true;
+      clearInterval(heartbeat);
+      onClose();
+      res.end();
+    },
+  };
+  req.on('close', stream.close);
+  return stream;
+};
 
 export const createRunHandler = async (req: AuthenticatedRequest, res: Response): Promise<void> => {
   if (!req.user) {
@@ -26,6 +67,13 @@ export const createRunHandler = async (req: AuthenticatedRequest, res: Response)
     workflowId: req.body.workflowId,
     triggerId: req.body.triggerId,
     payload: req.body.payload ?? {},
+    concurrency: req.body.concurrency,
+    priority: req.body.priority,
+    notBefore: req.body.notBefore
+      ? new Date(req.body.notBefore)
+      : req.body.delayMs !== undefined
+        ? new Date(Date.now() + req.body.delayMs)
+        : undefined,
   });
   res.status(HttpStatus.CREATED).json({ run });
 };
@@ -41,18 +89,311 @@ export const listRunsHandler = async (req: AuthenticatedRequest, res: Response):
     return;
   }
 
-  const workflowId = req.query.workflowId;
-  if (!workflowId || typeof workflowId !== 'string') {
-    res.status(HttpStatus.BAD_REQUEST).json({ message: 'workflowId query required' });
+  const query = req.query as Record<string, string | undefined>;
+  const workflows = await WorkflowModel.find({ organization: user.organization }).select('_id').lean();
+  const workflowIds = workflows.map((workflow) => String(workflow._id));
+
+  if (query.workflowId && !workflowIds.includes(query.workflowId)) {
+    res.status(HttpStatus.FORBIDDEN).json({ message: 'Workflow not found' });
+    return;
+  }
+
+  if (query.cursor && !decodeRunCursor(query.cursor)) {
+    res.status(HttpStatus.BAD_REQUEST).json({ message: 'Invalid cursor' });
+    return;
+  }
+
+  const page = await listRuns({
+    workflowIds,
+    workflowId: query.workflowId,
+    triggerId: query.triggerId,
+    statuses: query.status ? (query.status.split(',').map((status) => status.trim()) as RunStatus[]) : undefined,
+    from: query.from ? new Date(query.from) : undefined,
+    to: query.to ? new Date(query.to) : undefined,
+    failedBlock: query.failedBlock,
+    minDurationMs: query.minDurationMs !== undefined ? Number(query.minDurationMs) : undefined,
+    cursor: query.cursor,
+    limit: query.limit !== undefined ? Number(query.limit) : DEFAULT_RUNS_PAGE_SIZE,
+  });
+  res.json(page);
+};
+
+export const runQueueStatsHandler = async (req: AuthenticatedRequest, res: Response): Promise<void> => {
+  if (!req.user) {
+    res.status(HttpStatus.UNAUTHORIZED).json({ message: 'Unauthorized' });
+    return;
+  }
+  const user = await findUserById(req.user.id);
+  if (!user) {
+    res.status(HttpStatus.NOT_FOUND).json({ message: 'User not found' });
+    return;
+  }
+
+  const stats = await getRunQueueStats(user.organization.toString());
+  res.json({ queue: stats });
+};
+
+export const getRunHandler = async (req: AuthenticatedRequest, res: Response): Promise<void> => {
+  if (!req.user) {
+    res.status(HttpStatus.UNAUTHORIZED).json({ message: 'Unauthorized' });
+    return;
+  }
+  const user = await findUserById(req.user.id);
+  if (!user) {
+    res.status(HttpStatus.NOT_FOUND).json({ message: 'User not found' });
+    return;
+  }
+
+  const { runId } = req.params as { runId: string };
+  if (!Types.ObjectId.isValid(runId)) {
+    res.status(HttpStatus.NOT_FOUND).json({ message: 'Run not found' });
+    return;
+  }
+  const run = await RunModel.findById(runId).lean();
+  if (!run) {
+    res.status(HttpStatus.NOT_FOUND).json({ message: 'Run not found' });
+    return;
+  }
+
+  const workflow = await WorkflowModel.findById(run.workflow).select('name organization');
+  if (!workflow || workflow.organization.toString() !== user.organization.toString()) {
+    res.status(HttpStatus.NOT_FOUND).json({ message: 'Run not found' });
+    return;
+  }
+
+  res.json({ run, workflow: { id: workflow.id, name: workflow.name } });
+};
+
+export const replayRunsHandler = async (req: AuthenticatedRequest, res: Response): Promise<void> => {
+  if (!req.user) {
+    res.status(HttpStatus.UNAUTHORIZED).json({ message: 'Unauthorized' });
+    return;
+  }
+  const user = await findUserById(req.user.id);
+  if (!user) {
+    res.status(HttpStatus.NOT_FOUND).json({ message: 'User not found' });
+    return;
+  }
+
+  const runs = await replayRuns({
+    runIds: req.body.runIds,
+    organizationId: user.organization.toString(),
+    version: req.body.version,
+    confirmSideEffects: req.body.confirmSideEffects,
+  });
+  res.status(HttpStatus.ACCEPTED).json({ runs });
+};
+
+export const resumeRunHandler = async (req: AuthenticatedRequest, res: Response): Promise<void> => {
+  if (!req.user) {
+    res.status(HttpStatus.UNAUTHORIZED).json({ message: 'Unauthorized' });
+    return;
+  }
+  const user = await findUserById(req.user.id);
+  if (!user) {
+    res.status(HttpStatus.NOT_FOUND).json({ message: 'User not found' });
     return;
   }
 
-  const workflow = await WorkflowModel.findById(workflowId);
+  const { runId } = req.params as { runId: string };
+  if (!Types.ObjectId.isValid(runId)) {
+    res.status(HttpStatus.NOT_FOUND).json({ message: 'Run not found' });
+    return;
+  }
+  const run = await RunModel.findById(runId);
+  if (!run) {
+    res.status(HttpStatus.NOT_FOUND).json({ message: 'Run not found' });
+    return;
+  }
+
+  const workflow = await WorkflowModel.findById(run.workflow);
   if (!workflow || workflow.organization.toString() !== user.organization.toString()) {
-    res.status(HttpStatus.FORBIDDEN).json({ message: 'Workflow not found' });
+    res.status(HttpStatus.NOT_FOUND).json({ message: 'Run not found' });
     return;
   }
 
-  const runs = await listRuns(workflowId);
-  res.json({ runs });
+  if (run.status !== 'failed' && run.status !== 'timed_out') {
+    res.status(HttpStatus.CONFLICT).json({ message: 'Only failed or timed out runs can be resumed' });
+    return;
+  }
+
+  const resumed = await resumeRun(run);
+  await closeDeadLetter(runId, 'requeued');
+  res.status(HttpStatus.ACCEPTED).json({ run: resumed });
+};
+
+export const cancelRunHandler = async (req: AuthenticatedRequest, res: Response): Promise<void> => {
+  if (!req.user) {
+    res.status(HttpStatus.UNAUTHORIZED).json({ message: 'Unauthorized' });
+    return;
+  }
+  const user = await findUserById(req.user.id);
+  if (!user) {
+    res.status(HttpStatus.NOT_FOUND).json({ message: 'User not found' });
+    return;
+  }
+
+  const { runId } = req.params as { runId: string };
+  if (!Types.ObjectId.isValid(runId)) {
+    res.status(HttpStatus.NOT_FOUND).json({ message: 'Run not found' });
+    return;
+  }
+  const run = await RunModel.findById(runId);
+  if (!run) {
+    res.status(HttpStatus.NOT_FOUND).json({ message: 'Run not found' });
+    return;
+  }
+
+  const workflow = await WorkflowModel.findById(run.workflow);
+  if (!workflow || workflow.organization.toString() !== user.organization.toString()) {
+    res.status(HttpStatus.NOT_FOUND).json({ message: 'Run not found' });
+    return;
+  }
+
+  if (run.status !== 'scheduled' && run.status !== 'pending' && run.status !== 'running') {
+    res.status(HttpStatus.CONFLICT).json({ message: `Run is already ${run.status}` });
+    return;
+  }
+
+  const cancelled = await cancelRun(run);
+  res.status(HttpStatus.ACCEPTED).json({ run: cancelled });
+};
+
+export const runEventsHandler = async (req: AuthenticatedRequest, res: Response): Promise<void> => {
+  if (!req.user) {
+    res.status(HttpStatus.UNAUTHORIZED).json({ message: 'Unauthorized' });
+    return;
+  }
+  const user = await findUserById(req.user.id);
+  if (!user) {
+    res.status(HttpStatus.NOT_FOUND).json({ message: 'User not found' });
+    return;
+  }
+
+  const { runId } = req.params as { runId: string };
+  if (!Types.ObjectId.isValid(runId)) {
+    res.status(HttpStatus.NOT_FOUND).json({ message: 'Run not found' });
+    return;
+  }
+  const run = await RunModel.findById(runId).select('workflow');
+  if (!run) {
+    res.status(HttpStatus.NOT_FOUND).json({ message: 'Run not found' });
+    return;
+  }
+
+  const workflow = await WorkflowModel.findById(run.workflow);
+  if (!workflow || workflow.organization.toString() !== user.organization.toString()) {
+    res.status(HttpStatus.NOT_FOUND).json({ message: 'Run not found' });
+    return;
+  }
+
+  let unsubscribe: (() => Promise<void>) | undefined;
+  const stream = openEventStream(req, res, () => void unsubscribe?.());
+  const send = (event: PublishedRunEvent | { type: 'status'; runId: string; status: RunStatus; at: string }) => {
+    stream.send(event.type, event);
+    if (event.type === 'run-finished') {
+      stream.close();
+    }
+  };
+
+  // Subscribe before reading the status so a run finishing in between is not missed
+  unsubscribe = await subscribeRunEvents(runId, send);
+  if (stream.closed) {
+    await unsubscribe();
+    return;
+  }
+
+  const current = await RunModel.findById(runId).select('status result').lean();
+  const status = (current?.status ?? 'failed') as RunStatus;
+  send({ type: 'status', runId, status, at: new Date().toISOString() });
+  if (TERMINAL_STATUSES.includes(status)) {
+    const result = (current?.result ?? {}) as { error?: string; creditsUsed?: number };
+    send({
+      type: 'run-finished',
+      runId,
+      status,
+      at: new Date().toISOString(),
+      ...(result.error ? { error: result.error } : {}),
+      ...(result.creditsUsed !== undefined ? { creditsUsed: result.creditsUsed } : {}),
+    });
+  }
+};
+
+export const runLogsHandler = async (req: AuthenticatedRequest, res: Response): Promise<void> => {
+  if (!req.user) {
+    res.status(HttpStatus.UNAUTHORIZED).json({ message: 'Unauthorized' });
+    return;
+  }
+  const user = await findUserById(req.user.id);
+  if (!user) {
+    res.status(HttpStatus.NOT_FOUND).json({ message: 'User not found' });
+    return;
+  }
+
+  const { runId } = req.params as { runId: string };
+  if (!Types.ObjectId.isValid(runId)) {
+    res.status(HttpStatus.NOT_FOUND).json({ message: 'Run not found' });
+    return;
+  }
+  const run = await RunModel.findById(runId).select('workflow');
+  if (!run) {
+    res.status(HttpStatus.NOT_FOUND).json({ message: 'Run not found' });
+    return;
+  }
+
+  const workflow = await WorkflowModel.findById(run.workflow);
+  if (!workflow || workflow.organization.toString() !== user.organization.toString()) {
+    res.status(HttpStatus.NOT_FOUND).json({ message: 'Run not found' });
+    return;
+  }
+
+  const query = req.query as Record<string, string | undefined>;
+  const filters = {
+    level: query.level as RunLogLevel | undefined,
+    nodeId: query.nodeId,
+  };
+  const logs = await listRunLogs(runId, {
+    ...filters,
+    limit: query.tail !== undefined ? Number(query.tail) : DEFAULT_LOG_TAIL,
+    after: query.after,
+  });
+
+  if (query.follow !== 'true') {
+    res.json({ logs, cursor: logs.length ? String(logs[logs.length - 1]._id) : query.after ?? null });
+    return;
+  }
+
+  // Follow mode polls the store, so entries written by any worker show up
+  let timer: NodeJS.Timeout | undefined;
+  const stream = openEventStream(req, res, () => clearTimeout(timer));
+  let cursor = logs.length ? String(logs[logs.length - 1]._id) : query.after;
+  let draining = false;
+  for (const entry of logs) {
+    stream.send('log', entry);
+  }
+
+  const poll = async () => {
+    const current = await RunModel.findById(runId).select('status').lean();
+    const entries = await listRunLogs(runId, { ...filters, limit: 1000, after: cursor });
+    for (const entry of entries) {
+      stream.send('log', entry);
+    }
+    if (entries.length) {
+      cursor = String(entries[entries.length - 1]._id);
+    }
+    // Log writes do not block the run, so one more poll after it finishes picks up the last lines
+    const status = (current?.status ?? 'failed') as RunStatus;
+    if (TERMINAL_STATUSES.includes(status) && entries.length < 1000) {
+      if (draining) {
+        stream.send('end', { runId, status });
+        stream.close();
+        return;
+      }
+      draining = true;
+    }
+    if (!stream.closed) {
+      timer = setTimeout(() => void poll().catch(() => stream.close()), LOG_FOLLOW_POLL_MS);
+    }
+  };
+  await poll();
 };
@@ -0,0 +1,106 @@
+import { EventEmitter } from 'events';
+import IORedis from 'ioredis';
+import { envConfig } from '@/config/env';
+import { logger } from '@/utils/logger';
+import { RunStatus } from './runs.types';
+
+export type RunEvent =
+  | { type: 'node-started'; nodeId: string; blockId: string }
+  | {
+      type: 'node-finished';
+      nodeId: string;
+      blockId: string;
+      status: 'success' | 'failed' | 'skipped';
+      duration: number;
+      outputs: unknown;
+      error?: string;
+      iteration?: number;
+    }
+  | { type: 'log'; source: 'nilcc'; workloadId: string; lines: string[] }
+  | { type: 'run-finished'; status: RunStatus; error?: string; creditsUsed?: number };
+
+export type PublishedRunEvent = RunEvent & { runId: string; at: string };
+
+export type RedactionMode = 'none' | 'values' | 'all';
+
+const REDACTED = '[redacted]';
+
+/**
+ * Strip output values before they leave the server. `values` keeps the shape (keys and
+ * array lengths) so a trace can still be drawn; `all` drops the outputs entirely.
+ */
+export const redactOutputs = (value: unknown, mode: RedactionMode): unknown => {
+  if (mode === 'none' || value === undefined) return value;
+  if (mode === 'all') return REDACTED;
+  if (Array.isArray(value)) return value.map((item) => redactOutputs(item, mode));
+  if (value && typeof value === 'object') {
+    return Object.fromEntries(Object.entries(value).map(([key, item]) => [key, redactOutputs(item, mode)]));
+  }
+  return REDACTED;
+};
+
+// Events go through Redis so a stream opened on any API instance sees runs executed by any worker
+const redisUrl = envConfig.QUEUE_REDIS_URL ?? 'redis://127.0.0.1:6379';
+const channelFor = (runId: string) => `run-events:${runId}`;
+
+let publisher: IORedis | undefined;
+let subscriber: IORedis | undefined;
+const listeners = new EventEmitter();
+listeners.setMaxListeners(0);
+
+const getPublisher = () => {
+  if (!publisher) {
+    publisher = new IORedis(redisUrl, { maxRetriesPerRequest: null });
+  }
+  return publisher;
+};
+
+const getSubscriber = () => {
+  if (!subscriber) {
+    subscriber = new IORedis(redisUrl, { maxRetriesPerRequest: null });
+    subscriber.on('message', (channel: string, message: string) => {
+      try {
+        listeners.emit(channel, JSON.parse(message) as PublishedRunEvent);
+      } catch (error) {
+        logger.warn({ err: error, channel }, 'Dropped malformed run event');
+      }
+    });
+  }
+  return subscriber;
+};
+
+/** Fire-and-forget: a run never fails because nobody could be told about it. */
+export const publishRunEvent = (runId: string, event: RunEvent): void => {
+  const message: PublishedRunEvent = { ...event, runId, at: new Date().toISOString() };
+  let body: string;
+  try {
+    body = JSON.stringify(message, (_key, value) => (typeof value === 'bigint' ? value.toString() : value));
+  } catch (error) {
+    logger.warn({ err: error, runId, type: event.type }, 'Run event is not serializable');
+    return;
+  }
+  getPublisher()
+    .publish(channelFor(runId), body)
+    .catch((error) => logger.warn({ err: error, runId, type: event.type }, 'Failed to publish run event'));
+};
+
+/** Listen to a run's events; the returned function stops listening. */
+export const subscribeRunEvents = async (
+  runId: string,
+  listener: (event: PublishedRunEvent) => void,
+): Promise<() => Promise<void>> => {
+  const channel = channelFor(runId);
+  const redis = getSubscriber();
+
+  listeners.on(channel, listener);
+  if (listeners.listenerCount(channel) === 1) {
+    await redis.subscribe(channel);
+  }
+
+  return async () => {
+    listeners.off(channel, listener);
+    if (listeners.listenerCount(channel) === 0) {
+      await redis.unsubscribe(channel).catch(() => undefined);
+    }
+  };
+};
@@ -0,0 +1,52 @@
+import { logger } from '@/utils/logger';
+import { RunLogModel } from './run-log.model';
+import { RunLogLevel, RunLogSource } from './runs.types';
+
+type LogData = Record<string, unknown>;
+
+/** Writes to a run's own log, which users read through `GET /runs/:runId/logs`. */
+export interface RunLogger {
+  readonly runId: string;
+  debug(message: string, data?: LogData): void;
+  info(message: string, data?: LogData): void;
+  warn(message: string, data?: LogData): void;
+  error(message: string, data?: LogData): void;
+  child(bindings: { source?: RunLogSource; nodeId?: string }): RunLogger;
+}
+
+// Errors and other class instances do not survive Mixed storage as-is
+const toStorable = (data: LogData | undefined): LogData | undefined => {
+  if (!data) return undefined;
+  try {
+    return JSON.parse(
+      JSON.stringify(data, (_key, value) => {
+        if (value instanceof Error) return { name: value.name, message: value.message };
+        return typeof value === 'bigint' ? value.toString() : value;
+      }),
+    );
+  } catch {
+    return { unserializable: true };
+  }
+};
+
+export const createRunLogger = (
+  runId: string,
+  bindings: { source?: RunLogSource; nodeId?: string } = {},
+): RunLogger => {
+  const source = bindings.source ?? 'engine';
+  const write = (level: RunLogLevel, message: string, data?: LogData) => {
+    // Losing a log line must never fail the run
+    RunLogModel.create({ run: runId, level, source, nodeId: bindings.nodeId, message, data: toStorable(data) }).catch(
+      (error) => logger.warn({ err: error, runId }, 'Failed to write run log'),
+    );
+  };
+
+  return {
+    runId,
+    debug: (message, data) => write('debug', message, data),
+    info: (message, data) => write('info', message, data),
+    warn: (message, data) => write('warn', message, data),
+    error: (message, data) => write('error', message, data),
+    child: (childBindings) => createRunLogger(runId, { source, nodeId: bindings.nodeId, ...childBindings }),
+  };
+};
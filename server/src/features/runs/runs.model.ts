@@ -1,23 +1,78 @@
 import { Schema, model, Document } from 'mongoose';
-import { RunStatus } from './runs.types';
+import { RunPriority, RunStatus } from './runs.types';
+import { ExecutionStep, MemoryEntry } from '@/features/workflows/workflows.types';
 
 export interface RunDocument extends Document {
   workflow: Schema.Types.ObjectId;
   trigger?: Schema.Types.ObjectId;
+  workflowVersion?: Schema.Types.ObjectId;
+  version?: number;
   status: RunStatus;
+  priority: RunPriority;
+  /** Earliest time the run may start; the run is `scheduled` until then */
+  notBefore?: Date;
   payload: Record<string, unknown>;
   result?: Record<string, unknown>;
+  concurrency?: number;
+  parentRun?: Schema.Types.ObjectId;
+  /** Run whose payload this run replays */
+  replayOf?: Schema.Types.ObjectId;
+  /** Set when the replay was requested with side-effecting blocks acknowledged */
+  sideEffectsConfirmed?: boolean;
+  callStack: string[];
+  steps: ExecutionStep[];
+  memory: MemoryEntry[];
+  cancelRequestedAt?: Date;
+  startedAt?: Date;
+  finishedAt?: Date;
+  durationMs?: number;
+  /** Blocks with a failed step, kept on the run so it can be searched by them */
+  failedBlocks: string[];
+  createdAt: Date;
+  updatedAt: Date;
 }
 
 const runSchema = new Schema<RunDocument>(
   {
     workflow: { type: Schema.Types.ObjectId, ref: 'Workflow', required: true },
     trigger: { type: Schema.Types.ObjectId, ref: 'Trigger' },
-    status: { type: String, enum: ['pending', 'running', 'succeeded', 'failed'], default: 'pending' },
+    workflowVersion: { type: Schema.Types.ObjectId, ref: 'WorkflowVersion' },
+    version: { type: Number },
+    status: {
+      type: String,
+      enum: ['scheduled', 'pending', 'running', 'succeeded', 'failed', 'cancelled', 'timed_out'],
+      default: 'pending',
+    },
+    priority: { type: String, enum: ['high', 'normal', 'low'], default: 'normal' },
+    notBefore: { type: Date },
     payload: { type: Schema.Types.Mixed, default: {} },
     result: { type: Schema.Types.Mixed },
+    concurrency: { type: Number, min: 1 },
+    parentRun: { type: Schema.Types.ObjectId, ref: 'Run' },
+    replayOf: { type: Schema.Types.ObjectId, ref: 'Run' },
+    sideEffectsConfirmed: { type: Boolean },
+    callStack: { type: [String], default: [] },
+    steps: { type: [{ type: Schema.Types.Mixed }], default: [] },
+    memory: {
+      type: [{ _id: false, key: { type: String }, value: { type: Schema.Types.Mixed } }],
+      default: [],
+      select: false,
+    },
+    cancelRequestedAt: { type: Date },
+    startedAt: { type: Date },
+    finishedAt: { type: Date },
+    durationMs: { type: Number },
+    failedBlocks: { type: [String], default: [] },
   },
   { timestamps: true },
 );
 
+// Run listings are newest first and paginated on (createdAt, _id)
+runSchema.index({ workflow: 1, createdAt: -1, _id: -1 });
+runSchema.index({ workflow: 1, status: 1, createdAt: -1, _id: -1 });
+runSchema.index({ trigger: 1, createdAt: -1, _id: -1 });
+runSchema.index({ failedBlocks: 1, createdAt: -1, _id: -1 });
+runSchema.index({ workflow: 1, durationMs: -1 });
+runSchema.index({ replayOf: 1 }, { sparse: true });
+
 export const RunModel = model<RunDocument>('Run', runSchema);
@@ -1,12 +1,19 @@
 import { Router } from 'express';
 import { authenticate } from '@/shared/middlewares/auth.middleware';
 import { validate } from '@/shared/middlewares/validation.middleware';
-import { createRunSchema } from './runs.schema';
-import { createRunHandler, listRunsHandler } from './runs.controller';
+import { createRunSchema, listRunsSchema, runIdSchema, replayRunsSchema, runLogsSchema } from './runs.schema';
+import { createRunHandler, listRunsHandler, getRunHandler, runQueueStatsHandler, replayRunsHandler, resumeRunHandler, cancelRunHandler, runEventsHandler, runLogsHandler } from './runs.controller';
 
 const router = Router();
 
-router.get('/', authenticate, listRunsHandler);
+router.get('/', authenticate, validate(listRunsSchema), listRunsHandler);
 router.post('/', authenticate, validate(createRunSchema), createRunHandler);
+router.post('/replay', authenticate, validate(replayRunsSchema), replayRunsHandler);
+router.get('/queue', authenticate, runQueueStatsHandler);
+router.get('/:runId', authenticate, validate(runIdSchema), getRunHandler);
+router.post('/:runId/resume', authenticate, validate(runIdSchema), resumeRunHandler);
+router.post('/:runId/cancel', authenticate, validate(runIdSchema), cancelRunHandler);
+router.get('/:runId/events', authenticate, validate(runIdSchema), runEventsHandler);
+router.get('/:runId/logs', authenticate, validate(runLogsSchema), runLogsHandler);
 
 export default router;
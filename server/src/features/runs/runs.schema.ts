@@ -1,9 +1,66 @@
 import { z } from 'zod';
 
+const dateQuerySchema = z.string().refine((value) => !Number.isNaN(Date.parse(value)), { message: 'Invalid date' });
+
+export const runPrioritySchema = z.enum(['high', 'normal', 'low']);
+
 export const createRunSchema = z.object({
+  body: z
+    .object({
+      workflowId: z.string().min(1),
+      triggerId: z.string().optional(),
+      payload: z.record(z.string(), z.any()).default({}),
+      concurrency: z.number().int().min(1).max(32).optional(),
+      priority: runPrioritySchema.optional(),
+      notBefore: dateQuerySchema.optional(),
+      delayMs: z.number().int().min(0).optional(),
+    })
+    .refine((body) => body.notBefore === undefined || body.delayMs === undefined, {
+      message: 'Set either notBefore or delayMs, not both',
+    }),
+});
+
+const runStatusSchema = z.enum(['scheduled', 'pending', 'running', 'succeeded', 'failed', 'cancelled', 'timed_out']);
+
+export const listRunsSchema = z.object({
+  query: z.object({
+    workflowId: z.string().min(1).optional(),
+    triggerId: z.string().min(1).optional(),
+    // A single status or a comma-separated list
+    status: z
+      .string()
+      .refine((value) => value.split(',').every((status) => runStatusSchema.safeParse(status.trim()).success), {
+        message: 'Unknown run status',
+      })
+      .optional(),
+    from: dateQuerySchema.optional(),
+    to: dateQuerySchema.optional(),
+    failedBlock: z.string().min(1).optional(),
+    minDurationMs: z.coerce.number().int().min(0).optional(),
+    cursor: z.string().min(1).optional(),
+    limit: z.coerce.number().int().min(1).max(200).optional(),
+  }),
+});
+
+export const runIdSchema = z.object({
+  params: z.object({ runId: z.string().min(1) }),
+});
+
+export const replayRunsSchema = z.object({
   body: z.object({
-    workflowId: z.string().min(1),
-    triggerId: z.string().optional(),
-    payload: z.record(z.string(), z.any()).default({}),
+    runIds: z.array(z.string().min(1)).min(1).max(100),
+    version: z.number().int().min(1).optional(),
+    confirmSideEffects: z.boolean().optional(),
+  }),
+});
+
+export const runLogsSchema = z.object({
+  params: z.object({ runId: z.string().min(1) }),
+  query: z.object({
+    tail: z.coerce.number().int().min(1).max(1000).optional(),
+    after: z.string().regex(/^[a-f0-9]{24}$/i, 'Invalid log id').optional(),
+    level: z.enum(['debug', 'info', 'warn', 'error']).optional(),
+    nodeId: z.string().min(1).optional(),
+    follow: z.enum(['true', 'false']).optional(),
   }),
 });
@@ -1,24 +1,275 @@
-import { RunModel } from './runs.model';
+import { FilterQuery, Types } from 'mongoose';
+import { RunModel, RunDocument } from './runs.model';
+import { RunLogLevel, RunPriority, RunStatus } from './runs.types';
+import { RunLogModel, RunLogDocument } from './run-log.model';
 import { enqueueRunJob } from '@/queues/run-queue';
+import { workflowEngine } from '@/features/workflows/workflows.engine';
+import { WorkflowModel } from '@/features/workflows/workflows.model';
+import { TriggerModel } from '@/features/triggers/triggers.model';
+import { WorkflowVersionModel } from '@/features/workflows/workflow-version.model';
+import { findSideEffectNodes, SideEffectNode } from '@/features/workflows/workflows.validation';
+import { AppError } from '@/shared/errors/app-error';
+import { HttpStatus } from '@/utils/http-status';
+import { publishRunEvent } from './runs.events';
 
 interface CreateRunInput {
   workflowId: string;
   triggerId?: string;
   payload: Record<string, unknown>;
+  concurrency?: number;
+  workflowVersionId?: string;
+  version?: number;
+  replayOf?: string;
+  sideEffectsConfirmed?: boolean;
+  priority?: RunPriority;
+  /** Earliest start time; a run with a future `notBefore` is `scheduled` until then */
+  notBefore?: Date;
 }
 
-export const createRun = (input: CreateRunInput) => {
-  return RunModel.create({
+export const createRun = async (input: CreateRunInput) => {
+  // Runs started by a trigger take the trigger's run options unless the caller sets its own
+  const trigger =
+    input.triggerId && (input.priority === undefined || input.notBefore === undefined)
+      ? await TriggerModel.findById(input.triggerId).select('runOptions').lean()
+      : null;
+  const delayMs = trigger?.runOptions?.delayMs;
+  const notBefore = input.notBefore ?? (delayMs ? new Date(Date.now() + delayMs) : undefined);
+  const scheduled = notBefore !== undefined && notBefore.getTime() > Date.now();
+
+  const run = await RunModel.create({
     workflow: input.workflowId,
     trigger: input.triggerId,
     payload: input.payload,
-    status: 'pending',
-  }).then(async (run) => {
-    await enqueueRunJob(run.id);
-    return run;
+    concurrency: input.concurrency,
+    workflowVersion: input.workflowVersionId,
+    version: input.version,
+    replayOf: input.replayOf,
+    sideEffectsConfirmed: input.sideEffectsConfirmed,
+    priority: input.priority ?? trigger?.runOptions?.priority ?? 'normal',
+    notBefore: scheduled ? notBefore : undefined,
+    status: scheduled ? 'scheduled' : 'pending',
   });
+  await enqueueRunJob(run.id);
+  return run;
+};
+
+export interface ListRunsFilters {
+  /** Workflows the caller may see; `workflowId` must be one of them */
+  workflowIds: string[];
+  workflowId?: string;
+  triggerId?: string;
+  statuses?: RunStatus[];
+  from?: Date;
+  to?: Date;
+  failedBlock?: string;
+  minDurationMs?: number;
+  cursor?: string;
+  limit: number;
+}
+
+interface RunCursor {
+  createdAt: Date;
+  id: string;
+}
+
+const encodeCursor = (run: { createdAt: Date; _id: unknown }) =>
+  Buffer.from(`${run.createdAt.toISOString()}|${String(run._id)}`).toString('base64url');
+
+export const decodeRunCursor = (cursor: string): RunCursor | undefined => {
+  const [createdAt, id] = Buffer.from(cursor, 'base64url').toString('utf8').split('|');
+  const date = new Date(createdAt);
+  if (!id || Number.isNaN(date.getTime()) || !Types.ObjectId.isValid(id)) {
+    return undefined;
+  }
+  return { createdAt: date, id };
+};
+
+/** Newest runs first, one page at a time. Step traces are left out; fetch a single run for those. */
+export const listRuns = async (filters: ListRunsFilters) => {
+  const query: FilterQuery<RunDocument> = {
+    workflow: filters.workflowId ? filters.workflowId : { $in: filters.workflowIds },
+  };
+  if (filters.triggerId) {
+    query.trigger = filters.triggerId;
+  }
+  if (filters.statuses?.length) {
+    query.status = { $in: filters.statuses };
+  }
+  if (filters.from || filters.to) {
+    query.createdAt = {
+      ...(filters.from ? { $gte: filters.from } : {}),
+      ...(filters.to ? { $lte: filters.to } : {}),
+    };
+  }
+  if (filters.failedBlock) {
+    query.failedBlocks = filters.failedBlock;
+  }
+  if (filters.minDurationMs !== undefined) {
+    query.durationMs = { $gte: filters.minDurationMs };
+  }
+
+  const cursor = filters.cursor ? decodeRunCursor(filters.cursor) : undefined;
+  const page = cursor
+    ? {
+        $or: [
+          { createdAt: { $lt: cursor.createdAt } },
+          { createdAt: cursor.createdAt, _id: { $lt: new Types.ObjectId(cursor.id) } },
+        ],
+      }
+    : {};
+
+  const runs = await RunModel.find({ $and: [query, page] })
+    .select('-steps -result.steps')
+    .sort({ createdAt: -1, _id: -1 })
+    .limit(filters.limit + 1)
+    .lean();
+
+  const hasMore = runs.length > filters.limit;
+  const items = hasMore ? runs.slice(0, filters.limit) : runs;
+  const last = items[items.length - 1];
+  return { runs: items, nextCursor: hasMore && last ? encodeCursor(last) : null };
+};
+
+export const resumeRun = async (run: RunDocument) => {
+  // Checkpointed steps are kept so the engine continues from the node that failed
+  run.status = 'pending';
+  run.result = undefined;
+  run.cancelRequestedAt = undefined;
+  run.finishedAt = undefined;
+  run.durationMs = undefined;
+  run.failedBlocks = [];
+  await run.save();
+  await enqueueRunJob(run.id);
+  return run;
 };
 
-export const listRuns = (workflowId: string) => {
-  return RunModel.find({ workflow: workflowId }).sort({ createdAt: -1 }).lean();
+export const cancelRun = async (run: RunDocument) => {
+  const requestedAt = new Date();
+
+  // Scheduled and pending runs are settled here; the worker skips them when their job comes up
+  const cancelledPending = await RunModel.findOneAndUpdate(
+    { _id: run._id, status: { $in: ['scheduled', 'pending'] } },
+    {
+      $set: {
+        status: 'cancelled',
+        cancelRequestedAt: requestedAt,
+        finishedAt: requestedAt,
+        result: { error: 'Run was cancelled' },
+      },
+    },
+    { new: true },
+  );
+  if (cancelledPending) {
+    publishRunEvent(String(run._id), { type: 'run-finished', status: 'cancelled', error: 'Run was cancelled' });
+    return cancelledPending;
+  }
+
+  // Running runs are stopped by the engine, which aborts in-flight calls and cleans up first
+  await RunModel.updateOne({ _id: run._id, status: 'running' }, { $set: { cancelRequestedAt: requestedAt } });
+  workflowEngine.cancel(String(run._id));
+  return RunModel.findById(run._id);
+};
+
+interface ReplayRunsInput {
+  runIds: string[];
+  organizationId: string;
+  /** Workflow version to replay against; defaults to each workflow's current version */
+  version?: number;
+  confirmSideEffects?: boolean;
+}
+
+/**
+ * Queue new runs with the payloads of earlier ones. Replays are pinned to the version they
+ * will execute, so the side-effect check covers exactly the graph that runs.
+ */
+export const replayRuns = async (input: ReplayRunsInput) => {
+  const runIds = [...new Set(input.runIds)];
+  const sources = await RunModel.find({ _id: { $in: runIds.filter((id) => Types.ObjectId.isValid(id)) } })
+    .select('workflow payload concurrency')
+    .lean();
+  const workflowIds = [...new Set(sources.map((source) => String(source.workflow)))];
+  const workflows = await WorkflowModel.find({ _id: { $in: workflowIds }, organization: input.organizationId });
+  const workflowById = new Map(workflows.map((workflow) => [workflow.id as string, workflow]));
+
+  const missing = runIds.filter(
+    (id) => !sources.some((source) => String(source._id) === id && workflowById.has(String(source.workflow))),
+  );
+  if (missing.length) {
+    throw new AppError('Run not found', HttpStatus.NOT_FOUND, { runIds: missing });
+  }
+  if (input.version !== undefined && workflows.length > 1) {
+    throw new AppError('A version can only be chosen when every run belongs to the same workflow', HttpStatus.BAD_REQUEST);
+  }
+
+  const targets = new Map<string, { versionId?: string; version?: number; sideEffects: SideEffectNode[] }>();
+  for (const workflow of workflows) {
+    const version = input.version ?? workflow.version;
+    const snapshot = version !== undefined
+      ? await WorkflowVersionModel.findOne({ workflow: workflow._id, version }).select('version graph').lean()
+      : null;
+    if (input.version !== undefined && !snapshot) {
+      throw new AppError(`Version ${input.version} not found`, HttpStatus.NOT_FOUND);
+    }
+    targets.set(workflow.id, {
+      versionId: snapshot ? String(snapshot._id) : undefined,
+      version: snapshot?.version,
+      sideEffects: findSideEffectNodes(snapshot?.graph ?? workflow.graph ?? { nodes: [], edges: [] }),
+    });
+  }
+
+  const sideEffects = [...targets.entries()].flatMap(([workflowId, target]) =>
+    target.sideEffects.map((node) => ({ workflowId, ...node })),
+  );
+  if (sideEffects.length && !input.confirmSideEffects) {
+    throw new AppError(
+      'Replay would run side-effecting blocks; resend with confirmSideEffects to proceed',
+      HttpStatus.CONFLICT,
+      { sideEffects },
+    );
+  }
+
+  const replays: RunDocument[] = [];
+  for (const source of sources) {
+    const workflowId = String(source.workflow);
+    const target = targets.get(workflowId)!;
+    replays.push(
+      await createRun({
+        workflowId,
+        payload: source.payload ?? {},
+        concurrency: source.concurrency,
+        workflowVersionId: target.versionId,
+        version: target.version,
+        replayOf: String(source._id),
+        sideEffectsConfirmed: Boolean(input.confirmSideEffects),
+      }),
+    );
+  }
+  return replays;
+};
+
+const LOG_LEVELS: RunLogLevel[] = ['debug', 'info', 'warn', 'error'];
+
+export interface RunLogQuery {
+  /** Entries to return: the newest ones, or the first ones after `after` */
+  limit: number;
+  /** Id of the last entry already seen */
+  after?: string;
+  level?: RunLogLevel;
+  nodeId?: string;
+}
+
+export const listRunLogs = async (runId: string, query: RunLogQuery) => {
+  const filter: FilterQuery<RunLogDocument> = { run: runId };
+  if (query.level) {
+    filter.level = { $in: LOG_LEVELS.slice(LOG_LEVELS.indexOf(query.level)) };
+  }
+  if (query.nodeId) {
+    filter.nodeId = query.nodeId;
+  }
+  if (query.after) {
+    filter._id = { $gt: new Types.ObjectId(query.after) };
+    return RunLogModel.find(filter).sort({ _id: 1 }).limit(query.limit).select('-run').lean();
+  }
+  const newest = await RunLogModel.find(filter).sort({ _id: -1 }).limit(query.limit).select('-run').lean();
+  return newest.reverse();
 };
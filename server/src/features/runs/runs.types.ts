@@ -1 +1,7 @@
-export type RunStatus = 'pending' | 'running' | 'succeeded' | 'failed';
+export type RunStatus = 'scheduled' | 'pending' | 'running' | 'succeeded' | 'failed' | 'cancelled' | 'timed_out';
+
+export type RunPriority = 'high' | 'normal' | 'low';
+
+export type RunLogLevel = 'debug' | 'info' | 'warn' | 'error';
+
+export type RunLogSource = 'engine' | 'nilcc' | 'nilai' | 'zcash';
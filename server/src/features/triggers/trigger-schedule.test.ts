@@ -0,0 +1,110 @@
+import { describe, expect, it } from 'vitest';
+import { getFireTimesBetween, getNextFireTimes, scheduleConfigSchema } from './trigger-schedule';
+
+const schedule = (input: Record<string, unknown>) => scheduleConfigSchema.parse(input);
+const iso = (dates: Date[]) => dates.map((date) => date.toISOString());
+
+describe('scheduleConfigSchema', () => {
+  it.each([
+    [{}, 'Set either expression or intervalMinutes'],
+    [{ expression: '0 * * * *', intervalMinutes: 5 }, 'Set either expression or intervalMinutes'],
+    [{ expression: 'every day' }, 'Invalid cron expression'],
+    [{ intervalMinutes: 5, timezone: 'Mars/Olympus' }, 'Unknown time zone'],
+    [{ intervalMinutes: 5, startAt: '2026-02-01T00:00:00Z', endAt: '2026-01-01T00:00:00Z' }, 'endAt must be after startAt'],
+    [{ intervalMinutes: 5, excludedDates: ['01/02/2026'] }, 'Dates must be YYYY-MM-DD'],
+  ])('rejects %j', (input, message) => {
+    const result = scheduleConfigSchema.safeParse(input);
+    expect(result.success).toBe(false);
+    expect(result.error?.issues.map((issue) => issue.message)).toContain(message);
+  });
+
+  it('defaults to skipping missed runs', () => {
+    expect(schedule({ intervalMinutes: 5 })).toMatchObject({ excludedDates: [], missedRunPolicy: 'skip' });
+  });
+});
+
+describe('getNextFireTimes', () => {
+  it('aligns intervals to the epoch without a start', () => {
+    const times = getNextFireTimes(schedule({ intervalMinutes: 15 }), 3, new Date('2026-01-01T00:07:00Z'));
+    expect(iso(times)).toEqual(['2026-01-01T00:15:00.000Z', '2026-01-01T00:30:00.000Z', '2026-01-01T00:45:00.000Z']);
+  });
+
+  it('skips a fire time equal to from', () => {
+    const times = getNextFireTimes(schedule({ intervalMinutes: 15 }), 1, new Date('2026-01-01T00:15:00Z'));
+    expect(iso(times)).toEqual(['2026-01-01T00:30:00.000Z']);
+  });
+
+  it('anchors intervals to startAt and fires on it', () => {
+    const config = schedule({ intervalMinutes: 10, startAt: '2026-01-01T00:05:00Z' });
+    const times = getNextFireTimes(config, 2, new Date('2025-12-31T12:00:00Z'));
+    expect(iso(times)).toEqual(['2026-01-01T00:05:00.000Z', '2026-01-01T00:15:00.000Z']);
+  });
+
+  it('stops at endAt', () => {
+    const config = schedule({ intervalMinutes: 60, endAt: '2026-01-01T02:00:00Z' });
+    const times = getNextFireTimes(config, 5, new Date('2026-01-01T00:30:00Z'));
+    expect(iso(times)).toEqual(['2026-01-01T01:00:00.000Z', '2026-01-01T02:00:00.000Z']);
+  });
+
+  it('reads cron fields in the schedule time zone, across daylight saving', () => {
+    const config = schedule({ expression: '0 9 * * *', timezone: 'Europe/Berlin' });
+    expect(iso(getNextFireTimes(config, 1, new Date('2026-01-10T00:00:00Z')))).toEqual(['2026-01-10T08:00:00.000Z']);
+    expect(iso(getNextFireTimes(config, 1, new Date('2026-07-10T00:00:00Z')))).toEqual(['2026-07-10T07:00:00.000Z']);
+  });
+
+  it('skips excluded dates', () => {
+    const config = schedule({ expression: '0 9 * * *', timezone: 'UTC', excludedDates: ['2026-01-11'] });
+    const times = getNextFireTimes(config, 2, new Date('2026-01-10T10:00:00Z'));
+    expect(iso(times)).toEqual(['2026-01-12T09:00:00.000Z', '2026-01-13T09:00:00.000Z']);
+  });
+
+  it('matches excluded dates against the schedule time zone', () => {
+    // 01:00 in Tokyo is 16:00 UTC on the previous day
+    const config = schedule({ expression: '0 1 * * *', timezone: 'Asia/Tokyo', excludedDates: ['2026-01-11'] });
+    const times = getNextFireTimes(config, 2, new Date('2026-01-10T00:00:00Z'));
+    expect(iso(times)).toEqual(['2026-01-11T16:00:00.000Z', '2026-01-12T16:00:00.000Z']);
+  });
+
+  it('returns nothing when every time in the window is excluded', () => {
+    const config = schedule({
+      intervalMinutes: 60,
+      timezone: 'UTC',
+      startAt: '2026-01-11T00:00:00Z',
+      endAt: '2026-01-11T23:00:00Z',
+      excludedDates: ['2026-01-11'],
+    });
+    expect(getNextFireTimes(config, 3, new Date('2026-01-01T00:00:00Z'))).toEqual([]);
+  });
+});
+
+describe('getFireTimesBetween', () => {
+  const hourly = schedule({ expression: '0 * * * *', timezone: 'UTC' });
+
+  it('returns times after the start and up to the end, oldest first', () => {
+    const times = getFireTimesBetween(hourly, new Date('2026-01-01T00:00:00Z'), new Date('2026-01-01T03:00:00Z'), 10);
+    expect(iso(times)).toEqual(['2026-01-01T01:00:00.000Z', '2026-01-01T02:00:00.000Z', '2026-01-01T03:00:00.000Z']);
+  });
+
+  it('keeps the latest times when over the limit', () => {
+    const times = getFireTimesBetween(hourly, new Date('2026-01-01T00:00:00Z'), new Date('2026-01-01T05:30:00Z'), 2);
+    expect(iso(times)).toEqual(['2026-01-01T04:00:00.000Z', '2026-01-01T05:00:00.000Z']);
+  });
+
+  it('walks intervals backwards from the end', () => {
+    const config = schedule({ intervalMinutes: 20 });
+    const times = getFireTimesBetween(config, new Date('2026-01-01T00:10:00Z'), new Date('2026-01-01T01:00:00Z'), 10);
+    expect(iso(times)).toEqual(['2026-01-01T00:20:00.000Z', '2026-01-01T00:40:00.000Z', '2026-01-01T01:00:00.000Z']);
+  });
+
+  it('does not go before startAt', () => {
+    const config = schedule({ intervalMinutes: 20, startAt: '2026-01-01T00:30:00Z' });
+    const times = getFireTimesBetween(config, new Date('2026-01-01T00:00:00Z'), new Date('2026-01-01T01:15:00Z'), 10);
+    expect(iso(times)).toEqual(['2026-01-01T00:30:00.000Z', '2026-01-01T00:50:00.000Z', '2026-01-01T01:10:00.000Z']);
+  });
+
+  it('leaves out excluded dates', () => {
+    const daily = schedule({ expression: '0 9 * * *', timezone: 'UTC', excludedDates: ['2026-01-02'] });
+    const times = getFireTimesBetween(daily, new Date('2026-01-01T00:00:00Z'), new Date('2026-01-03T23:00:00Z'), 10);
+    expect(iso(times)).toEqual(['2026-01-01T09:00:00.000Z', '2026-01-03T09:00:00.000Z']);
+  });
+});
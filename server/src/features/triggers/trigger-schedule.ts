@@ -0,0 +1,120 @@
+import { parseExpression } from 'cron-parser';
+import { z } from 'zod';
+
+const dateTimeSchema = z.string().refine((value) => !Number.isNaN(Date.parse(value)), { message: 'Invalid date' });
+
+const isValidTimeZone = (timeZone: string): boolean => {
+  try {
+    new Intl.DateTimeFormat('en-US', { timeZone });
+    return true;
+  } catch {
+    return false;
+  }
+};
+
+const isValidCron = (expression: string): boolean => {
+  try {
+    parseExpression(expression);
+    return true;
+  } catch {
+    return false;
+  }
+};
+
+export const scheduleConfigSchema = z
+  .object({
+    expression: z.string().min(1).refine(isValidCron, { message: 'Invalid cron expression' }).optional(),
+    intervalMinutes: z.number().int().min(1).optional(),
+    /** IANA zone such as `Europe/Berlin`; server-local time when unset */
+    timezone: z.string().refine(isValidTimeZone, { message: 'Unknown time zone' }).optional(),
+    startAt: dateTimeSchema.optional(),
+    endAt: dateTimeSchema.optional(),
+    /** Calendar days (`YYYY-MM-DD`, in the schedule's time zone) on which the schedule does not fire */
+    excludedDates: z.array(z.string().regex(/^\d{4}-\d{2}-\d{2}$/, 'Dates must be YYYY-MM-DD')).default([]),
+    missedRunPolicy: z.enum(['skip', 'run_once', 'run_all']).default('skip'),
+  })
+  .refine((config) => (config.expression === undefined) !== (config.intervalMinutes === undefined), {
+    message: 'Set either expression or intervalMinutes',
+  })
+  .refine((config) => !config.startAt || !config.endAt || Date.parse(config.startAt) < Date.parse(config.endAt), {
+    message: 'endAt must be after startAt',
+  });
+
+export type ScheduleConfig = z.infer<typeof scheduleConfigSchema>;
+
+// A schedule that only matches excluded dates would otherwise be scanned forever
+const MAX_SCANNED_TIMES = 10_000;
+
+const calendarDate = (date: Date, timeZone?: string): string =>
+  new Intl.DateTimeFormat('en-CA', { timeZone, year: 'numeric', month: '2-digit', day: '2-digit' }).format(date);
+
+/** Fire times strictly after (`next`) or before (`prev`) `from`, inside the schedule's window. */
+const scanFireTimes = function* (config: ScheduleConfig, from: Date, direction: 'next' | 'prev'): Generator<Date> {
+  const startAt = config.startAt ? new Date(config.startAt) : undefined;
+  const endAt = config.endAt ? new Date(config.endAt) : undefined;
+  if (direction === 'next' && startAt && from < startAt) {
+    from = new Date(startAt.getTime() - 1);
+  }
+
+  let step: () => Date | null;
+  if (config.intervalMinutes) {
+    // Intervals count from startAt, or from the epoch so every server agrees on the slots
+    const every = config.intervalMinutes * 60_000;
+    const anchor = startAt?.getTime() ?? 0;
+    const offset = (from.getTime() - anchor) / every;
+    // The first step lands on the slot right after or right before `from`
+    let slot = direction === 'next' ? Math.floor(offset) : Math.ceil(offset);
+    step = () => {
+      slot += direction === 'next' ? 1 : -1;
+      const time = anchor + slot * every;
+      return (startAt && time < anchor) || (endAt && time > endAt.getTime()) ? null : new Date(time);
+    };
+  } else {
+    const cron = parseExpression(config.expression!, {
+      currentDate: from,
+      tz: config.timezone,
+      startDate: startAt,
+      endDate: endAt,
+    });
+    step = () => {
+      if (direction === 'next' ? !cron.hasNext() : !cron.hasPrev()) {
+        return null;
+      }
+      return (direction === 'next' ? cron.next() : cron.prev()).toDate();
+    };
+  }
+
+  const excluded = new Set(config.excludedDates);
+  for (let scanned = 0; scanned < MAX_SCANNED_TIMES; scanned += 1) {
+    const time = step();
+    if (!time) {
+      return;
+    }
+    if (!excluded.has(calendarDate(time, config.timezone))) {
+      yield time;
+    }
+  }
+};
+
+export const getNextFireTimes = (config: ScheduleConfig, count: number, from = new Date()): Date[] => {
+  const times: Date[] = [];
+  for (const time of scanFireTimes(config, from, 'next')) {
+    times.push(time);
+    if (times.length >= count) {
+      break;
+    }
+  }
+  return times;
+};
+
+/** The latest `limit` fire times in `(after, until]`, oldest first. */
+export const getFireTimesBetween = (config: ScheduleConfig, after: Date, until: Date, limit: number): Date[] => {
+  const times: Date[] = [];
+  for (const time of scanFireTimes(config, new Date(until.getTime() + 1), 'prev')) {
+    if (time <= after || times.length >= limit) {
+      break;
+    }
+    times.push(time);
+  }
+  return times.reverse();
+};
@@ -1,8 +1,11 @@
 import { Request, Response } from 'express';
+import { trace } from '@opentelemetry/api';
 import { AuthenticatedRequest } from '@/shared/middlewares/auth.middleware';
 import { HttpStatus } from '@/utils/http-status';
 import { findUserById } from '@/features/auth/auth.service';
-import { createTrigger, listTriggers } from './triggers.service';
+import { createTrigger, listTriggers, previewTriggerSchedule, rotateWebhookSecret } from './triggers.service';
+import { claimWebhookReplayKey, releaseWebhookReplayKey, verifyWebhookRequest, WebhookReplayKey } from './webhook-security';
+import { prepareWebhookPayload } from './webhook-payload';
 import { triggerRegistry } from './triggers.registry';
 import { TriggerModel } from './triggers.model';
 import { WorkflowModel } from '@/features/workflows/workflows.model';
@@ -22,15 +25,16 @@ export const createTriggerHandler = async (req: AuthenticatedRequest, res: Respo
     res.status(HttpStatus.NOT_FOUND).json({ message: 'User not found' });
     return;
   }
-  const trigger = await createTrigger({
+  const { trigger, signingSecret } = await createTrigger({
     name: req.body.name,
     type: req.body.type,
     config: req.body.config ?? {},
     connectorId: req.body.connectorId,
+    runOptions: req.body.runOptions,
     organizationId: user.organization.toString(),
     userId: user.id,
   });
-  res.status(HttpStatus.CREATED).json({ trigger });
+  res.status(HttpStatus.CREATED).json({ trigger, signingSecret });
 };
 
 export const listTriggersHandler = async (req: AuthenticatedRequest, res: Response): Promise<void> => {
@@ -47,6 +51,39 @@ export const listTriggersHandler = async (req: AuthenticatedRequest, res: Respon
   res.json({ triggers });
 };
 
+export const previewTriggerHandler = async (req: AuthenticatedRequest, res: Response): Promise<void> => {
+  if (!req.user) {
+    res.status(HttpStatus.UNAUTHORIZED).json({ message: 'Unauthorized' });
+    return;
+  }
+  const user = await findUserById(req.user.id);
+  if (!user) {
+    res.status(HttpStatus.NOT_FOUND).json({ message: 'User not found' });
+    return;
+  }
+  const { triggerId } = req.params as { triggerId: string };
+  const preview = await previewTriggerSchedule(triggerId, user.organization.toString());
+  res.json(preview);
+};
+
+export const rotateWebhookSecretHandler = async (req: AuthenticatedRequest, res: Response): Promise<void> => {
+  if (!req.user) {
+    res.status(HttpStatus.UNAUTHORIZED).json({ message: 'Unauthorized' });
+    return;
+  }
+  const user = await findUserById(req.user.id);
+  if (!user) {
+    res.status(HttpStatus.NOT_FOUND).json({ message: 'User not found' });
+    return;
+  }
+  const { triggerId } = req.params as { triggerId: string };
+  const rotated = await rotateWebhookSecret(triggerId, user.organization.toString(), {
+    overlapSec: req.body.overlapSec,
+    secret: req.body.secret,
+  });
+  res.json(rotated);
+};
+
 export const listTriggerDefinitions = (_req: AuthenticatedRequest, res: Response): void => {
   res.json({ triggers: triggerRegistry });
 };
@@ -92,7 +129,8 @@ const pathsMatch = (changed: string[], filters?: string[]): boolean => {
 
 export const triggerWebhookHandler = async (req: Request, res: Response): Promise<void> => {
   const triggerId = req.params.triggerId;
-  const trigger = await TriggerModel.findById(triggerId);
+  trace.getActiveSpan()?.setAttribute('zecflow.trigger.id', String(triggerId));
+  const trigger = await TriggerModel.findById(triggerId).select('+signingSecrets');
   if (!trigger) {
     res.status(HttpStatus.NOT_FOUND).json({ message: 'Trigger not found' });
     return;
@@ -151,15 +189,24 @@ export const triggerWebhookHandler = async (req: Request, res: Response): Promis
       res.status(HttpStatus.ACCEPTED).json({ message: 'Excluded files changed' });
       return;
     }
-  } else if (trigger.type === 'http-webhook') {
-    const secret = (trigger.config as Record<string, unknown>)?.secret as string | undefined;
-    if (secret) {
-      const provided = req.headers['x-trigger-secret'];
-      if (provided !== secret) {
-        res.status(HttpStatus.FORBIDDEN).json({ message: 'Invalid secret' });
-        return;
-      }
+  }
+
+  let payload: Record<string, unknown> = typeof req.body === 'object' ? req.body : { data: req.body };
+  let replay: WebhookReplayKey | undefined;
+  if (trigger.type === 'http-webhook') {
+    replay = await verifyWebhookRequest(trigger, req);
+    const prepared = prepareWebhookPayload(trigger.config as Record<string, unknown>, req);
+    if (prepared.status === 'rejected') {
+      res.status(HttpStatus.UNPROCESSABLE_ENTITY).json(prepared);
+      return;
+    }
+    if (prepared.status === 'filtered') {
+      res
+        .status(HttpStatus.ACCEPTED)
+        .json({ status: 'filtered', message: 'Payload did not match the trigger filters', filter: prepared.filter });
+      return;
     }
+    payload = prepared.payload;
   }
 
   const workflow = await WorkflowModel.findOne({ trigger: trigger.id, status: 'published' });
@@ -168,16 +215,22 @@ export const triggerWebhookHandler = async (req: Request, res: Response): Promis
     return;
   }
 
+  // Claimed only now, so a delivery that was rejected, filtered or had no workflow can be sent again
+  await claimWebhookReplayKey(replay);
   try {
     const run = await createRun({
       workflowId: workflow.id,
       triggerId: trigger.id,
-      payload: typeof req.body === 'object' ? req.body : { data: req.body },
+      payload,
     });
 
+    trace.getActiveSpan()?.setAttribute('zecflow.run.id', run.id);
     res.json({ runId: run.id, status: 'queued' });
   } catch (error) {
     logger.error({ err: error, triggerId: trigger.id }, 'Failed to enqueue webhook run');
+    await releaseWebhookReplayKey(replay).catch((releaseError) =>
+      logger.warn({ err: releaseError, triggerId: trigger.id }, 'Failed to release webhook replay key'),
+    );
     res.status(HttpStatus.INTERNAL_SERVER_ERROR).json({ message: 'Failed to enqueue run' });
   }
 };
@@ -1,4 +1,6 @@
 import { Schema, model, Document } from 'mongoose';
+import { RunPriority } from '@/features/runs/runs.types';
+import { TriggerFireStatus } from './triggers.types';
 
 export interface TriggerDocument extends Document {
   name: string;
@@ -7,6 +9,24 @@ export interface TriggerDocument extends Document {
   organization: Schema.Types.ObjectId;
   connector?: Schema.Types.ObjectId;
   status: 'active' | 'inactive';
+  /** Applied to every run the trigger starts */
+  runOptions?: {
+    priority?: RunPriority;
+    delayMs?: number;
+  };
+  /** Outcome of the latest schedule or poll tick */
+  lastFire?: {
+    at: Date;
+    status: TriggerFireStatus;
+    runs: number;
+    error?: string;
+  };
+  /** HMAC keys of an `http-webhook` trigger, encrypted; older ones stay valid until `expiresAt` */
+  signingSecrets?: {
+    secret: string;
+    createdAt: Date;
+    expiresAt?: Date;
+  }[];
   createdBy: Schema.Types.ObjectId;
 }
 
@@ -18,6 +38,23 @@ const triggerSchema = new Schema<TriggerDocument>(
     organization: { type: Schema.Types.ObjectId, ref: 'Organization', required: true },
     connector: { type: Schema.Types.ObjectId, ref: 'Connector' },
     status: { type: String, enum: ['active', 'inactive'], default: 'inactive' },
+    runOptions: {
+      _id: false,
+      priority: { type: String, enum: ['high', 'normal', 'low'] },
+      delayMs: { type: Number, min: 0 },
+    },
+    lastFire: {
+      _id: false,
+      at: Date,
+      status: { type: String, enum: ['fired', 'idle', 'failed'] },
+      runs: Number,
+      error: String,
+    },
+    signingSecrets: {
+      type: [{ _id: false, secret: { type: String, required: true }, createdAt: Date, expiresAt: Date }],
+      default: undefined,
+      select: false,
+    },
     createdBy: { type: Schema.Types.ObjectId, ref: 'User', required: true },
   },
   { timestamps: true },
@@ -1,4 +1,7 @@
 import { z } from 'zod';
+import { scheduleConfigSchema } from './trigger-schedule';
+import { webhookConfigSchema } from './webhook-security';
+import { webhookPayloadConfigSchema } from './webhook-payload';
 
 export interface TriggerDefinition {
   id: string;
@@ -14,10 +17,7 @@ export const triggerRegistry: TriggerDefinition[] = [
     name: 'HTTP Webhook',
     description: 'Fire workflow when inbound webhook receives payload',
     category: 'webhook',
-    configSchema: z.object({
-      secret: z.string().optional(),
-      path: z.string().min(1),
-    }),
+    configSchema: webhookConfigSchema.extend(webhookPayloadConfigSchema.shape),
   },
   {
     id: 'zcash-transaction',
@@ -36,7 +36,7 @@ export const triggerRegistry: TriggerDefinition[] = [
     name: 'Scheduler',
     description: 'Execute at cron or interval schedule',
     category: 'schedule',
-    configSchema: z.object({ expression: z.string().min(1) }),
+    configSchema: scheduleConfigSchema,
   },
   {
     id: 'twitter-post',
@@ -1,11 +1,14 @@
 import { Router } from 'express';
 import { authenticate } from '@/shared/middlewares/auth.middleware';
 import { validate } from '@/shared/middlewares/validation.middleware';
-import { createTriggerSchema } from './triggers.schema';
+import { traceRequest } from '@/shared/middlewares/tracing.middleware';
+import { createTriggerSchema, rotateWebhookSecretSchema, triggerIdSchema } from './triggers.schema';
 import {
   createTriggerHandler,
   listTriggersHandler,
   listTriggerDefinitions,
+  previewTriggerHandler,
+  rotateWebhookSecretHandler,
   triggerWebhookHandler,
   testTriggerHandler,
 } from './triggers.controller';
@@ -15,7 +18,9 @@ const router = Router();
 router.get('/definitions', authenticate, listTriggerDefinitions);
 router.get('/', authenticate, listTriggersHandler);
 router.post('/', authenticate, validate(createTriggerSchema), createTriggerHandler);
+router.get('/:triggerId/preview', authenticate, validate(triggerIdSchema), previewTriggerHandler);
 router.post('/:triggerId/test', authenticate, testTriggerHandler);
-router.post('/hooks/:triggerId', triggerWebhookHandler);
+router.post('/:triggerId/rotate-secret', authenticate, validate(rotateWebhookSecretSchema), rotateWebhookSecretHandler);
+router.post('/hooks/:triggerId', traceRequest('trigger.webhook'), triggerWebhookHandler);
 
 export default router;
@@ -1,4 +1,5 @@
 import { z } from 'zod';
+import { runPrioritySchema } from '@/features/runs/runs.schema';
 
 export const createTriggerSchema = z.object({
   body: z.object({
@@ -6,5 +7,23 @@ export const createTriggerSchema = z.object({
     type: z.string().min(1),
     config: z.record(z.string(), z.any()).default({}),
     connectorId: z.string().optional(),
+    runOptions: z
+      .object({
+        priority: runPrioritySchema.optional(),
+        delayMs: z.number().int().min(0).optional(),
+      })
+      .optional(),
+  }),
+});
+
+export const triggerIdSchema = z.object({
+  params: z.object({ triggerId: z.string().min(1) }),
+});
+
+export const rotateWebhookSecretSchema = z.object({
+  params: z.object({ triggerId: z.string().min(1) }),
+  body: z.object({
+    overlapSec: z.number().int().min(0).max(30 * 24 * 60 * 60).optional(),
+    secret: z.string().min(16).optional(),
   }),
 });
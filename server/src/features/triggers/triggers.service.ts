@@ -1,16 +1,23 @@
-import { TriggerModel } from './triggers.model';
+import { TriggerModel, TriggerDocument } from './triggers.model';
+import { TriggerFireStatus } from './triggers.types';
 import { getTriggerDefinition } from './triggers.registry';
+import { getNextFireTimes, scheduleConfigSchema } from './trigger-schedule';
+import { generateSigningSecret } from './webhook-security';
 import { AppError } from '@/shared/errors/app-error';
 import { HttpStatus } from '@/utils/http-status';
 import { ConnectorModel } from '@/features/connectors/connectors.model';
+import { WorkflowModel } from '@/features/workflows/workflows.model';
+import { getTriggerNextFireAt } from '@/queues/trigger-queue';
 import { registerGithubWebhook } from '@/shared/services/github-webhook.service';
 import { decryptConnectorConfig } from '@/features/connectors/connectors.security';
+import { encryptValue } from '@/shared/services/encryption.service';
 
 interface CreateTriggerInput {
   name: string;
   type: string;
   connectorId?: string;
   config: Record<string, unknown>;
+  runOptions?: TriggerDocument['runOptions'];
   organizationId: string;
   userId: string;
 }
@@ -53,11 +60,16 @@ export const createTrigger = async (input: CreateTriggerInput) => {
     }
   }
 
+  // Shown once in the response; afterwards only a rotation reveals a new one
+  const signingSecret = definition.id === 'http-webhook' && parsedConfig.signature ? generateSigningSecret() : undefined;
+
   const trigger = await TriggerModel.create({
     name: input.name,
     type: input.type,
     config: parsedConfig,
     connector: input.connectorId,
+    runOptions: input.runOptions,
+    signingSecrets: signingSecret ? [{ secret: encryptValue(signingSecret), createdAt: new Date() }] : undefined,
     organization: input.organizationId,
     createdBy: input.userId,
     status: 'active',
@@ -67,9 +79,103 @@ export const createTrigger = async (input: CreateTriggerInput) => {
     await registerGithubWebhook(trigger.id, connector);
   }
 
-  return trigger;
+  const { signingSecrets: _signingSecrets, ...created } = trigger.toObject();
+  return { trigger: created, signingSecret };
+};
+
+/** Each trigger with when its repeatable job fires next and how its latest tick went. */
+export const listTriggers = async (organizationId: string) => {
+  const triggers = await TriggerModel.find({ organization: organizationId }).lean();
+  const workflows = await WorkflowModel.find({
+    organization: organizationId,
+    status: 'published',
+    trigger: { $in: triggers.map((trigger) => trigger._id) },
+  })
+    .select('trigger')
+    .lean();
+
+  const nextFireAt = new Map<string, Date>();
+  for (const workflow of workflows) {
+    const next = await getTriggerNextFireAt(String(workflow._id));
+    const triggerId = String(workflow.trigger);
+    const current = nextFireAt.get(triggerId);
+    if (next && (!current || next < current)) {
+      nextFireAt.set(triggerId, next);
+    }
+  }
+
+  return triggers.map((trigger) => ({
+    ...trigger,
+    nextFireAt: nextFireAt.get(String(trigger._id)) ?? null,
+    lastFire: trigger.lastFire ?? null,
+  }));
+};
+
+export const recordTriggerFire = async (
+  triggerId: string,
+  result: { status: TriggerFireStatus; runs: number; error?: string },
+): Promise<void> => {
+  await TriggerModel.updateOne({ _id: triggerId }, { $set: { lastFire: { at: new Date(), ...result } } });
 };
 
-export const listTriggers = (organizationId: string) => {
-  return TriggerModel.find({ organization: organizationId }).lean();
+const PREVIEW_FIRE_TIMES = 10;
+
+export const previewTriggerSchedule = async (triggerId: string, organizationId: string) => {
+  const trigger = await TriggerModel.findById(triggerId).lean();
+  if (!trigger || trigger.organization.toString() !== organizationId) {
+    throw new AppError('Trigger not found', HttpStatus.NOT_FOUND);
+  }
+  if (trigger.type !== 'schedule') {
+    throw new AppError('Only schedule triggers can be previewed', HttpStatus.BAD_REQUEST);
+  }
+  const schedule = scheduleConfigSchema.safeParse(trigger.config ?? {});
+  if (!schedule.success) {
+    throw new AppError('Schedule trigger config is invalid', HttpStatus.BAD_REQUEST);
+  }
+  return {
+    timezone: schedule.data.timezone ?? null,
+    fireTimes: getNextFireTimes(schedule.data, PREVIEW_FIRE_TIMES),
+  };
+};
+
+const DEFAULT_SECRET_OVERLAP_SEC = 24 * 60 * 60;
+
+interface RotateWebhookSecretInput {
+  /** How long the current secrets keep working next to the new one */
+  overlapSec?: number;
+  /** Use this secret instead of generating one, e.g. when the sender issues it */
+  secret?: string;
+}
+
+export const rotateWebhookSecret = async (triggerId: string, organizationId: string, input: RotateWebhookSecretInput) => {
+  const trigger = await TriggerModel.findById(triggerId).select('+signingSecrets');
+  if (!trigger || trigger.organization.toString() !== organizationId) {
+    throw new AppError('Trigger not found', HttpStatus.NOT_FOUND);
+  }
+  if (trigger.type !== 'http-webhook') {
+    throw new AppError('Only HTTP webhook triggers have signing secrets', HttpStatus.BAD_REQUEST);
+  }
+
+  const now = new Date();
+  const overlapSec = input.overlapSec ?? DEFAULT_SECRET_OVERLAP_SEC;
+  const overlapUntil = new Date(now.getTime() + overlapSec * 1000);
+  const previous =
+    overlapSec > 0
+      ? (trigger.signingSecrets ?? [])
+          .filter((entry) => !entry.expiresAt || entry.expiresAt > now)
+          .map((entry) => ({
+            secret: entry.secret,
+            createdAt: entry.createdAt,
+            expiresAt: entry.expiresAt && entry.expiresAt < overlapUntil ? entry.expiresAt : overlapUntil,
+          }))
+      : [];
+
+  const secret = input.secret ?? generateSigningSecret();
+  trigger.signingSecrets = [{ secret: encryptValue(secret), createdAt: now }, ...previous];
+  await trigger.save();
+
+  return {
+    secret,
+    previousSecretsExpireAt: previous.length ? overlapUntil : null,
+  };
 };
@@ -2,3 +2,6 @@ export interface TriggerPayload {
   triggerId: string;
   data: Record<string, unknown>;
 }
+
+/** `idle` means the tick ran but found nothing to start a run for */
+export type TriggerFireStatus = 'fired' | 'idle' | 'failed';
@@ -0,0 +1,60 @@
+import { Request } from 'express';
+import { describe, expect, it } from 'vitest';
+import { prepareWebhookPayload } from './webhook-payload';
+
+const makeRequest = (body: unknown, headers: Record<string, string> = {}, query: Record<string, string> = {}): Request =>
+  ({ body, headers, query }) as unknown as Request;
+
+describe('prepareWebhookPayload', () => {
+  it('passes the body through when nothing is configured', () => {
+    expect(prepareWebhookPayload({}, makeRequest({ amount: 5 }))).toEqual({ status: 'accepted', payload: { amount: 5 } });
+    expect(prepareWebhookPayload({}, makeRequest('ping'))).toEqual({ status: 'accepted', payload: { data: 'ping' } });
+  });
+
+  it('rejects a body that fails the schema', () => {
+    const config = { payloadSchema: { type: 'object', required: ['amount'] } };
+
+    expect(prepareWebhookPayload(config, makeRequest({}))).toMatchObject({
+      status: 'rejected',
+      errors: [{ path: '/', message: "must have required property 'amount'" }],
+    });
+  });
+
+  it('names the first filter that does not match', () => {
+    const config = { filters: ["body.event == 'paid'", 'body.amount > 100'] };
+
+    expect(prepareWebhookPayload(config, makeRequest({ event: 'paid', amount: 500 })).status).toBe('accepted');
+    expect(prepareWebhookPayload(config, makeRequest({ event: 'paid', amount: 50 }))).toEqual({
+      status: 'filtered',
+      filter: 'body.amount > 100',
+    });
+  });
+
+  it('treats a filter that cannot be evaluated as not matching', () => {
+    const config = { filters: ['body.amount > 100'] };
+
+    expect(prepareWebhookPayload(config, makeRequest({ event: 'paid' }))).toEqual({
+      status: 'filtered',
+      filter: 'body.amount > 100',
+    });
+  });
+
+  it('builds the payload from the mapping', () => {
+    const config = { mapping: { orderId: 'body.order.id', source: 'headers.x-source', large: 'body.amount > 100' } };
+    const req = makeRequest({ order: { id: 'o-1' }, amount: 500 }, { 'x-source': 'shop' });
+
+    expect(prepareWebhookPayload(config, req)).toEqual({
+      status: 'accepted',
+      payload: { orderId: 'o-1', source: 'shop', large: true },
+    });
+  });
+
+  it('rejects a request a mapping expression cannot be evaluated against', () => {
+    const config = { mapping: { large: 'body.amount > 100' } };
+
+    expect(prepareWebhookPayload(config, makeRequest({}))).toEqual({
+      status: 'rejected',
+      message: "Cannot compare undefined with number using '>'",
+    });
+  });
+});
@@ -0,0 +1,106 @@
+import Ajv, { ValidateFunction } from 'ajv';
+import { Request } from 'express';
+import { z } from 'zod';
+import { evaluateExpression, parseExpression, resolvePath } from '@/features/workflows/workflows.expressions';
+
+// A filter that cannot be evaluated against this request (e.g. it compares a missing field) does not match it
+const matches = (filter: string, scope: Record<string, unknown>): boolean => {
+  try {
+    return Boolean(evaluateExpression(filter, scope));
+  } catch {
+    return false;
+  }
+};
+
+const parses = (source: string): boolean => {
+  try {
+    parseExpression(source);
+    return true;
+  } catch {
+    return false;
+  }
+};
+
+// A fresh Ajv per schema, so two triggers' schemas sharing an `$id` do not collide
+const compileSchema = (schema: Record<string, unknown>): ValidateFunction =>
+  new Ajv({ allErrors: true, strict: false }).compile(schema);
+
+const compiles = (schema: Record<string, unknown>): boolean => {
+  try {
+    compileSchema(schema);
+    return true;
+  } catch {
+    return false;
+  }
+};
+
+const expressionSchema = z.string().min(1).refine(parses, { message: 'Invalid expression' });
+
+export const webhookPayloadConfigSchema = z.object({
+  /** JSON Schema the request body must satisfy */
+  payloadSchema: z.record(z.string(), z.unknown()).refine(compiles, { message: 'Invalid JSON Schema' }).optional(),
+  /** Expressions over `body`, `headers` and `query`; the run starts only when all are truthy */
+  filters: z.array(expressionSchema).default([]),
+  /** Run payload field to the path or expression that fills it; the whole body when unset */
+  mapping: z.record(z.string(), expressionSchema).optional(),
+});
+
+export type WebhookPayloadResult =
+  | { status: 'accepted'; payload: Record<string, unknown> }
+  | { status: 'filtered'; filter: string }
+  | { status: 'rejected'; message: string; errors?: { path: string; message: string }[] };
+
+const MAX_CACHED_VALIDATORS = 200;
+const validators = new Map<string, ValidateFunction>();
+
+const getValidator = (schema: Record<string, unknown>): ValidateFunction => {
+  const key = JSON.stringify(schema);
+  let validate = validators.get(key);
+  if (!validate) {
+    validate = compileSchema(schema);
+    if (validators.size >= MAX_CACHED_VALIDATORS) {
+      validators.delete(validators.keys().next().value as string);
+    }
+    validators.set(key, validate);
+  }
+  return validate;
+};
+
+/** Validate, filter and reshape an `http-webhook` request into the payload of its run. */
+export const prepareWebhookPayload = (config: Record<string, unknown>, req: Request): WebhookPayloadResult => {
+  const { payloadSchema, filters, mapping } = webhookPayloadConfigSchema.parse(config);
+  const body: unknown = req.body;
+
+  if (payloadSchema) {
+    const validate = getValidator(payloadSchema);
+    if (!validate(body)) {
+      return {
+        status: 'rejected',
+        message: 'Payload does not match the trigger schema',
+        errors: (validate.errors ?? []).map((error) => ({
+          path: error.instancePath || '/',
+          message: error.message ?? 'is invalid',
+        })),
+      };
+    }
+  }
+
+  const scope = { body, headers: req.headers, query: req.query };
+  const failed = filters.find((filter) => !matches(filter, scope));
+  if (failed) {
+    return { status: 'filtered', filter: failed };
+  }
+
+  if (!mapping) {
+    return { status: 'accepted', payload: body && typeof body === 'object' ? (body as Record<string, unknown>) : { data: body } };
+  }
+  try {
+    const payload: Record<string, unknown> = {};
+    for (const [field, source] of Object.entries(mapping)) {
+      payload[field] = resolvePath(source, scope);
+    }
+    return { status: 'accepted', payload };
+  } catch (error) {
+    return { status: 'rejected', message: error instanceof Error ? error.message : String(error) };
+  }
+};
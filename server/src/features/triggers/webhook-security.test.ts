@@ -0,0 +1,212 @@
+import crypto from 'crypto';
+import { Request } from 'express';
+import { beforeEach, describe, expect, it, vi } from 'vitest';
+import { encryptValue } from '@/shared/services/encryption.service';
+import { TriggerDocument } from './triggers.model';
+import {
+  claimWebhookReplayKey,
+  isIpAllowed,
+  releaseWebhookReplayKey,
+  verifyWebhookRequest,
+  webhookConfigSchema,
+} from './webhook-security';
+
+const replayKeys = vi.hoisted(() => new Set<string>());
+
+vi.mock('ioredis', () => ({
+  default: class {
+    async set(key: string) {
+      if (replayKeys.has(key)) return null;
+      replayKeys.add(key);
+      return 'OK';
+    }
+    async del(key: string) {
+      return replayKeys.delete(key) ? 1 : 0;
+    }
+  },
+}));
+
+const SECRET = 'whsec_current';
+const body = Buffer.from('{"event":"paid","amount":5}');
+
+const sign = (secret: string, payload: string | Buffer, encoding: 'hex' | 'base64' = 'hex') =>
+  crypto.createHmac('sha256', secret).update(payload).digest(encoding);
+
+const makeTrigger = (
+  config: Record<string, unknown>,
+  secrets: { secret: string; expiresAt?: Date }[] = [{ secret: SECRET }],
+): TriggerDocument =>
+  ({
+    id: crypto.randomUUID(),
+    config: { path: 'orders', ...config },
+    signingSecrets: secrets.map(({ secret, expiresAt }) => ({ secret: encryptValue(secret), createdAt: new Date(), expiresAt })),
+  }) as unknown as TriggerDocument;
+
+const makeRequest = (headers: Record<string, string>, ip = '203.0.113.10', rawBody: Buffer = body): Request => {
+  const lower = Object.fromEntries(Object.entries(headers).map(([name, value]) => [name.toLowerCase(), value]));
+  return { ip, rawBody, get: (name: string) => lower[name.toLowerCase()] } as unknown as Request;
+};
+
+const rejectsWith = (promise: Promise<unknown>, message: string, statusCode = 403) =>
+  expect(promise).rejects.toMatchObject({ message, statusCode });
+
+beforeEach(() => {
+  replayKeys.clear();
+});
+
+describe('webhookConfigSchema', () => {
+  it('accepts addresses and CIDR ranges', () => {
+    const config = webhookConfigSchema.parse({ path: 'x', allowedIps: ['10.0.0.1', '10.0.0.0/8', '2001:db8::/32'] });
+    expect(config.allowedIps).toHaveLength(3);
+  });
+
+  it.each(['10.0.0.0/33', 'example.com', '10.0.0.1/8/1', '2001:db8::/129'])('rejects %s', (entry) => {
+    expect(webhookConfigSchema.safeParse({ path: 'x', allowedIps: [entry] }).success).toBe(false);
+  });
+});
+
+describe('isIpAllowed', () => {
+  const cidrs = ['10.1.0.0/16', '192.0.2.7', '2001:db8::/32'];
+
+  it.each([
+    ['10.1.200.3', true],
+    ['10.2.0.1', false],
+    ['192.0.2.7', true],
+    ['192.0.2.8', false],
+    ['::ffff:10.1.0.9', true],
+    ['2001:db8:1::5', true],
+    ['2001:db9::1', false],
+    ['not-an-ip', false],
+    [undefined, false],
+  ])('%s -> %s', (ip, allowed) => {
+    expect(isIpAllowed(ip, cidrs)).toBe(allowed);
+  });
+});
+
+describe('verifyWebhookRequest', () => {
+  it('accepts anything when nothing is configured', async () => {
+    await expect(verifyWebhookRequest(makeTrigger({}), makeRequest({}))).resolves.toBeUndefined();
+  });
+
+  it('enforces the IP allowlist before anything else', async () => {
+    const trigger = makeTrigger({ allowedIps: ['198.51.100.0/24'], secret: 'shared' });
+    await rejectsWith(verifyWebhookRequest(trigger, makeRequest({}, '203.0.113.10')), 'Source IP not allowed');
+    await expect(verifyWebhookRequest(trigger, makeRequest({ 'x-trigger-secret': 'shared' }, '198.51.100.4'))).resolves.toBeUndefined();
+  });
+
+  it('checks the shared secret', async () => {
+    const trigger = makeTrigger({ secret: 'shared' });
+    await rejectsWith(verifyWebhookRequest(trigger, makeRequest({})), 'Invalid secret');
+    await rejectsWith(verifyWebhookRequest(trigger, makeRequest({ 'x-trigger-secret': 'other' })), 'Invalid secret');
+    await expect(verifyWebhookRequest(trigger, makeRequest({ 'x-trigger-secret': 'shared' }))).resolves.toBeUndefined();
+  });
+
+  describe('signatures', () => {
+    it('accepts a hex HMAC of the raw body', async () => {
+      const trigger = makeTrigger({ signature: {} });
+      await expect(verifyWebhookRequest(trigger, makeRequest({ 'X-Signature': sign(SECRET, body) }))).resolves.toBeUndefined();
+    });
+
+    it('rejects a missing or wrong signature', async () => {
+      const trigger = makeTrigger({ signature: {} });
+      await rejectsWith(verifyWebhookRequest(trigger, makeRequest({})), 'Signature missing');
+      await rejectsWith(verifyWebhookRequest(trigger, makeRequest({ 'x-signature': sign('whsec_other', body) })), 'Invalid signature');
+      await rejectsWith(verifyWebhookRequest(trigger, makeRequest({ 'x-signature': 'not-hex' })), 'Invalid signature');
+    });
+
+    it('rejects a signature over a different body', async () => {
+      const trigger = makeTrigger({ signature: {} });
+      const tampered = Buffer.from('{"event":"paid","amount":500}');
+      await rejectsWith(
+        verifyWebhookRequest(trigger, makeRequest({ 'x-signature': sign(SECRET, body) }, undefined, tampered)),
+        'Invalid signature',
+      );
+    });
+
+    it('honours the configured header, prefix and base64 scheme', async () => {
+      const trigger = makeTrigger({ signature: { header: 'x-hub-signature-256', prefix: 'sha256=', scheme: 'base64' } });
+      const header = `sha256=${sign(SECRET, body, 'base64')}`;
+      await expect(verifyWebhookRequest(trigger, makeRequest({ 'x-hub-signature-256': header }))).resolves.toBeUndefined();
+      await rejectsWith(
+        verifyWebhookRequest(trigger, makeRequest({ 'x-hub-signature-256': `sha256=${sign(SECRET, body)}` })),
+        'Invalid signature',
+      );
+    });
+
+    it('accepts any secret still inside its rotation window', async () => {
+      const trigger = makeTrigger({ signature: {} }, [
+        { secret: SECRET },
+        { secret: 'whsec_previous', expiresAt: new Date(Date.now() + 60_000) },
+        { secret: 'whsec_retired', expiresAt: new Date(Date.now() - 60_000) },
+      ]);
+      await expect(verifyWebhookRequest(trigger, makeRequest({ 'x-signature': sign('whsec_previous', body) }))).resolves.toBeUndefined();
+      await rejectsWith(verifyWebhookRequest(trigger, makeRequest({ 'x-signature': sign('whsec_retired', body) })), 'Invalid signature');
+    });
+  });
+
+  describe('timestamps and replays', () => {
+    const config = { signature: { timestampHeader: 'x-timestamp', toleranceSec: 300 } };
+    const signedAt = (seconds: number) => {
+      const timestamp = String(seconds);
+      return { 'x-timestamp': timestamp, 'x-signature': sign(SECRET, Buffer.concat([Buffer.from(`${timestamp}.`), body])) };
+    };
+    const nowSec = () => Math.floor(Date.now() / 1000);
+
+    it('accepts a signed timestamp inside the tolerance, in seconds or milliseconds', async () => {
+      await expect(verifyWebhookRequest(makeTrigger(config), makeRequest(signedAt(nowSec() - 60)))).resolves.toBeDefined();
+      await expect(verifyWebhookRequest(makeTrigger(config), makeRequest(signedAt(Date.now())))).resolves.toBeDefined();
+    });
+
+    it('rejects a missing or stale timestamp', async () => {
+      const trigger = makeTrigger(config);
+      await rejectsWith(verifyWebhookRequest(trigger, makeRequest({ 'x-signature': sign(SECRET, body) })), 'Timestamp missing');
+      await rejectsWith(verifyWebhookRequest(trigger, makeRequest(signedAt(nowSec() - 301))), 'Timestamp outside tolerance');
+      await rejectsWith(verifyWebhookRequest(trigger, makeRequest(signedAt(nowSec() + 301))), 'Timestamp outside tolerance');
+    });
+
+    it('rejects a timestamp swapped onto a captured signature', async () => {
+      const headers = { ...signedAt(nowSec() - 200), 'x-timestamp': String(nowSec()) };
+      await rejectsWith(verifyWebhookRequest(makeTrigger(config), makeRequest(headers)), 'Invalid signature');
+    });
+
+    const accept = async (trigger: TriggerDocument, headers: Record<string, string>) =>
+      claimWebhookReplayKey(await verifyWebhookRequest(trigger, makeRequest(headers)));
+
+    it('accepts the same signed request only once', async () => {
+      const trigger = makeTrigger(config);
+      const headers = signedAt(nowSec());
+      await expect(accept(trigger, headers)).resolves.toBeUndefined();
+      await rejectsWith(accept(trigger, headers), 'Request already received', 409);
+    });
+
+    it('does not use up a delivery until its replay key is claimed', async () => {
+      const trigger = makeTrigger(config);
+      const headers = signedAt(nowSec());
+      const replay = await verifyWebhookRequest(trigger, makeRequest(headers));
+      expect(replay).toEqual({ key: expect.stringMatching(`^webhook-replay:${trigger.id}:`), ttlMs: 600_000 });
+      await expect(verifyWebhookRequest(trigger, makeRequest(headers))).resolves.toEqual(replay);
+      expect(replayKeys.size).toBe(0);
+    });
+
+    it('accepts a delivery again once its key is released', async () => {
+      const trigger = makeTrigger(config);
+      const replay = await verifyWebhookRequest(trigger, makeRequest(signedAt(nowSec())));
+      await claimWebhookReplayKey(replay);
+      await releaseWebhookReplayKey(replay);
+      await expect(claimWebhookReplayKey(replay)).resolves.toBeUndefined();
+    });
+
+    it('tracks replays per nonce when one is configured', async () => {
+      const trigger = makeTrigger({ signature: { nonceHeader: 'x-nonce' } });
+      const signedWith = (nonce: string) => ({
+        'x-nonce': nonce,
+        'x-signature': sign(SECRET, Buffer.concat([Buffer.from(`${nonce}.`), body])),
+      });
+
+      await rejectsWith(verifyWebhookRequest(trigger, makeRequest({ 'x-signature': sign(SECRET, body) })), 'Nonce missing');
+      await expect(accept(trigger, signedWith('n-1'))).resolves.toBeUndefined();
+      await expect(accept(trigger, signedWith('n-2'))).resolves.toBeUndefined();
+      await rejectsWith(accept(trigger, signedWith('n-1')), 'Request already received', 409);
+    });
+  });
+});
@@ -0,0 +1,203 @@
+import crypto from 'crypto';
+import { BlockList, isIP } from 'net';
+import { Request } from 'express';
+import IORedis from 'ioredis';
+import { z } from 'zod';
+import { envConfig } from '@/config/env';
+import { AppError } from '@/shared/errors/app-error';
+import { decryptValue } from '@/shared/services/encryption.service';
+import { HttpStatus } from '@/utils/http-status';
+import { TriggerDocument } from './triggers.model';
+
+const isCidr = (value: string): boolean => {
+  const [address, prefix, ...rest] = value.split('/');
+  const version = isIP(address);
+  if (!version || rest.length) {
+    return false;
+  }
+  if (prefix === undefined) {
+    return true;
+  }
+  const bits = Number(prefix);
+  return Number.isInteger(bits) && bits >= 0 && bits <= (version === 4 ? 32 : 128);
+};
+
+export const webhookSignatureSchema = z.object({
+  header: z.string().min(1).default('x-signature'),
+  /** How the digest is written in the header */
+  scheme: z.enum(['hex', 'base64']).default('hex'),
+  /** Stripped from the header value before comparing, e.g. `sha256=` */
+  prefix: z.string().default(''),
+  timestampHeader: z.string().min(1).optional(),
+  toleranceSec: z.number().int().min(1).max(3600).default(300),
+  nonceHeader: z.string().min(1).optional(),
+});
+
+export const webhookConfigSchema = z.object({
+  path: z.string().min(1),
+  /** Shared secret sent as-is in `x-trigger-secret` */
+  secret: z.string().optional(),
+  signature: webhookSignatureSchema.optional(),
+  allowedIps: z.array(z.string().refine(isCidr, { message: 'Expected an IP address or CIDR range' })).default([]),
+});
+
+export const generateSigningSecret = (): string => `whsec_${crypto.randomBytes(32).toString('hex')}`;
+
+const redisUrl = envConfig.QUEUE_REDIS_URL ?? 'redis://127.0.0.1:6379';
+let redis: IORedis | undefined;
+
+const getRedis = () => {
+  if (!redis) {
+    redis = new IORedis(redisUrl, { maxRetriesPerRequest: null });
+  }
+  return redis;
+};
+
+/** Compare without leaking where the values differ; hashing first hides their lengths too. */
+const safeEqual = (provided: string, expected: string): boolean => {
+  const digest = (value: string) => crypto.createHash('sha256').update(value).digest();
+  return crypto.timingSafeEqual(digest(provided), digest(expected));
+};
+
+const normalizeIp = (ip: string): string => (ip.startsWith('::ffff:') && isIP(ip.slice(7)) === 4 ? ip.slice(7) : ip);
+
+export const isIpAllowed = (ip: string | undefined, cidrs: string[]): boolean => {
+  if (!ip) {
+    return false;
+  }
+  const address = normalizeIp(ip);
+  const version = isIP(address);
+  if (!version) {
+    return false;
+  }
+  const list = new BlockList();
+  for (const cidr of cidrs) {
+    const [network, prefix] = cidr.split('/');
+    const type = isIP(network) === 6 ? 'ipv6' : 'ipv4';
+    if (prefix === undefined) {
+      list.addAddress(normalizeIp(network), type);
+    } else {
+      list.addSubnet(network, Number(prefix), type);
+    }
+  }
+  return list.check(address, version === 6 ? 'ipv6' : 'ipv4');
+};
+
+/** Unix seconds or milliseconds */
+const parseTimestamp = (value: string): number => {
+  const numeric = Number(value);
+  if (!Number.isFinite(numeric) || numeric <= 0) {
+    return Number.NaN;
+  }
+  return numeric > 1e12 ? numeric : numeric * 1000;
+};
+
+const decodeSignature = (value: string, scheme: 'hex' | 'base64'): Buffer =>
+  scheme === 'hex' ? Buffer.from(/^[0-9a-f]+$/i.test(value) ? value : '', 'hex') : Buffer.from(value, 'base64');
+
+const activeSecrets = (trigger: TriggerDocument, now: number): string[] =>
+  (trigger.signingSecrets ?? [])
+    .filter((entry) => !entry.expiresAt || entry.expiresAt.getTime() > now)
+    .map((entry) => decryptValue(entry.secret));
+
+/** Identifies one signed delivery, so the same request is only accepted once. */
+export interface WebhookReplayKey {
+  key: string;
+  ttlMs: number;
+}
+
+/**
+ * Check an inbound request against the `http-webhook` trigger's allowlist, shared secret and
+ * signature settings. Expects the trigger loaded with its `signingSecrets`. Returns the replay key
+ * of a request signed with a timestamp or nonce; it is claimed only once the request is accepted.
+ */
+export const verifyWebhookRequest = async (trigger: TriggerDocument, req: Request): Promise<WebhookReplayKey | undefined> => {
+  const config = webhookConfigSchema.parse(trigger.config ?? {});
+
+  if (config.allowedIps.length && !isIpAllowed(req.ip, config.allowedIps)) {
+    throw new AppError('Source IP not allowed', HttpStatus.FORBIDDEN);
+  }
+
+  if (config.secret) {
+    const provided = req.get('x-trigger-secret');
+    if (!provided || !safeEqual(provided, config.secret)) {
+      throw new AppError('Invalid secret', HttpStatus.FORBIDDEN);
+    }
+  }
+
+  const signature = config.signature;
+  if (!signature) {
+    return undefined;
+  }
+
+  const header = req.get(signature.header);
+  if (!header) {
+    throw new AppError('Signature missing', HttpStatus.FORBIDDEN);
+  }
+
+  const now = Date.now();
+  let timestamp: string | undefined;
+  if (signature.timestampHeader) {
+    timestamp = req.get(signature.timestampHeader);
+    const sentAt = timestamp ? parseTimestamp(timestamp) : Number.NaN;
+    if (Number.isNaN(sentAt)) {
+      throw new AppError('Timestamp missing', HttpStatus.FORBIDDEN);
+    }
+    if (Math.abs(now - sentAt) > signature.toleranceSec * 1000) {
+      throw new AppError('Timestamp outside tolerance', HttpStatus.FORBIDDEN);
+    }
+  }
+
+  let nonce: string | undefined;
+  if (signature.nonceHeader) {
+    nonce = req.get(signature.nonceHeader);
+    if (!nonce) {
+      throw new AppError('Nonce missing', HttpStatus.FORBIDDEN);
+    }
+  }
+
+  // The timestamp and nonce are signed with the body so neither can be swapped on a captured request
+  const signed = Buffer.concat([
+    ...[timestamp, nonce].filter((part) => part !== undefined).map((part) => Buffer.from(`${part}.`)),
+    req.rawBody ?? Buffer.alloc(0),
+  ]);
+  const provided = decodeSignature(
+    header.startsWith(signature.prefix) ? header.slice(signature.prefix.length) : header,
+    signature.scheme,
+  );
+  const matches = activeSecrets(trigger, now).some((secret) => {
+    const expected = crypto.createHmac('sha256', secret).update(signed).digest();
+    return provided.length === expected.length && crypto.timingSafeEqual(provided, expected);
+  });
+  if (!matches) {
+    throw new AppError('Invalid signature', HttpStatus.FORBIDDEN);
+  }
+
+  if (timestamp === undefined && nonce === undefined) {
+    return undefined;
+  }
+  // Remembered for the whole window on either side of now, after which the timestamp check rejects it
+  const replayKey = crypto
+    .createHash('sha256')
+    .update(nonce ?? header)
+    .digest('hex');
+  return { key: `webhook-replay:${trigger.id}:${replayKey}`, ttlMs: signature.toleranceSec * 2000 };
+};
+
+/** Record a delivery as received; throws when the same signed request was already accepted. */
+export const claimWebhookReplayKey = async (replay: WebhookReplayKey | undefined): Promise<void> => {
+  if (!replay) {
+    return;
+  }
+  const stored = await getRedis().set(replay.key, '1', 'PX', replay.ttlMs, 'NX');
+  if (stored !== 'OK') {
+    throw new AppError('Request already received', HttpStatus.CONFLICT);
+  }
+};
+
+/** Forget a claimed delivery whose run could not be queued, so the sender's retry is accepted. */
+export const releaseWebhookReplayKey = async (replay: WebhookReplayKey | undefined): Promise<void> => {
+  if (replay) {
+    await getRedis().del(replay.key);
+  }
+};
@@ -0,0 +1,63 @@
+import { Schema, model, Document } from 'mongoose';
+import { WorkflowGraph } from './workflows.types';
+
+export interface WorkflowVersionBlock {
+  id: string;
+  type: string;
+  config: Record<string, unknown>;
+  position?: { x: number; y: number };
+  order: number;
+  alias?: string;
+  dependencies: Array<{ source: string; targetHandle?: string; sourceHandle?: string }>;
+  connector?: string;
+}
+
+export interface WorkflowVersionDocument extends Document {
+  workflow: Schema.Types.ObjectId;
+  organization: Schema.Types.ObjectId;
+  version: number;
+  name: string;
+  description?: string;
+  graph: WorkflowGraph;
+  blocks: WorkflowVersionBlock[];
+  trigger?: Schema.Types.ObjectId;
+  dataset?: Schema.Types.ObjectId;
+  publishedBy?: Schema.Types.ObjectId;
+  /** Set when the version was created by rolling back to an earlier one */
+  rolledBackFrom?: number;
+  createdAt: Date;
+}
+
+const workflowVersionSchema = new Schema<WorkflowVersionDocument>(
+  {
+    workflow: { type: Schema.Types.ObjectId, ref: 'Workflow', required: true },
+    organization: { type: Schema.Types.ObjectId, ref: 'Organization', required: true },
+    version: { type: Number, required: true },
+    name: { type: String, required: true },
+    description: { type: String },
+    graph: { type: Schema.Types.Mixed, required: true },
+    blocks: { type: [{ type: Schema.Types.Mixed }], default: [] },
+    trigger: { type: Schema.Types.ObjectId, ref: 'Trigger' },
+    dataset: { type: Schema.Types.ObjectId, ref: 'Dataset' },
+    publishedBy: { type: Schema.Types.ObjectId, ref: 'User' },
+    rolledBackFrom: { type: Number },
+  },
+  { timestamps: { createdAt: true, updatedAt: false } },
+);
+
+workflowVersionSchema.index({ workflow: 1, version: -1 }, { unique: true });
+
+// Published snapshots are immutable; runs point at them to show what actually executed
+workflowVersionSchema.pre('save', function rejectChanges(next) {
+  if (!this.isNew) {
+    next(new Error('Workflow versions are immutable'));
+    return;
+  }
+  next();
+});
+
+workflowVersionSchema.pre(['updateOne', 'updateMany', 'findOneAndUpdate', 'replaceOne'], function rejectUpdates(next) {
+  next(new Error('Workflow versions are immutable'));
+});
+
+export const WorkflowVersionModel = model<WorkflowVersionDocument>('WorkflowVersion', workflowVersionSchema);
@@ -8,8 +8,21 @@ import { ConnectorModel } from '@/features/connectors/connectors.model';
 import { decryptConnectorConfig } from '@/features/connectors/connectors.security';
 import { nildbService } from '@/features/nillion-compute/nildb.service';
 import { RunModel } from '@/features/runs/runs.model';
-import { createWorkflow, listWorkflows, setWorkflowStatus, deleteWorkflow, normalizeGraphPositions } from './workflows.service';
+import {
+  createWorkflow,
+  listWorkflows,
+  setWorkflowStatus,
+  updateWorkflow,
+  deleteWorkflow,
+  normalizeGraphPositions,
+  validateWorkflow,
+  listWorkflowVersions,
+  getWorkflowVersion,
+  diffWorkflowVersions,
+  rollbackWorkflow,
+} from './workflows.service';
 import { WorkflowModel } from './workflows.model';
+import { WorkflowVersionModel } from './workflow-version.model';
 import { logger } from '@/utils/logger';
 
 async function generateIntegrationSnippet(workflow: { dataset?: any; trigger?: any }): Promise<string | undefined> {
@@ -187,10 +200,33 @@ export const createWorkflowHandler = async (req: AuthenticatedRequest, res: Resp
     organizationId: user.organization.toString(),
     triggerId: req.body.triggerId,
     datasetId: req.body.datasetId,
+    maxDurationMs: req.body.maxDurationMs,
+    maxConcurrentRuns: req.body.maxConcurrentRuns,
   });
   res.status(HttpStatus.CREATED).json({ workflow });
 };
 
+export const updateWorkflowHandler = async (req: AuthenticatedRequest, res: Response): Promise<void> => {
+  if (!req.user) {
+    res.status(HttpStatus.UNAUTHORIZED).json({ message: 'Unauthorized' });
+    return;
+  }
+  const user = await findUserById(req.user.id);
+  if (!user) {
+    res.status(HttpStatus.NOT_FOUND).json({ message: 'User not found' });
+    return;
+  }
+
+  const { workflowId } = req.params as { workflowId: string };
+  const workflow = await updateWorkflow(workflowId, user.organization.toString(), {
+    name: req.body.name,
+    description: req.body.description,
+    maxDurationMs: req.body.maxDurationMs,
+    maxConcurrentRuns: req.body.maxConcurrentRuns,
+  });
+  res.json({ workflow });
+};
+
 export const listWorkflowsHandler = async (req: AuthenticatedRequest, res: Response): Promise<void> => {
   if (!req.user) {
     res.status(HttpStatus.UNAUTHORIZED).json({ message: 'Unauthorized' });
@@ -246,7 +282,14 @@ export const publishWorkflowHandler = async (req: AuthenticatedRequest, res: Res
     res.status(HttpStatus.NOT_FOUND).json({ message: 'User not found' });
     return;
   }
-  const workflow = await setWorkflowStatus(req.params.workflowId, 'published', user.organization.toString());
+  const { workflowId } = req.params as { workflowId: string };
+  const validation = await validateWorkflow(workflowId, user.organization.toString());
+  if (!validation.valid) {
+    res.status(HttpStatus.UNPROCESSABLE_ENTITY).json({ message: 'Workflow graph has errors', ...validation });
+    return;
+  }
+
+  const workflow = await setWorkflowStatus(workflowId, 'published', user.organization.toString(), user.id);
   logger.info({ workflowId: req.params.workflowId, hasDataset: !!workflow.dataset }, 'Publish: workflow status set');
 
   const integrationSnippet = await generateIntegrationSnippet(workflow);
@@ -254,6 +297,92 @@ export const publishWorkflowHandler = async (req: AuthenticatedRequest, res: Res
   res.json({ workflow, integrationSnippet });
 };
 
+export const validateWorkflowHandler = async (req: AuthenticatedRequest, res: Response): Promise<void> => {
+  if (!req.user) {
+    res.status(HttpStatus.UNAUTHORIZED).json({ message: 'Unauthorized' });
+    return;
+  }
+  const user = await findUserById(req.user.id);
+  if (!user) {
+    res.status(HttpStatus.NOT_FOUND).json({ message: 'User not found' });
+    return;
+  }
+
+  const { workflowId } = req.params as { workflowId: string };
+  const validation = await validateWorkflow(workflowId, user.organization.toString());
+  res.json(validation);
+};
+
+export const listWorkflowVersionsHandler = async (req: AuthenticatedRequest, res: Response): Promise<void> => {
+  if (!req.user) {
+    res.status(HttpStatus.UNAUTHORIZED).json({ message: 'Unauthorized' });
+    return;
+  }
+  const user = await findUserById(req.user.id);
+  if (!user) {
+    res.status(HttpStatus.NOT_FOUND).json({ message: 'User not found' });
+    return;
+  }
+
+  const { workflowId } = req.params as { workflowId: string };
+  const result = await listWorkflowVersions(workflowId, user.organization.toString());
+  res.json(result);
+};
+
+export const getWorkflowVersionHandler = async (req: AuthenticatedRequest, res: Response): Promise<void> => {
+  if (!req.user) {
+    res.status(HttpStatus.UNAUTHORIZED).json({ message: 'Unauthorized' });
+    return;
+  }
+  const user = await findUserById(req.user.id);
+  if (!user) {
+    res.status(HttpStatus.NOT_FOUND).json({ message: 'User not found' });
+    return;
+  }
+
+  const { workflowId, version } = req.params as { workflowId: string; version: string };
+  const snapshot = await getWorkflowVersion(workflowId, Number(version), user.organization.toString());
+  res.json({ version: snapshot });
+};
+
+export const diffWorkflowVersionsHandler = async (req: AuthenticatedRequest, res: Response): Promise<void> => {
+  if (!req.user) {
+    res.status(HttpStatus.UNAUTHORIZED).json({ message: 'Unauthorized' });
+    return;
+  }
+  const user = await findUserById(req.user.id);
+  if (!user) {
+    res.status(HttpStatus.NOT_FOUND).json({ message: 'User not found' });
+    return;
+  }
+
+  const { workflowId } = req.params as { workflowId: string };
+  const diff = await diffWorkflowVersions(
+    workflowId,
+    Number(req.query.from),
+    Number(req.query.to),
+    user.organization.toString(),
+  );
+  res.json({ diff });
+};
+
+export const rollbackWorkflowHandler = async (req: AuthenticatedRequest, res: Response): Promise<void> => {
+  if (!req.user) {
+    res.status(HttpStatus.UNAUTHORIZED).json({ message: 'Unauthorized' });
+    return;
+  }
+  const user = await findUserById(req.user.id);
+  if (!user) {
+    res.status(HttpStatus.NOT_FOUND).json({ message: 'User not found' });
+    return;
+  }
+
+  const { workflowId, version } = req.params as { workflowId: string; version: string };
+  const result = await rollbackWorkflow(workflowId, Number(version), user.organization.toString(), user.id);
+  logger.info({ workflowId, version: result.version.version, rolledBackFrom: Number(version) }, 'Workflow rolled back');
+  res.json(result);
+};
+
 export const getWorkflowSnippetHandler = async (req: AuthenticatedRequest, res: Response): Promise<void> => {
   if (!req.user) {
     res.status(HttpStatus.UNAUTHORIZED).json({ message: 'Unauthorized' });
@@ -307,7 +436,9 @@ export const getWorkflowTraceHandler = async (req: AuthenticatedRequest, res: Re
   const result = (run.result ?? {}) as Record<string, unknown>;
   const steps = Array.isArray((result as any).steps) ? ((result as any).steps as unknown[]) : [];
   const outputs = (result as any).outputs ?? {};
-  const graph = normalizeGraphPositions(workflow.graph as any);
+  // Show the graph the run executed, not whatever is live now
+  const runVersion = run.workflowVersion ? await WorkflowVersionModel.findById(run.workflowVersion).lean() : null;
+  const graph = normalizeGraphPositions((runVersion?.graph ?? workflow.graph) as any);
 
   if (!graph || !Array.isArray(graph.nodes) || graph.nodes.length === 0) {
     res.status(HttpStatus.BAD_REQUEST).json({ message: 'Workflow has no graph definition yet' });
@@ -319,6 +450,7 @@ export const getWorkflowTraceHandler = async (req: AuthenticatedRequest, res: Re
   res.json({
     workflowId: workflow.id,
     runId: (run as any)._id.toString(),
+    version: run.version,
     status: run.status,
     createdAt,
     graph,
@@ -0,0 +1,330 @@
+import { afterEach, beforeEach, describe, expect, it, vi } from 'vitest';
+import type { RunLogger } from '@/features/runs/runs.logger';
+import type { ExecutionStep, WorkflowGraph, WorkflowNode } from './workflows.types';
+import { WorkflowEngine } from './workflows.engine';
+
+const store = vi.hoisted(() => ({
+  run: undefined as Record<string, unknown> | undefined,
+  workflow: undefined as Record<string, unknown> | undefined,
+}));
+
+vi.mock('@/features/runs/runs.model', () => {
+  const query = () => Object.assign(Promise.resolve(store.run), { lean: async () => store.run });
+  return {
+    RunModel: {
+      findById: vi.fn(() => ({ select: query })),
+      updateOne: vi.fn(async () => ({})),
+      exists: vi.fn(async () => null),
+    },
+  };
+});
+
+vi.mock('./workflows.model', () => ({
+  WorkflowModel: { findById: vi.fn(async () => store.workflow) },
+}));
+
+vi.mock('./workflow-version.model', () => ({
+  WorkflowVersionModel: { findOne: vi.fn(() => ({ select: () => ({ lean: async () => null }) })) },
+}));
+
+vi.mock('@/features/billing/billing.service', async (importOriginal) => {
+  const { billingService } = await importOriginal<typeof import('@/features/billing/billing.service')>();
+  return {
+    billingService: {
+      ...billingService,
+      preflightCreditCheck: vi.fn(async () => ({ hasEnough: true })),
+      deductCredits: vi.fn(async () => undefined),
+    },
+  };
+});
+
+vi.mock('@/queues/run-queue', () => ({ enqueueRunJob: vi.fn() }));
+
+vi.mock('@/features/runs/runs.events', async (importOriginal) => ({
+  ...(await importOriginal<typeof import('@/features/runs/runs.events')>()),
+  publishRunEvent: vi.fn(),
+}));
+
+vi.mock('@/utils/logger', () => ({
+  logger: { debug: vi.fn(), info: vi.fn(), warn: vi.fn(), error: vi.fn() },
+}));
+
+vi.mock('@/features/runs/runs.logger', () => {
+  const createRunLogger = (runId: string): RunLogger => ({
+    runId,
+    debug: () => undefined,
+    info: () => undefined,
+    warn: () => undefined,
+    error: () => undefined,
+    child: () => createRunLogger(runId),
+  });
+  return { createRunLogger };
+});
+
+/** The engine's own block execution and backoff, replaced so policies can be observed in isolation. */
+interface EngineInternals {
+  executeNode(
+    blockId: string,
+    handler: string,
+    nodeData: Record<string, unknown>,
+    context: unknown,
+    connector?: unknown,
+    signal?: AbortSignal,
+  ): Promise<unknown>;
+  sleep(ms: number, signal?: AbortSignal): Promise<void>;
+}
+
+const internals = WorkflowEngine.prototype as unknown as EngineInternals;
+
+const RUN_ID = 'run-1';
+
+const makeNode = (id: string, data: Record<string, unknown> = {}, blockId = 'json-extract'): WorkflowNode => ({
+  id,
+  blockId,
+  type: 'transform',
+  data,
+});
+
+/** Resolves with `value`, or rejects with the abort reason as soon as the signal fires. */
+const settleAfter = <T>(ms: number, signal: AbortSignal | undefined, value: T): Promise<T> =>
+  new Promise((resolve, reject) => {
+    const timer = setTimeout(() => resolve(value), ms);
+    signal?.addEventListener('abort', () => {
+      clearTimeout(timer);
+      reject(signal.reason);
+    });
+  });
+
+let executeNode: ReturnType<typeof vi.spyOn<EngineInternals, 'executeNode'>>;
+let sleep: ReturnType<typeof vi.spyOn<EngineInternals, 'sleep'>>;
+
+beforeEach(() => {
+  executeNode = vi.spyOn(internals, 'executeNode').mockResolvedValue('ok');
+  sleep = vi.spyOn(internals, 'sleep').mockResolvedValue(undefined);
+});
+
+afterEach(() => {
+  vi.restoreAllMocks();
+});
+
+const start = async (graph: WorkflowGraph, engine = new WorkflowEngine(), payload: Record<string, unknown> = {}) => {
+  store.workflow = { _id: 'wf-1', id: 'wf-1', name: 'Test', organization: 'org-1', version: 1, graph };
+  store.run = {
+    id: RUN_ID,
+    workflow: 'wf-1',
+    status: 'queued',
+    payload,
+    steps: [],
+    memory: [],
+    callStack: [],
+    save: vi.fn(async () => undefined),
+    set(values: Record<string, unknown>) {
+      Object.assign(this, values);
+    },
+  };
+  const outcome = await engine.start(RUN_ID);
+  const result = store.run.result as { steps?: ExecutionStep[]; error?: string };
+  return { outcome, steps: result.steps ?? [] };
+};
+
+const single = (policy: Record<string, unknown>, blockId?: string): WorkflowGraph => ({
+  nodes: [makeNode('node-1', { policy }, blockId)],
+  edges: [],
+});
+
+const stepOf = (steps: ExecutionStep[], nodeId: string) => steps.find((step) => step.nodeId === nodeId)!;
+
+describe('node policies', () => {
+  it('retries until an attempt succeeds', async () => {
+    executeNode.mockRejectedValueOnce(new Error('flaky'));
+
+    const { outcome, steps } = await start(single({ retries: 3, backoffDelayMs: 10 }));
+
+    expect(outcome).toEqual({ status: 'succeeded' });
+    expect(executeNode).toHaveBeenCalledTimes(2);
+    expect(stepOf(steps, 'node-1').attempts?.map((attempt) => [attempt.status, attempt.error])).toEqual([
+      ['failed', 'flaky'],
+      ['success', undefined],
+    ]);
+  });
+
+  it('fails the run with the last error once the retries are used up', async () => {
+    let calls = 0;
+    executeNode.mockImplementation(async () => {
+      calls += 1;
+      throw new Error(`failure ${calls}`);
+    });
+
+    const { outcome, steps } = await start(single({ retries: 2 }));
+
+    expect(outcome).toEqual({ status: 'failed', error: 'failure 3' });
+    expect(stepOf(steps, 'node-1')).toMatchObject({ status: 'failed', error: 'failure 3' });
+    expect(stepOf(steps, 'node-1').attempts).toHaveLength(3);
+  });
+
+  it('ignores invalid policy values', async () => {
+    executeNode.mockRejectedValue(new Error('down'));
+
+    const { outcome } = await start(single({ retries: -2, backoffDelayMs: -5, timeoutMs: 0, onError: 'ignore' }));
+
+    expect(outcome?.status).toBe('failed');
+    expect(executeNode).toHaveBeenCalledTimes(1);
+  });
+
+  it('backs off exponentially or by a fixed delay', async () => {
+    executeNode.mockRejectedValue(new Error('down'));
+
+    await start(single({ retries: 3, backoffDelayMs: 100 }));
+    expect(sleep.mock.calls.map(([ms]) => ms)).toEqual([100, 200, 400]);
+
+    sleep.mockClear();
+    await start(single({ retries: 2, backoff: 'fixed', backoffDelayMs: 100 }));
+    expect(sleep.mock.calls.map(([ms]) => ms)).toEqual([100, 100]);
+  });
+
+  it('aborts a timed-out attempt and retries with a fresh signal', async () => {
+    const signals: (AbortSignal | undefined)[] = [];
+    executeNode.mockImplementation(async (_blockId, _handler, _data, _context, _connector, signal) => {
+      signals.push(signal);
+      return settleAfter(signals.length === 1 ? 1000 : 0, signal, 'second try');
+    });
+
+    const { outcome, steps } = await start(single({ retries: 1, timeoutMs: 20 }));
+
+    expect(outcome?.status).toBe('succeeded');
+    expect(signals[0]?.aborted).toBe(true);
+    expect((signals[0]?.reason as Error).message).toBe('Node node-1 timed out after 20ms');
+    expect(signals[1]?.aborted).toBe(false);
+    expect(stepOf(steps, 'node-1').attempts?.[0]).toMatchObject({
+      status: 'failed',
+      error: 'Node node-1 timed out after 20ms',
+    });
+  });
+
+  it('does not retry a side-effecting block after a timeout', async () => {
+    executeNode.mockImplementation((_blockId, _handler, _data, _context, _connector, signal) =>
+      settleAfter(1000, signal, 'sent'),
+    );
+
+    const { outcome, steps } = await start(single({ retries: 3, timeoutMs: 20 }, 'custom-http-action'));
+
+    expect(outcome).toEqual({ status: 'failed', error: 'Node node-1 timed out after 20ms' });
+    expect(executeNode).toHaveBeenCalledTimes(1);
+    expect(stepOf(steps, 'node-1').attempts).toHaveLength(1);
+  });
+
+  it('still retries a side-effecting block that failed without timing out', async () => {
+    executeNode.mockRejectedValueOnce(new Error('503'));
+
+    const { outcome } = await start(single({ retries: 1, timeoutMs: 1000 }, 'custom-http-action'));
+
+    expect(outcome?.status).toBe('succeeded');
+    expect(executeNode).toHaveBeenCalledTimes(2);
+  });
+
+  it('stops retrying once the run is cancelled', async () => {
+    const engine = new WorkflowEngine();
+    executeNode.mockImplementation(async () => {
+      engine.cancel(RUN_ID);
+      throw new Error('interrupted');
+    });
+
+    const { outcome } = await start(single({ retries: 5 }), engine);
+
+    expect(outcome).toEqual({ status: 'cancelled', error: 'Run was cancelled' });
+    expect(executeNode).toHaveBeenCalledTimes(1);
+    expect(sleep).not.toHaveBeenCalled();
+  });
+});
+
+describe('error policies', () => {
+  // `source` fails; `handler` hangs off its error edge and `next` off its regular output
+  const graphWith = (policy: Record<string, unknown>): WorkflowGraph => ({
+    nodes: [makeNode('source', { policy, fail: true }), makeNode('handler'), makeNode('next')],
+    edges: [
+      { id: 'e1', source: 'source', target: 'handler', sourceHandle: 'error' },
+      { id: 'e2', source: 'source', target: 'next' },
+    ],
+  });
+
+  const statuses = (steps: ExecutionStep[]) => Object.fromEntries(steps.map((step) => [step.nodeId, step.status]));
+
+  beforeEach(() => {
+    executeNode.mockImplementation(async (_blockId, _handler, data) => {
+      if (data.fail) {
+        throw new Error('boom');
+      }
+      return 'ok';
+    });
+  });
+
+  it('fails the run by default', async () => {
+    const { outcome, steps } = await start(graphWith({}));
+
+    expect(outcome).toEqual({ status: 'failed', error: 'boom' });
+    expect(statuses(steps)).toEqual({ source: 'failed' });
+  });
+
+  it('continues with the fallback value', async () => {
+    const { outcome, steps } = await start(graphWith({ onError: 'continue', fallbackValue: 42 }));
+
+    expect(outcome?.status).toBe('succeeded');
+    expect(statuses(steps)).toEqual({ source: 'failed', handler: 'skipped', next: 'success' });
+    expect(stepOf(steps, 'source').outputs).toEqual({ result: 42 });
+  });
+
+  it('sends a template that fails to render through the error policy', async () => {
+    const graph: WorkflowGraph = {
+      nodes: [
+        makeNode('source', { message: 'Total {{ payload.amount > 100 }}', policy: { onError: 'continue', fallbackValue: 'n/a' } }),
+        makeNode('next'),
+      ],
+      edges: [{ id: 'e1', source: 'source', target: 'next' }],
+    };
+
+    const { outcome, steps } = await start(graph);
+
+    expect(outcome?.status).toBe('succeeded');
+    expect(stepOf(steps, 'source')).toMatchObject({
+      status: 'failed',
+      error: "Cannot compare undefined with number using '>'",
+      outputs: { result: 'n/a' },
+    });
+    expect(stepOf(steps, 'next').status).toBe('success');
+    expect(executeNode).toHaveBeenCalledTimes(1);
+  });
+
+  it('routes down the error edge instead of the regular one', async () => {
+    const { outcome, steps } = await start(graphWith({ onError: 'route' }));
+
+    expect(outcome?.status).toBe('succeeded');
+    expect(statuses(steps)).toEqual({ source: 'failed', handler: 'success', next: 'skipped' });
+  });
+});
+
+describe('input ports', () => {
+  // `extract` hands `payload.text` to the parser over an edge; the parser's own path points at `payload.fallback`
+  const graph: WorkflowGraph = {
+    nodes: [
+      makeNode('extract', { path: 'text', alias: 'text' }),
+      makeNode('parse', { sourcePath: 'payload.fallback', alias: 'parsed' }, 'memo-parser'),
+    ],
+    edges: [{ id: 'e1', source: 'extract', target: 'parse' }],
+  };
+
+  beforeEach(() => {
+    executeNode.mockRestore();
+  });
+
+  it('reads an input from its edge before the config path', async () => {
+    const { steps } = await start(graph, undefined, { text: 'amount:5', fallback: 'amount:1' });
+
+    expect(stepOf(steps, 'parse').outputs).toEqual({ amount: '5' });
+  });
+
+  it('falls back to the config path when the edge value does not fit the input', async () => {
+    const { steps } = await start(graph, undefined, { text: { amount: 5 }, fallback: 'amount:1' });
+
+    expect(stepOf(steps, 'parse').outputs).toEqual({ amount: '1' });
+  });
+});
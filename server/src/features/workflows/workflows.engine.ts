@@ -1,17 +1,40 @@
 import axios from 'axios';
 import { Types } from 'mongoose';
 import { WorkflowModel, WorkflowDocument } from './workflows.model';
-import { RunModel } from '@/features/runs/runs.model';
+import { WorkflowVersionModel } from './workflow-version.model';
+import { RunModel, RunDocument } from '@/features/runs/runs.model';
+import { RunStatus } from '@/features/runs/runs.types';
 import { ConnectorModel } from '@/features/connectors/connectors.model';
 import { decryptConnectorConfig } from '@/features/connectors/connectors.security';
+import { decryptValue, encryptValue } from '@/shared/services/encryption.service';
 import { getBlockDefinition } from '@/features/blocks/blocks.registry';
+import { coercePortValue, describeValueType, findPort, resolveTargetHandle } from '@/features/blocks/blocks.ports';
+import { BlockPort } from '@/features/blocks/blocks.types';
 import { nilccExecutionService } from '@/features/nillion-compute/nilcc-execution.service';
 import { nilaiService } from '@/features/nillion-compute/nilai.service';
 import { nildbService } from '@/features/nillion-compute/nildb.service';
 import { zcashService, ZcashPrivacyPolicy } from '@/shared/services/zcash.service';
 import { billingService } from '@/features/billing/billing.service';
+import { enqueueRunJob } from '@/queues/run-queue';
+import { publishRunEvent, redactOutputs } from '@/features/runs/runs.events';
+import { createRunLogger, RunLogger } from '@/features/runs/runs.logger';
+import { renderConfigTemplates, resolvePath } from './workflows.expressions';
+import { findSideEffectNodes } from './workflows.validation';
 import { logger } from '@/utils/logger';
-import { WorkflowGraph, WorkflowNode, ExecutionContext, ExecutionStep, ExecutionResult } from './workflows.types';
+import { markSpanFailed, withSpan } from '@/utils/tracing';
+import { blockDurationSeconds, blockExecutionsTotal, runDurationSeconds, runsFinishedTotal } from '@/utils/metrics';
+import { envConfig } from '@/config/env';
+import {
+  WorkflowGraph,
+  WorkflowNode,
+  WorkflowEdge,
+  ExecutionContext,
+  ExecutionStep,
+  ExecutionResult,
+  ExecutionAttempt,
+  ExecutionCheckpoint,
+  NodePolicy,
+} from './workflows.types';
 
 type NilAIBlockResult = Awaited<ReturnType<typeof nilaiService.runInference>>;
 
@@ -23,18 +46,141 @@ interface LeanConnector {
   config: Record<string, unknown>;
 }
 
+interface BranchState {
+  skipped: Set<string>;
+  taken: Map<string, string>;
+  errored: Set<string>;
+}
+
+interface GraphRunState {
+  graph: WorkflowGraph;
+  payload: Record<string, unknown>;
+  runId: string;
+  context: ExecutionContext;
+  connectorMap: Map<string, LeanConnector>;
+  executionOrder: string[];
+  nodeIndex: Map<string, number>;
+  executionSteps: ExecutionStep[];
+  executedNodeIds: Set<string>;
+  inFlightNodeIds: Set<string>;
+  branchState: BranchState;
+  organizationId?: string;
+  callStack: string[];
+  signal?: AbortSignal;
+  /** Only the run's own graph reports live events; sub-graph nodes belong to their parent step */
+  publishEvents: boolean;
+  log: RunLogger;
+}
+
+interface GraphExecutionOptions {
+  checkpoint?: ExecutionCheckpoint;
+  concurrency?: number;
+  /** Values visible before the first node runs, e.g. the parent run's memory for a for-each body */
+  memory?: Map<string, any>;
+  /** Sub-graphs run inside a parent step and must not overwrite the run's checkpoint */
+  persist?: boolean;
+  organizationId?: string;
+  /** Ids of the workflows currently executing, outermost first, used to reject recursive calls */
+  callStack?: string[];
+  /** Aborted when the run is cancelled or exceeds its max duration */
+  signal?: AbortSignal;
+}
+
+interface NodeOutcome {
+  result: unknown;
+  /** Per-item steps reported by a for-each node */
+  iterations?: ExecutionStep[];
+  /** Credits consumed by a workflow executed inline by this node */
+  childCredits?: number;
+}
+
+const ERROR_HANDLE = 'error';
+
+/** Raised when a node exhausts its policy with `onError: fail`; keeps the trace so far for the run record. */
+class NodeFailureError extends Error {
+  constructor(message: string, readonly steps: ExecutionStep[]) {
+    super(message);
+    this.name = 'NodeFailureError';
+  }
+}
+
+/** Abort reason for a run stopped from outside: cancelled by a user or past its max duration. */
+export class RunAbortedError extends Error {
+  constructor(readonly status: 'cancelled' | 'timed_out', message: string) {
+    super(message);
+    this.name = 'RunAbortedError';
+  }
+}
+
+const CANCEL_POLL_INTERVAL_MS = 2000;
+
+/** How a run left `start`; `undefined` when there was no run to execute. */
+export interface RunOutcome {
+  status: RunStatus;
+  error?: string;
+}
+
+// Checkpointed values include decrypted Nillion and NilAI outputs, so they are only stored encrypted
+const sealMemoryValue = (value: unknown): unknown =>
+  value === undefined ? undefined : encryptValue(JSON.stringify(value));
+
+const openMemoryValue = (value: unknown): unknown =>
+  typeof value === 'string' && value.startsWith('enc:') ? JSON.parse(decryptValue(value)) : value;
+
 export class WorkflowEngine {
-  async start(runId: string): Promise<void> {
-    const run = await RunModel.findById(runId);
+  private readonly activeRuns = new Map<string, AbortController>();
+
+  /** Abort a run executing in this process. Other workers notice the run's cancel flag on their next poll. */
+  cancel(runId: string): boolean {
+    const controller = this.activeRuns.get(runId);
+    if (!controller) {
+      return false;
+    }
+    controller.abort(new RunAbortedError('cancelled', 'Run was cancelled'));
+    return true;
+  }
+
+  async start(runId: string): Promise<RunOutcome | undefined> {
+    const run = await RunModel.findById(runId).select('+memory');
     if (!run) {
-      return;
+      return undefined;
+    }
+
+    // A redelivered job for a finished run must not execute side effects again
+    if (run.status === 'succeeded' || run.status === 'cancelled' || run.status === 'timed_out') {
+      return { status: run.status };
+    }
+
+    if (run.cancelRequestedAt) {
+      run.status = 'cancelled';
+      run.result = { error: 'Run was cancelled' };
+      this.markFinished(run, run.steps ?? []);
+      await run.save();
+      this.recordRunMetrics(run);
+      publishRunEvent(runId, { type: 'run-finished', status: run.status, error: 'Run was cancelled' });
+      return { status: run.status, error: 'Run was cancelled' };
     }
 
     run.status = 'running';
+    run.startedAt = new Date();
     await run.save();
+    const runLog = createRunLogger(runId);
 
     let workflow: WorkflowDocument | null = null;
     let totalCost = 0;
+    const controller = new AbortController();
+    this.activeRuns.set(runId, controller);
+    let deadline: NodeJS.Timeout | undefined;
+    const cancelPoll = setInterval(() => {
+      RunModel.exists({ _id: runId, cancelRequestedAt: { $exists: true } })
+        .then((cancelled) => {
+          if (cancelled && !controller.signal.aborted) {
+            controller.abort(new RunAbortedError('cancelled', 'Run was cancelled'));
+          }
+        })
+        .catch((error) => logger.warn({ err: error, runId }, 'Failed to check run cancellation'));
+    }, CANCEL_POLL_INTERVAL_MS);
+    cancelPoll.unref();
 
     try {
       workflow = await WorkflowModel.findById(run.workflow);
@@ -42,13 +188,36 @@ export class WorkflowEngine {
         throw new Error('Workflow missing');
       }
 
-      if (!workflow.graph || !workflow.graph.nodes || workflow.graph.nodes.length === 0) {
+      const maxDurationMs = workflow.maxDurationMs ?? envConfig.WORKFLOW_MAX_DURATION_MS;
+      if (maxDurationMs > 0) {
+        deadline = setTimeout(() => {
+          controller.abort(new RunAbortedError('timed_out', `Run exceeded its max duration of ${maxDurationMs}ms`));
+        }, maxDurationMs);
+        deadline.unref();
+      }
+
+      const graph = await this.resolveRunGraph(run, workflow);
+      if (!graph || !graph.nodes || graph.nodes.length === 0) {
         throw new Error('Workflow graph is empty or missing');
       }
+      runLog.info('Run started', {
+        workflow: workflow.name,
+        version: run.version,
+        ...(run.replayOf ? { replayOf: run.replayOf.toString() } : {}),
+      });
+
+      if (run.replayOf && !run.sideEffectsConfirmed) {
+        const sideEffects = findSideEffectNodes(graph);
+        if (sideEffects.length) {
+          throw new Error(
+            `Replay was not confirmed for side-effecting blocks: ${sideEffects.map((node) => node.nodeId).join(', ')}`,
+          );
+        }
+      }
 
       // Calculate cost and check credits before execution
       const organizationId = workflow.organization.toString();
-      totalCost = this.calculateWorkflowCost(workflow.graph);
+      totalCost = this.calculateWorkflowCost(graph);
       
       const creditCheck = await billingService.preflightCreditCheck(organizationId, totalCost);
       if (!creditCheck.hasEnough) {
@@ -58,47 +227,181 @@ export class WorkflowEngine {
         );
       }
 
-      const result = await this.executeGraph(workflow.graph, run.payload, runId);
+      const checkpoint: ExecutionCheckpoint = {
+        steps: run.steps ?? [],
+        memory: run.memory ?? [],
+      };
+      const result = await this.executeGraph(graph, run.payload, runId, {
+        checkpoint,
+        concurrency: run.concurrency ?? envConfig.WORKFLOW_NODE_CONCURRENCY,
+        organizationId,
+        callStack: [...(run.callStack ?? []), workflow.id],
+        signal: controller.signal,
+      });
+
+      // Only bill the nodes that actually ran; skipped branches are free
+      const skippedNodeIds = new Set(
+        result.steps.filter((step) => step.status === 'skipped').map((step) => step.nodeId),
+      );
+      const iterationCounts = new Map<string, number>();
+      for (const step of result.steps) {
+        if (step.iteration !== undefined) {
+          iterationCounts.set(step.nodeId, (iterationCounts.get(step.nodeId) ?? 0) + 1);
+        }
+      }
+      const childCredits = result.steps.reduce((sum, step) => sum + (step.childCredits ?? 0), 0);
+      const creditsUsed = this.calculateWorkflowCost(graph, skippedNodeIds, iterationCounts) + childCredits;
 
       // Deduct credits after successful execution
+      const replayOf = run.replayOf?.toString();
       await billingService.deductCredits(
         organizationId,
-        totalCost,
-        `Workflow run: ${workflow.name} (${runId})`
+        creditsUsed,
+        replayOf
+          ? `Workflow replay: ${workflow.name} (${runId}, replaying ${replayOf})`
+          : `Workflow run: ${workflow.name} (${runId})`,
+        replayOf ? 'workflow-replay' : 'workflow-run',
+        { run: runId, replayOf },
       );
 
       run.status = 'succeeded';
       run.result = {
         outputs: result.outputs,
         steps: result.steps,
-        creditsUsed: totalCost,
+        creditsUsed,
       };
+      this.markFinished(run, result.steps);
       await run.save();
+      runLog.info('Run succeeded', { creditsUsed, durationMs: run.durationMs });
+      return { status: run.status };
     } catch (error) {
+      if (controller.signal.aborted) {
+        const reason = controller.signal.reason as RunAbortedError;
+        logger.warn({ runId, status: reason.status }, 'Workflow run stopped');
+        runLog.warn(reason.message, { status: reason.status });
+        // The engine checkpointed the steps that finished before the abort
+        const checkpointed = await RunModel.findById(runId).select('steps').lean();
+        run.status = reason.status;
+        run.result = { error: reason.message, steps: checkpointed?.steps ?? [] };
+        this.markFinished(run, checkpointed?.steps ?? []);
+        await run.save();
+        return { status: run.status, error: reason.message };
+      }
+
       logger.error({ err: error, runId }, 'Workflow execution failed');
+      runLog.error('Run failed', { error: (error as Error).message });
       run.status = 'failed';
-      run.result = { error: (error as Error).message };
+      run.result = {
+        error: (error as Error).message,
+        ...(error instanceof NodeFailureError ? { steps: error.steps } : {}),
+      };
+      if (error instanceof NodeFailureError) {
+        run.steps = error.steps;
+      }
+      this.markFinished(run, run.steps ?? []);
       await run.save();
+      return { status: run.status, error: (error as Error).message };
+    } finally {
+      clearInterval(cancelPoll);
+      clearTimeout(deadline);
+      this.activeRuns.delete(runId);
+      if (run.status !== 'running') {
+        this.recordRunMetrics(run);
+        const result = (run.result ?? {}) as { error?: string; creditsUsed?: number };
+        publishRunEvent(runId, {
+          type: 'run-finished',
+          status: run.status,
+          ...(result.error ? { error: result.error } : {}),
+          ...(result.creditsUsed !== undefined ? { creditsUsed: result.creditsUsed } : {}),
+        });
+      }
+    }
+  }
+
+  /** Record when and how a run ended; the runs list filters on these fields. */
+  private markFinished(run: RunDocument, steps: ExecutionStep[]): void {
+    run.finishedAt = new Date();
+    run.durationMs = run.startedAt ? run.finishedAt.getTime() - run.startedAt.getTime() : undefined;
+    run.failedBlocks = [...new Set(steps.filter((step) => step.status === 'failed').map((step) => step.blockId))];
+  }
+
+  private recordRunMetrics(run: RunDocument): void {
+    const labels = { workflow: String(run.workflow), status: run.status };
+    runsFinishedTotal.inc(labels);
+    if (run.durationMs !== undefined) {
+      runDurationSeconds.observe(labels, run.durationMs / 1000);
+    }
+  }
+
+  /**
+   * The graph a run executes: the version it is pinned to, or the live workflow's current
+   * version, which is then recorded on the run.
+   */
+  private async resolveRunGraph(run: RunDocument, workflow: WorkflowDocument): Promise<WorkflowGraph | undefined> {
+    if (run.workflowVersion) {
+      const pinned = await WorkflowVersionModel.findById(run.workflowVersion).lean();
+      if (!pinned) {
+        throw new Error('Workflow version missing');
+      }
+      return pinned.graph;
+    }
+
+    const current = await this.loadPublishedVersion(workflow);
+    if (current) {
+      run.set({ workflowVersion: current._id, version: current.version });
+      return current.graph;
     }
+    return workflow.graph;
+  }
+
+  /** The snapshot of the workflow's current version, which draft edits to the workflow do not touch. */
+  private loadPublishedVersion(workflow: WorkflowDocument) {
+    return WorkflowVersionModel.findOne({ workflow: workflow._id, version: workflow.version })
+      .select('_id version graph')
+      .lean();
   }
 
   /**
    * Calculate the total credit cost for a workflow based on its blocks
    */
-  private calculateWorkflowCost(graph: WorkflowGraph): number {
-    let cost = billingService.getCreditCost('workflow-run'); // Base cost for running a workflow
+  private calculateWorkflowCost(
+    graph: WorkflowGraph,
+    skippedNodeIds: Set<string> = new Set(),
+    iterationCounts: Map<string, number> = new Map(),
+  ): number {
+    const cost = billingService.getCreditCost('workflow-run'); // Base cost for running a workflow
+    return cost + this.calculateNodesCost(graph.nodes, skippedNodeIds, iterationCounts);
+  }
 
-    for (const node of graph.nodes) {
+  /**
+   * Sum block costs for a list of nodes. A for-each body is billed once per iteration
+   * (once for the preflight check, when the item count is not known yet).
+   */
+  private calculateNodesCost(
+    nodes: WorkflowNode[],
+    skippedNodeIds: Set<string>,
+    iterationCounts: Map<string, number>,
+  ): number {
+    let cost = 0;
+
+    for (const node of nodes) {
       // Skip input/output nodes - they don't cost anything
       if (node.type === 'input' || node.type === 'output') {
         continue;
       }
 
+      if (skippedNodeIds.has(node.id)) {
+        continue;
+      }
+
       const blockId = node.blockId;
       if (!blockId) continue;
 
       // Map block IDs to operation types for billing
-      if (blockId === 'nillion-compute') {
+      if (blockId === 'for-each') {
+        const bodyNodes = ((node.data as Record<string, any>)?.subgraph?.nodes ?? []) as WorkflowNode[];
+        cost += this.calculateNodesCost(bodyNodes, new Set(), new Map()) * (iterationCounts.get(node.id) ?? 1);
+      } else if (blockId === 'nillion-compute') {
         cost += billingService.getCreditCost('nillion-compute');
       } else if (blockId === 'nillion-block-graph') {
         cost += billingService.getCreditCost('nillion-block-graph');
@@ -134,14 +437,16 @@ export class WorkflowEngine {
     graph: WorkflowGraph,
     payload: Record<string, unknown>,
     runId: string,
+    options: GraphExecutionOptions = {},
   ): Promise<ExecutionResult> {
     const startTime = Date.now();
+    const { checkpoint, concurrency = envConfig.WORKFLOW_NODE_CONCURRENCY, persist = true } = options;
 
     this.validateGraph(graph);
     const executionOrder = this.topologicalSort(graph);
 
     const context: ExecutionContext = {
-      values: new Map(),
+      values: new Map(options.memory ?? []),
     };
 
     const connectorMap = await this.loadConnectors(graph);
@@ -163,99 +468,300 @@ export class WorkflowEngine {
       executedNodeIds.add(inputNode.id);
     }
 
+    const branchState: BranchState = { skipped: new Set(), taken: new Map(), errored: new Set() };
+
+    if (checkpoint && checkpoint.steps.length > 0) {
+      this.restoreCheckpoint(graph, checkpoint, context, executionSteps, executedNodeIds, branchState);
+      logger.info({ runId, restoredSteps: executionSteps.length }, 'Resuming workflow run from checkpoint');
+      if (persist) {
+        createRunLogger(runId).info('Resuming from checkpoint', { restoredSteps: executionSteps.length });
+      }
+    }
+    let checkpointedSteps = executionSteps.length;
+    let publishedSteps = executionSteps.length;
+    const publishFinishedSteps = () => {
+      if (!persist) return;
+      this.reportFinishedSteps(runId, graph, executionSteps.slice(publishedSteps));
+      publishedSteps = executionSteps.length;
+    };
+
     const nodeIndex = new Map<string, number>();
     executionOrder.forEach((id, idx) => nodeIndex.set(id, idx));
 
-    for (let orderIdx = 0; orderIdx < executionOrder.length; orderIdx += 1) {
-      const nodeId = executionOrder[orderIdx];
-      if (executedNodeIds.has(nodeId)) {
-        continue;
-      }
-      const node = graph.nodes.find((n) => n.id === nodeId);
-      if (!node) continue;
+    const state: GraphRunState = {
+      graph,
+      payload,
+      runId,
+      context,
+      connectorMap,
+      executionOrder,
+      nodeIndex,
+      executionSteps,
+      executedNodeIds,
+      inFlightNodeIds: new Set(),
+      branchState,
+      organizationId: options.organizationId,
+      callStack: options.callStack ?? [],
+      signal: options.signal,
+      publishEvents: persist,
+      log: createRunLogger(runId),
+    };
 
-      if (node.type === 'input' || node.type === 'output') continue;
+    // Nodes start as soon as every upstream node has settled, up to `concurrency` at a time
+    const running = new Map<string, Promise<void>>();
+    let failure: unknown;
 
-      const definition = getBlockDefinition(node.blockId);
-      if (!definition) {
-        throw new Error(`Unknown block: ${node.blockId}`);
+    while (true) {
+      publishFinishedSteps();
+      if (persist && executionSteps.length !== checkpointedSteps) {
+        await this.saveCheckpoint(runId, executionSteps, context);
+        checkpointedSteps = executionSteps.length;
       }
 
-      if (definition.handler === 'nillion' && this.isBatchableNillionBlock(definition.id)) {
-        const batchNodeIds = this.buildNillionBatch(graph, executionOrder, nodeIndex, orderIdx, executedNodeIds);
-        const batchResult = await this.executeNillionBatch(graph, batchNodeIds, payload, context, runId);
+      // Cancellation stops new nodes from starting; in-flight ones see the same signal
+      if (failure === undefined && options.signal?.aborted) {
+        failure = options.signal.reason;
+      }
 
-        for (const step of batchResult.steps) {
-          executionSteps.push(step);
-          executedNodeIds.add(step.nodeId);
+      if (failure === undefined) {
+        for (const nodeId of executionOrder) {
+          if (running.size >= concurrency) break;
+          if (executedNodeIds.has(nodeId) || state.inFlightNodeIds.has(nodeId)) continue;
+
+          const node = graph.nodes.find((n) => n.id === nodeId);
+          if (!node || node.type === 'input' || node.type === 'output') continue;
+          if (!this.isNodeReady(node, graph, executedNodeIds)) continue;
+
+          if (this.shouldSkipNode(node, graph, branchState)) {
+            executionSteps.push({
+              nodeId,
+              blockId: node.blockId,
+              inputs: {},
+              outputs: {},
+              duration: 0,
+              status: 'skipped',
+            });
+            branchState.skipped.add(nodeId);
+            executedNodeIds.add(nodeId);
+            continue;
+          }
+
+          state.inFlightNodeIds.add(nodeId);
+          const task = this.executeTracedNode(node, state)
+            .catch((error) => {
+              failure = failure ?? error;
+            })
+            .finally(() => {
+              running.delete(nodeId);
+            });
+          running.set(nodeId, task);
         }
+      }
 
-        continue;
+      if (running.size === 0) {
+        break;
       }
+      // In-flight nodes are allowed to settle after a failure so their steps are recorded
+      await Promise.race(running.values());
+    }
 
-      const nodeInputs = this.gatherNodeInputs(node, graph, context);
-      const stepStart = Date.now();
+    publishFinishedSteps();
+    if (persist && executionSteps.length !== checkpointedSteps) {
+      await this.saveCheckpoint(runId, executionSteps, context);
+    }
 
-      try {
-        const connector = node.connector ? connectorMap.get(node.connector) : undefined;
-
-        const nodeDataWithInputs: Record<string, any> = {
-          ...(node.data as Record<string, any>),
-          __inputs: nodeInputs,
-        };
-
-        const result = await this.executeNode(
-          definition.id,
-          definition.handler,
-          nodeDataWithInputs,
-          { payload, memory: Object.fromEntries(context.values) },
-          connector,
-        );
+    if (failure !== undefined) {
+      throw failure;
+    }
 
-        const configAliases: string[] = [];
-        const nodeData = node.data as Record<string, any>;
-        const normalizedAlias = typeof nodeData?.alias === 'string' ? nodeData.alias.trim() : '';
-        if (normalizedAlias) {
-          configAliases.push(normalizedAlias);
-        }
-        const normalizedResponseAlias =
-          typeof nodeData?.responseAlias === 'string' ? nodeData.responseAlias.trim() : '';
-        if (normalizedResponseAlias) {
-          configAliases.push(normalizedResponseAlias);
+    const outputNodes = graph.nodes.filter((n) => n.type === 'output');
+    const outputs: Record<string, any> = {};
+
+    for (const outputNode of outputNodes) {
+      const incomingEdges = graph.edges.filter((e) => e.target === outputNode.id);
+      for (const edge of incomingEdges) {
+        const sourceOutput = edge.sourceHandle || 'result';
+        const key = `${edge.source}.${sourceOutput}`;
+        const value = context.values.get(key);
+        if (value !== undefined) {
+          const outputName = outputNode.data?.fieldName || outputNode.alias || outputNode.id;
+          outputs[outputName] = value;
         }
+      }
+    }
 
-        const storeOutputValue = (outputName: string, value: any) => {
-          const keys = new Set<string>([`${nodeId}.${outputName}`]);
-          if (node.alias) {
-            keys.add(`${node.alias}.${outputName}`);
+    return {
+      outputs,
+      steps: executionSteps,
+      duration: Date.now() - startTime,
+      status: 'success',
+    };
+  }
+
+  /** One span per scheduled node; it also fails when an error policy let the run continue past the node. */
+  private executeTracedNode(node: WorkflowNode, state: GraphRunState): Promise<void> {
+    const attributes = { 'zecflow.run.id': state.runId, 'zecflow.node.id': node.id, 'zecflow.block.id': node.blockId };
+    return withSpan(`node ${node.blockId}`, { attributes }, async (span) => {
+      const firstStep = state.executionSteps.length;
+      await this.executeScheduledNode(node, state);
+      const failed = state.executionSteps.slice(firstStep).find((step) => step.nodeId === node.id && step.status === 'failed');
+      if (failed) {
+        markSpanFailed(span, new Error(failed.error ?? 'Node failed'));
+      }
+    });
+  }
+
+  /**
+   * Execute one ready node (or the Nillion batch it starts) and record its steps.
+   * Nodes pulled into a batch are marked in flight so the scheduler leaves them alone.
+   */
+  private async executeScheduledNode(node: WorkflowNode, state: GraphRunState): Promise<void> {
+    const {
+      graph,
+      payload,
+      runId,
+      context,
+      connectorMap,
+      executionOrder,
+      nodeIndex,
+      executionSteps,
+      executedNodeIds,
+      inFlightNodeIds,
+      branchState,
+      signal,
+    } = state;
+    const nodeId = node.id;
+    const definition = getBlockDefinition(node.blockId);
+    if (!definition) {
+      throw new Error(`Unknown block: ${node.blockId}`);
+    }
+    const claimedNodeIds = [nodeId];
+    const nodeLog = state.log.child({ nodeId });
+    if (state.publishEvents) {
+      publishRunEvent(runId, { type: 'node-started', nodeId, blockId: node.blockId });
+      nodeLog.info('Node started', { blockId: node.blockId });
+    }
+
+    try {
+      const policy = this.getNodePolicy(node);
+
+      if (definition.handler === 'nillion' && this.isBatchableNillionBlock(definition.id)) {
+        // Nodes with their own policy run as a batch of one so retries and error routing stay per node
+        const batchNodeIds = this.hasCustomPolicy(node)
+          ? [nodeId]
+          : this.buildNillionBatch(graph, executionOrder, nodeIndex, nodeIndex.get(nodeId) ?? 0, executedNodeIds, branchState, inFlightNodeIds);
+        for (const batchNodeId of batchNodeIds) {
+          inFlightNodeIds.add(batchNodeId);
+          claimedNodeIds.push(batchNodeId);
+          const batchNode = graph.nodes.find((n) => n.id === batchNodeId);
+          if (state.publishEvents && batchNodeId !== nodeId && batchNode) {
+            publishRunEvent(runId, { type: 'node-started', nodeId: batchNodeId, blockId: batchNode.blockId });
+            state.log.child({ nodeId: batchNodeId }).info('Node started', { blockId: batchNode.blockId, batchedWith: nodeId });
           }
-          for (const aliasName of configAliases) {
-            keys.add(`${aliasName}.${outputName}`);
+        }
+        const batchStart = Date.now();
+        const outcome = await this.executeWithPolicy(
+          nodeId,
+          policy,
+          (attemptSignal) =>
+            this.executeNillionBatch(graph, batchNodeIds, payload, context, runId, attemptSignal, nodeLog),
+          signal,
+          nodeLog,
+        );
+
+        if (!outcome.value) {
+          // A cancelled run must not fall through to `continue`/`route` error policies
+          signal?.throwIfAborted();
+          const batchNodes = batchNodeIds
+            .map((id) => graph.nodes.find((n) => n.id === id))
+            .filter((n): n is WorkflowNode => Boolean(n));
+          for (const batchNode of batchNodes) {
+            executionSteps.push({
+              nodeId: batchNode.id,
+              blockId: batchNode.blockId,
+              inputs: this.gatherNodeInputs(batchNode, graph, context, { coerce: false }),
+              outputs: {},
+              duration: Date.now() - batchStart,
+              status: 'failed',
+              error: outcome.error?.message,
+              attempts: outcome.attempts,
+            });
+            executedNodeIds.add(batchNode.id);
           }
-          for (const key of keys) {
-            this.setContextValue(context, key, value);
+          for (const batchNode of batchNodes) {
+            this.applyErrorPolicy(batchNode, this.getNodePolicy(batchNode), outcome.error!, context, branchState, executionSteps);
           }
-        };
+          return;
+        }
 
-        if (result && typeof result === 'object' && !Array.isArray(result)) {
-          for (const [outputName, value] of Object.entries(result)) {
-            storeOutputValue(outputName, value);
+        for (const step of outcome.value.steps) {
+          executionSteps.push({ ...step, attempts: outcome.attempts });
+          executedNodeIds.add(step.nodeId);
+          const batchNode = graph.nodes.find((n) => n.id === step.nodeId);
+          if (batchNode) {
+            this.recordBranch(batchNode, step.outputs, context, branchState);
           }
-          storeOutputValue('result', result);
-        } else {
-          storeOutputValue('result', result);
         }
 
+        return;
+      }
+
+      const stepStart = Date.now();
+      let nodeInputs: Record<string, any>;
+      try {
+        nodeInputs = this.gatherNodeInputs(node, graph, context);
+      } catch (error) {
         executionSteps.push({
           nodeId,
           blockId: node.blockId,
-          inputs: nodeInputs,
-          outputs: (result && typeof result === 'object') ? (result as Record<string, any>) : { result },
-          duration: Date.now() - stepStart,
-          status: 'success',
+          inputs: this.gatherNodeInputs(node, graph, context, { coerce: false }),
+          outputs: {},
+          duration: 0,
+          status: 'failed',
+          error: (error as Error).message,
         });
         executedNodeIds.add(nodeId);
-      } catch (error: any) {
+        this.applyErrorPolicy(node, policy, error as Error, context, branchState, executionSteps);
+        return;
+      }
+      const connector = node.connector ? connectorMap.get(node.connector) : undefined;
+
+      const outcome = await this.executeWithPolicy<NodeOutcome>(
+        nodeId,
+        policy,
+        async (attemptSignal) => {
+          if (definition.id === 'for-each') {
+            return this.executeForEach(node, nodeInputs, state, attemptSignal);
+          }
+          if (definition.id === 'call-workflow') {
+            return this.executeCallWorkflow(node, state, attemptSignal);
+          }
+          // Rendered per attempt so a template that fails to evaluate goes through the node's policy
+          const nodeDataWithInputs: Record<string, any> = {
+            ...renderConfigTemplates(node.data as Record<string, any>, {
+              payload,
+              memory: Object.fromEntries(context.values),
+            }),
+            __inputs: nodeInputs,
+          };
+          const result = await this.executeNode(
+            definition.id,
+            definition.handler,
+            nodeDataWithInputs,
+            { payload, memory: Object.fromEntries(context.values) },
+            connector,
+            attemptSignal,
+            nodeLog,
+          );
+          return { result };
+        },
+        signal,
+        nodeLog,
+        findSideEffectNodes({ nodes: [node], edges: [] }).length > 0,
+      );
+
+      if (!outcome.value) {
+        signal?.throwIfAborted();
         executionSteps.push({
           nodeId,
           blockId: node.blockId,
@@ -263,36 +769,522 @@ export class WorkflowEngine {
           outputs: {},
           duration: Date.now() - stepStart,
           status: 'failed',
-          error: error.message,
+          error: outcome.error?.message,
+          attempts: outcome.attempts,
         });
-        throw error;
+        executedNodeIds.add(nodeId);
+        this.applyErrorPolicy(node, policy, outcome.error!, context, branchState, executionSteps);
+        return;
+      }
+
+      const { result } = outcome.value;
+      if (result && typeof result === 'object' && !Array.isArray(result)) {
+        for (const [outputName, value] of Object.entries(result)) {
+          this.storeNodeOutput(node, outputName, value, context);
+        }
+        this.storeNodeOutput(node, 'result', result, context);
+      } else {
+        this.storeNodeOutput(node, 'result', result, context);
+      }
+
+      const stepOutputs = (result && typeof result === 'object') ? (result as Record<string, any>) : { result };
+      executionSteps.push(...(outcome.value.iterations ?? []));
+      executionSteps.push({
+        nodeId,
+        blockId: node.blockId,
+        inputs: nodeInputs,
+        outputs: stepOutputs,
+        duration: Date.now() - stepStart,
+        status: 'success',
+        attempts: outcome.attempts,
+        childCredits: outcome.value.childCredits,
+      });
+      executedNodeIds.add(nodeId);
+      this.recordBranch(node, stepOutputs, context, branchState);
+    } finally {
+      for (const claimedNodeId of claimedNodeIds) {
+        inFlightNodeIds.delete(claimedNodeId);
       }
     }
+  }
 
-    const outputNodes = graph.nodes.filter((n) => n.type === 'output');
-    const outputs: Record<string, any> = {};
+  /**
+   * Run a for-each body once per item. Each iteration executes the embedded sub-graph
+   * with the item in its payload and the parent memory in scope, and is reported as its
+   * own step; the node result is the array of per-iteration outputs.
+   */
+  private async executeForEach(
+    node: WorkflowNode,
+    nodeInputs: Record<string, any>,
+    state: GraphRunState,
+    signal?: AbortSignal,
+  ): Promise<NodeOutcome> {
+    const { payload, context, runId } = state;
+    const data = node.data as Record<string, any>;
+    let items: unknown = nodeInputs.items ?? nodeInputs.value;
+    if (items === undefined && typeof data.itemsPath === 'string' && data.itemsPath.length) {
+      items = this.getValueFromContext({ payload, memory: Object.fromEntries(context.values) }, data.itemsPath);
+    }
+    if (!Array.isArray(items)) {
+      throw new Error(`for-each ${node.id} expected an array of items`);
+    }
 
-    for (const outputNode of outputNodes) {
-      const incomingEdges = graph.edges.filter((e) => e.target === outputNode.id);
-      for (const edge of incomingEdges) {
-        const sourceOutput = edge.sourceHandle || 'result';
-        const key = `${edge.source}.${sourceOutput}`;
-        const value = context.values.get(key);
-        if (value !== undefined) {
-          const outputName = outputNode.data?.fieldName || outputNode.alias || outputNode.id;
-          outputs[outputName] = value;
+    const maxIterations = typeof data.maxIterations === 'number' ? data.maxIterations : 100;
+    if (items.length > maxIterations) {
+      throw new Error(`for-each ${node.id} received ${items.length} items, above maxIterations (${maxIterations})`);
+    }
+
+    const subgraph = data.subgraph as WorkflowGraph | undefined;
+    if (!subgraph || !Array.isArray(subgraph.nodes) || subgraph.nodes.length === 0) {
+      throw new Error(`for-each ${node.id} has no sub-graph`);
+    }
+    const body: WorkflowGraph = { nodes: subgraph.nodes, edges: subgraph.edges ?? [] };
+
+    const itemAlias = typeof data.itemAlias === 'string' && data.itemAlias.length ? data.itemAlias : 'item';
+    const concurrency = typeof data.concurrency === 'number' && data.concurrency > 0 ? data.concurrency : 1;
+    const results: unknown[] = new Array(items.length);
+    const iterations: ExecutionStep[] = new Array(items.length);
+    let nextIndex = 0;
+    let failure: Error | undefined;
+
+    const worker = async () => {
+      while (failure === undefined && nextIndex < items.length) {
+        const index = nextIndex;
+        nextIndex += 1;
+        const item = items[index];
+        const iterationStart = Date.now();
+        try {
+          const iterationPayload = { ...payload, [itemAlias]: item, item, index };
+          const outcome = await this.executeGraph(body, iterationPayload, runId, {
+            memory: context.values,
+            concurrency: 1,
+            persist: false,
+            organizationId: state.organizationId,
+            callStack: state.callStack,
+            signal,
+          });
+          results[index] = outcome.outputs;
+          iterations[index] = {
+            nodeId: node.id,
+            blockId: node.blockId,
+            inputs: { item, index },
+            outputs: outcome.outputs,
+            duration: Date.now() - iterationStart,
+            status: 'success',
+            iteration: index,
+          };
+        } catch (error: any) {
+          failure = new Error(`for-each ${node.id} iteration ${index} failed: ${error?.message ?? 'unknown error'}`);
         }
       }
+    };
+
+    await Promise.all(Array.from({ length: Math.min(concurrency, items.length) }, () => worker()));
+    if (failure) {
+      throw failure;
     }
 
+    return { result: results, iterations };
+  }
+
+  /**
+   * Invoke another published workflow of the same organization. `sync` executes its graph
+   * inline and returns its outputs; `async` queues a child run linked to this one.
+   */
+  private async executeCallWorkflow(
+    node: WorkflowNode,
+    state: GraphRunState,
+    signal?: AbortSignal,
+  ): Promise<NodeOutcome> {
+    const { graph, payload, context, runId, callStack } = state;
+    const data = node.data as Record<string, any>;
+    const targetId = String(data.workflowId ?? '');
+
+    if (callStack.includes(targetId)) {
+      throw new Error(`call-workflow ${node.id} would recurse: ${[...callStack, targetId].join(' -> ')}`);
+    }
+
+    const target = await WorkflowModel.findById(targetId);
+    if (!target || target.organization.toString() !== state.organizationId) {
+      throw new Error(`call-workflow ${node.id}: workflow ${targetId} not found`);
+    }
+    if (target.status !== 'published') {
+      throw new Error(`call-workflow ${node.id}: workflow ${targetId} is not published`);
+    }
+    const targetGraph = (await this.loadPublishedVersion(target))?.graph ?? target.graph;
+    if (!targetGraph || !targetGraph.nodes || targetGraph.nodes.length === 0) {
+      throw new Error(`call-workflow ${node.id}: workflow ${targetId} has no graph`);
+    }
+
+    const contextSnapshot = { payload, memory: Object.fromEntries(context.values) };
+    // Each incoming edge fills the payload field named by its target handle
+    const childPayload: Record<string, unknown> = this.gatherNodeInputs(node, graph, context, { includeConfig: false });
+    const mapping = (data.inputs ?? {}) as Record<string, string>;
+    for (const [key, path] of Object.entries(mapping)) {
+      childPayload[key] = this.getValueFromContext(contextSnapshot, path);
+    }
+
+    const childCallStack = [...callStack, targetId];
+
+    if (data.mode === 'async') {
+      const childRun = await RunModel.create({
+        workflow: target._id,
+        payload: childPayload,
+        status: 'pending',
+        parentRun: runId,
+        callStack,
+      });
+      await enqueueRunJob(childRun.id);
+      return { result: { runId: childRun.id, status: childRun.status } };
+    }
+
+    const childResult = await this.executeGraph(targetGraph, childPayload, runId, {
+      persist: false,
+      organizationId: state.organizationId,
+      callStack: childCallStack,
+      signal,
+    });
+    const skippedNodeIds = new Set(
+      childResult.steps.filter((step) => step.status === 'skipped').map((step) => step.nodeId),
+    );
+    const childCredits =
+      this.calculateNodesCost(targetGraph.nodes, skippedNodeIds, new Map()) +
+      childResult.steps.reduce((sum, step) => sum + (step.childCredits ?? 0), 0);
+
+    return { result: childResult.outputs, childCredits };
+  }
+
+  private isNodeReady(node: WorkflowNode, graph: WorkflowGraph, executedNodeIds: Set<string>): boolean {
+    return graph.edges.every((edge) => edge.target !== node.id || executedNodeIds.has(edge.source));
+  }
+
+  private reportFinishedSteps(runId: string, graph: WorkflowGraph, steps: ExecutionStep[]): void {
+    const runLog = createRunLogger(runId);
+    for (const step of steps) {
+      blockExecutionsTotal.inc({ block: step.blockId, status: step.status });
+      if (step.status !== 'skipped') {
+        blockDurationSeconds.observe({ block: step.blockId, status: step.status }, step.duration / 1000);
+      }
+
+      const stepLog = runLog.child({ nodeId: step.nodeId });
+      const details = { blockId: step.blockId, durationMs: step.duration };
+      if (step.iteration !== undefined) {
+        stepLog.debug(`Iteration ${step.iteration} finished`, details);
+      } else if (step.status === 'failed') {
+        stepLog.error('Node failed', { ...details, error: step.error, attempts: step.attempts?.length });
+      } else if (step.status === 'skipped') {
+        stepLog.info('Node skipped', details);
+      } else {
+        stepLog.info('Node succeeded', { ...details, attempts: step.attempts?.length });
+      }
+
+      const node = graph.nodes.find((n) => n.id === step.nodeId);
+      const redact = node ? this.getNodePolicy(node).redact : 'all';
+      publishRunEvent(runId, {
+        type: 'node-finished',
+        nodeId: step.nodeId,
+        blockId: step.blockId,
+        status: step.status,
+        duration: step.duration,
+        outputs: redactOutputs(step.outputs, redact),
+        ...(step.error ? { error: step.error } : {}),
+        ...(step.iteration !== undefined ? { iteration: step.iteration } : {}),
+      });
+    }
+  }
+
+  private async saveCheckpoint(runId: string, steps: ExecutionStep[], context: ExecutionContext): Promise<void> {
+    // Memory is stored as entries because context keys contain dots
+    const memory = Array.from(context.values.entries()).map(([key, value]) => ({ key, value: sealMemoryValue(value) }));
+    await RunModel.updateOne({ _id: runId }, { $set: { steps, memory } });
+  }
+
+  /**
+   * Rebuild engine state from a persisted checkpoint. Steps that succeeded, were skipped
+   * or failed under a `continue`/`route` policy are kept; the node that failed the run
+   * (and anything after it) executes again.
+   */
+  private restoreCheckpoint(
+    graph: WorkflowGraph,
+    checkpoint: ExecutionCheckpoint,
+    context: ExecutionContext,
+    executionSteps: ExecutionStep[],
+    executedNodeIds: Set<string>,
+    branchState: BranchState,
+  ): void {
+    for (const entry of checkpoint.memory) {
+      context.values.set(entry.key, openMemoryValue(entry.value));
+    }
+
+    for (const step of checkpoint.steps) {
+      const node = graph.nodes.find((n) => n.id === step.nodeId);
+      if (!node) continue;
+      // Iteration steps are recorded again when their for-each node runs
+      if (step.iteration !== undefined) continue;
+
+      if (step.status === 'failed') {
+        const policy = this.getNodePolicy(node);
+        if (policy.onError === 'fail') {
+          continue;
+        }
+        if (policy.onError === 'route') {
+          branchState.errored.add(node.id);
+        }
+      } else if (step.status === 'skipped') {
+        branchState.skipped.add(node.id);
+      } else {
+        this.recordBranch(node, step.outputs, context, branchState);
+      }
+
+      executionSteps.push(step);
+      executedNodeIds.add(node.id);
+    }
+  }
+
+  private getNodePolicy(node: WorkflowNode): NodePolicy {
+    const raw = ((node.data as Record<string, any>)?.policy ?? {}) as Partial<NodePolicy>;
     return {
-      outputs,
-      steps: executionSteps,
-      duration: Date.now() - startTime,
-      status: 'success',
+      retries: Number.isInteger(raw.retries) && (raw.retries as number) > 0 ? (raw.retries as number) : 0,
+      backoff: raw.backoff === 'fixed' ? 'fixed' : 'exponential',
+      backoffDelayMs: typeof raw.backoffDelayMs === 'number' && raw.backoffDelayMs >= 0 ? raw.backoffDelayMs : 1000,
+      timeoutMs: typeof raw.timeoutMs === 'number' && raw.timeoutMs > 0 ? raw.timeoutMs : undefined,
+      onError: raw.onError === 'continue' || raw.onError === 'route' ? raw.onError : 'fail',
+      fallbackValue: raw.fallbackValue,
+      redact: raw.redact === 'none' || raw.redact === 'values' || raw.redact === 'all'
+        ? raw.redact
+        : this.defaultRedaction(node),
     };
   }
 
+  // Confidential compute, inference and shielded payments keep values off live streams unless opted in
+  private defaultRedaction(node: WorkflowNode): NodePolicy['redact'] {
+    const handler = getBlockDefinition(node.blockId)?.handler;
+    return handler === 'nillion' || handler === 'nilai' || handler === 'zcash' ? 'values' : 'none';
+  }
+
+  private hasCustomPolicy(node: WorkflowNode): boolean {
+    const policy = this.getNodePolicy(node);
+    return policy.retries > 0 || policy.timeoutMs !== undefined || policy.onError !== 'fail';
+  }
+
+  /**
+   * Run a node body under its policy: every attempt is bounded by the timeout, failed
+   * attempts are retried with backoff and all of them are reported for the run trace.
+   * Each attempt gets its own signal, aborted when it times out, so it stops before the
+   * next one starts. A side-effecting node is not retried after a timeout because the
+   * aborted attempt may already have taken effect.
+   */
+  private async executeWithPolicy<T>(
+    nodeId: string,
+    policy: NodePolicy,
+    fn: (signal: AbortSignal) => Promise<T>,
+    signal?: AbortSignal,
+    log?: RunLogger,
+    sideEffects = false,
+  ): Promise<{ value?: T; error?: Error; attempts: ExecutionAttempt[] }> {
+    const attempts: ExecutionAttempt[] = [];
+    const maxAttempts = policy.retries + 1;
+    let lastError: Error | undefined;
+
+    for (let attempt = 1; attempt <= maxAttempts; attempt += 1) {
+      const startedAt = Date.now();
+      const attemptController = new AbortController();
+      const attemptSignal = signal ? AbortSignal.any([signal, attemptController.signal]) : attemptController.signal;
+      try {
+        const value = await this.withTimeout(fn(attemptSignal), policy.timeoutMs, nodeId, attemptController);
+        attempts.push({ attempt, startedAt: new Date(startedAt).toISOString(), duration: Date.now() - startedAt, status: 'success' });
+        return { value, attempts };
+      } catch (error: any) {
+        lastError = error instanceof Error ? error : new Error(String(error));
+        attempts.push({
+          attempt,
+          startedAt: new Date(startedAt).toISOString(),
+          duration: Date.now() - startedAt,
+          status: 'failed',
+          error: lastError.message,
+        });
+
+        if (sideEffects && attemptController.signal.aborted) {
+          log?.warn('Attempt timed out, not retrying a side-effecting block', { attempt, error: lastError.message });
+          break;
+        }
+        if (attempt < maxAttempts && !signal?.aborted) {
+          const delay =
+            policy.backoff === 'fixed' ? policy.backoffDelayMs : policy.backoffDelayMs * 2 ** (attempt - 1);
+          logger.warn({ nodeId, attempt, maxAttempts, delay, err: lastError }, 'Workflow node failed, retrying');
+          log?.warn('Attempt failed, retrying', { attempt, maxAttempts, delayMs: delay, error: lastError.message });
+          await this.sleep(delay, signal);
+        }
+        if (signal?.aborted) {
+          break;
+        }
+      }
+    }
+
+    return { error: lastError, attempts };
+  }
+
+  /** Reject once `timeoutMs` has passed, aborting the attempt's controller with the same error. */
+  private async withTimeout<T>(
+    promise: Promise<T>,
+    timeoutMs: number | undefined,
+    nodeId: string,
+    controller: AbortController,
+  ): Promise<T> {
+    if (!timeoutMs) {
+      return promise;
+    }
+    let timer: NodeJS.Timeout | undefined;
+    const timeout = new Promise<never>((_resolve, reject) => {
+      timer = setTimeout(() => {
+        const error = new Error(`Node ${nodeId} timed out after ${timeoutMs}ms`);
+        controller.abort(error);
+        reject(error);
+      }, timeoutMs);
+    });
+    // The aborted attempt settles later; its rejection is already accounted for by the timeout
+    promise.catch(() => undefined);
+    try {
+      return await Promise.race([promise, timeout]);
+    } finally {
+      clearTimeout(timer);
+    }
+  }
+
+  /**
+   * Decide what happens after a node used up its attempts: `fail` aborts the run,
+   * `continue` carries on with the fallback value and `route` follows the node's
+   * `error` edges instead of its regular outputs.
+   */
+  private applyErrorPolicy(
+    node: WorkflowNode,
+    policy: NodePolicy,
+    error: Error,
+    context: ExecutionContext,
+    branchState: BranchState,
+    steps: ExecutionStep[],
+  ): void {
+    if (policy.onError === 'fail') {
+      throw new NodeFailureError(error.message, steps);
+    }
+
+    logger.warn({ nodeId: node.id, onError: policy.onError, err: error }, 'Workflow node failed, applying error policy');
+
+    if (policy.onError === 'continue') {
+      if (policy.fallbackValue !== undefined) {
+        this.storeNodeOutput(node, 'result', policy.fallbackValue, context);
+        const step = steps.find((s) => s.nodeId === node.id);
+        if (step) {
+          step.outputs = { result: policy.fallbackValue };
+        }
+      }
+      return;
+    }
+
+    branchState.errored.add(node.id);
+    this.storeNodeOutput(node, ERROR_HANDLE, { message: error.message }, context);
+  }
+
+  private storeNodeOutput(node: WorkflowNode, outputName: string, value: any, context: ExecutionContext): void {
+    const nodeData = node.data as Record<string, any>;
+    const keys = new Set<string>([`${node.id}.${outputName}`]);
+    if (node.alias) {
+      keys.add(`${node.alias}.${outputName}`);
+    }
+    const normalizedAlias = typeof nodeData?.alias === 'string' ? nodeData.alias.trim() : '';
+    if (normalizedAlias) {
+      keys.add(`${normalizedAlias}.${outputName}`);
+    }
+    const normalizedResponseAlias = typeof nodeData?.responseAlias === 'string' ? nodeData.responseAlias.trim() : '';
+    if (normalizedResponseAlias) {
+      keys.add(`${normalizedResponseAlias}.${outputName}`);
+    }
+    for (const key of keys) {
+      this.setContextValue(context, key, value);
+    }
+  }
+
+  /**
+   * A node is skipped when every incoming edge is dead: either its source was skipped,
+   * it leaves a branching node through a branch handle that was not taken, or it is an
+   * `error` edge whose source did not fail (or a regular edge whose source did).
+   */
+  private shouldSkipNode(node: WorkflowNode, graph: WorkflowGraph, branchState: BranchState): boolean {
+    const incoming = graph.edges.filter((e) => e.target === node.id);
+    if (incoming.length === 0) {
+      return false;
+    }
+    return incoming.every((edge) => !this.isEdgeLive(edge, graph, branchState));
+  }
+
+  private isEdgeLive(edge: WorkflowEdge, graph: WorkflowGraph, branchState: BranchState): boolean {
+    if (branchState.skipped.has(edge.source)) {
+      return false;
+    }
+    if (branchState.errored.has(edge.source)) {
+      return edge.sourceHandle === ERROR_HANDLE;
+    }
+    if (edge.sourceHandle === ERROR_HANDLE) {
+      return false;
+    }
+    const taken = branchState.taken.get(edge.source);
+    if (taken === undefined || !edge.sourceHandle) {
+      return true;
+    }
+    const sourceNode = graph.nodes.find((n) => n.id === edge.source);
+    const branches = sourceNode ? getBlockDefinition(sourceNode.blockId)?.branches ?? [] : [];
+    if (!branches.includes(edge.sourceHandle)) {
+      return true;
+    }
+    return edge.sourceHandle === taken;
+  }
+
+  private isBranchEdge(edge: WorkflowEdge, graph: WorkflowGraph): boolean {
+    if (!edge.sourceHandle) {
+      return false;
+    }
+    if (edge.sourceHandle === ERROR_HANDLE) {
+      return true;
+    }
+    const sourceNode = graph.nodes.find((n) => n.id === edge.source);
+    const branches = sourceNode ? getBlockDefinition(sourceNode.blockId)?.branches ?? [] : [];
+    return branches.includes(edge.sourceHandle);
+  }
+
+  /**
+   * Remember which branch a branching node took and expose its routed value on the
+   * taken handle so downstream nodes can read it like any other output.
+   */
+  private recordBranch(
+    node: WorkflowNode,
+    outputs: Record<string, any>,
+    context: ExecutionContext,
+    branchState: BranchState,
+  ): void {
+    const branches = getBlockDefinition(node.blockId)?.branches;
+    if (!branches || !branches.length) {
+      return;
+    }
+    const branch = outputs.branch;
+    if (typeof branch !== 'string' || !branches.includes(branch)) {
+      return;
+    }
+    branchState.taken.set(node.id, branch);
+    const routedValue = outputs.value !== undefined ? outputs.value : outputs.result;
+    this.setContextValue(context, `${node.id}.${branch}`, routedValue);
+    if (node.alias) {
+      this.setContextValue(context, `${node.alias}.${branch}`, routedValue);
+    }
+  }
+
+  private toBranch(raw: unknown): 'true' | 'false' {
+    if (typeof raw === 'string') {
+      const lowered = raw.trim().toLowerCase();
+      return lowered === '' || lowered === '0' || lowered === 'false' ? 'false' : 'true';
+    }
+    return raw ? 'true' : 'false';
+  }
+
   private isBatchableNillionBlock(blockId: string): boolean {
     return (
       blockId === 'math-add' ||
@@ -310,6 +1302,8 @@ export class WorkflowEngine {
     nodeIndex: Map<string, number>,
     startIndex: number,
     executedNodeIds: Set<string>,
+    branchState: BranchState,
+    inFlightNodeIds: Set<string>,
   ): string[] {
     const nodeById = new Map<string, WorkflowNode>();
     for (const node of graph.nodes) {
@@ -325,7 +1319,18 @@ export class WorkflowEngine {
       if (!def || def.handler !== 'nillion' || !this.isBatchableNillionBlock(def.id)) {
         continue;
       }
-      if (executedNodeIds.has(id)) {
+      if (executedNodeIds.has(id) || this.hasCustomPolicy(node)) {
+        continue;
+      }
+      // Nodes already running in another branch belong to their own batch
+      if (id !== executionOrder[startIndex] && inFlightNodeIds.has(id)) {
+        continue;
+      }
+      // Nodes behind an already routed branch run on their own so skipping stays per node
+      const hasDeadInput = graph.edges.some(
+        (e) => e.target === id && executedNodeIds.has(e.source) && !this.isEdgeLive(e, graph, branchState),
+      );
+      if (hasDeadInput) {
         continue;
       }
       candidateIds.add(id);
@@ -351,16 +1356,12 @@ export class WorkflowEngine {
             continue;
           }
 
-          const sourceIndex = nodeIndex.get(sourceId);
-          if (sourceIndex === undefined) {
-            continue;
-          }
-
-          if (sourceIndex < startIndex) {
+          if (!nodeIndex.has(sourceId)) {
             continue;
           }
 
-          if (candidateIds.has(sourceId) && batch.has(sourceId)) {
+          // A branch edge cannot be resolved until its source has run, so it ends the batch
+          if (candidateIds.has(sourceId) && batch.has(sourceId) && !this.isBranchEdge(edge, graph)) {
             continue;
           }
 
@@ -424,6 +1425,8 @@ export class WorkflowEngine {
     payload: Record<string, unknown>,
     context: ExecutionContext,
     runId: string,
+    signal?: AbortSignal,
+    log?: RunLogger,
   ): Promise<{ steps: ExecutionStep[] }> {
     const nodeById = new Map<string, WorkflowNode>();
     for (const node of graph.nodes) {
@@ -437,6 +1440,7 @@ export class WorkflowEngine {
     const nillionGraphEdges: { id: string; source: string; target: string; sourceHandle?: string; targetHandle?: string }[] = [];
 
     const nodeInputsById = new Map<string, Record<string, any>>();
+    const staticInputsById = new Map<string, Record<string, any>>();
 
     const contextSnapshot = {
       payload,
@@ -550,6 +1554,7 @@ export class WorkflowEngine {
         }
       }
 
+      staticInputsById.set(nodeId, staticInputs);
       nillionGraphNodes.push({
         id: nodeId,
         blockId: nillionBlockId,
@@ -589,86 +1594,61 @@ export class WorkflowEngine {
       'Executing Nillion batch graph',
     );
 
-    try {
-      const { output } = await nilccExecutionService.executeBlockGraph(nillionGraph, {}, batchRunId);
+    const { output } = await nilccExecutionService.executeBlockGraph(nillionGraph, {}, batchRunId, {
+      signal,
+      log: log?.child({ source: 'nilcc' }),
+      onLogs: this.forwardNilccLogs(runId),
+    });
+    // A batch that timed out must not write its late results into the run's context
+    signal?.throwIfAborted();
 
-      for (const nodeId of batchNodeIds) {
-        const node = nodeById.get(nodeId);
-        if (!node) continue;
+    for (const nodeId of batchNodeIds) {
+      const node = nodeById.get(nodeId);
+      if (!node) continue;
 
-        const nodeInputs = nodeInputsById.get(nodeId) ?? {};
-        const nodeData = node.data as Record<string, any>;
-        const configAliases: string[] = [];
-        const normalizedAlias = typeof nodeData?.alias === 'string' ? nodeData.alias.trim() : '';
-        if (normalizedAlias) {
-          configAliases.push(normalizedAlias);
-        }
-        const normalizedResponseAlias =
-          typeof nodeData?.responseAlias === 'string' ? nodeData.responseAlias.trim() : '';
-        if (normalizedResponseAlias) {
-          configAliases.push(normalizedResponseAlias);
-        }
+      const nodeInputs = nodeInputsById.get(nodeId) ?? {};
 
-        const storeOutputValue = (outputName: string, value: any) => {
-          const keys = new Set<string>([`${nodeId}.${outputName}`]);
-          if (node.alias) {
-            keys.add(`${node.alias}.${outputName}`);
-          }
-          for (const aliasName of configAliases) {
-            keys.add(`${aliasName}.${outputName}`);
-          }
-          for (const key of keys) {
-            this.setContextValue(context, key, value);
-          }
-        };
-
-        const valueKey = `${nodeId}.result`;
-        const rawValue = (output as Record<string, unknown>)[valueKey];
-
-        let normalizedValue: unknown = rawValue;
-        if (node.blockId === 'math-greater-than') {
-          if (typeof rawValue === 'boolean') {
-            normalizedValue = rawValue;
-          } else if (typeof rawValue === 'number') {
-            normalizedValue = rawValue !== 0;
-          } else if (typeof rawValue === 'string') {
-            const lowered = rawValue.toLowerCase();
-            normalizedValue = rawValue === '1' || lowered === 'true';
-          } else {
-            normalizedValue = Boolean(rawValue);
-          }
+      const valueKey = `${nodeId}.result`;
+      const rawValue = (output as Record<string, unknown>)[valueKey];
+
+      let normalizedValue: unknown = rawValue;
+      if (node.blockId === 'math-greater-than') {
+        if (typeof rawValue === 'boolean') {
+          normalizedValue = rawValue;
+        } else if (typeof rawValue === 'number') {
+          normalizedValue = rawValue !== 0;
         } else if (typeof rawValue === 'string') {
-          const parsed = Number(rawValue);
-          normalizedValue = Number.isNaN(parsed) ? rawValue : parsed;
+          const lowered = rawValue.toLowerCase();
+          normalizedValue = rawValue === '1' || lowered === 'true';
+        } else {
+          normalizedValue = Boolean(rawValue);
         }
+      } else if (typeof rawValue === 'string') {
+        const parsed = Number(rawValue);
+        normalizedValue = Number.isNaN(parsed) ? rawValue : parsed;
+      }
 
-        storeOutputValue('result', normalizedValue);
+      this.storeNodeOutput(node, 'result', normalizedValue, context);
 
-        steps.push({
-          nodeId,
-          blockId: node.blockId,
-          inputs: nodeInputs,
-          outputs: { result: normalizedValue },
-          duration: Date.now() - stepStart,
-          status: 'success',
-        });
-      }
-    } catch (error: any) {
-      for (const nodeId of batchNodeIds) {
-        const node = nodeById.get(nodeId);
-        if (!node) continue;
-        const nodeInputs = nodeInputsById.get(nodeId) ?? {};
-        steps.push({
-          nodeId,
-          blockId: node.blockId,
-          inputs: nodeInputs,
-          outputs: {},
-          duration: Date.now() - stepStart,
-          status: 'failed',
-          error: error.message,
-        });
+      const stepOutputs: Record<string, any> = { result: normalizedValue };
+      if (node.blockId === 'logic-if-else') {
+        const conditionEdge = graph.edges.find(
+          (e) => e.target === nodeId && e.targetHandle === 'condition' && batchSet.has(e.source),
+        );
+        const conditionValue = conditionEdge
+          ? (output as Record<string, unknown>)[`${conditionEdge.source}.${conditionEdge.sourceHandle || 'result'}`]
+          : staticInputsById.get(nodeId)?.condition;
+        stepOutputs.branch = this.toBranch(conditionValue);
       }
-      throw error;
+
+      steps.push({
+        nodeId,
+        blockId: node.blockId,
+        inputs: nodeInputs,
+        outputs: stepOutputs,
+        duration: Date.now() - stepStart,
+        status: 'success',
+      });
     }
 
     return { steps };
@@ -682,18 +1662,20 @@ export class WorkflowEngine {
     nodeData: Record<string, any>,
     context: { payload: Record<string, unknown>; memory: MemoryMap },
     connector?: LeanConnector,
+    signal?: AbortSignal,
+    log?: RunLogger,
   ): Promise<unknown> {
     switch (handler) {
       case 'logic':
         return this.executeLogicBlock(blockId, nodeData, context);
       case 'nillion':
-        return this.executeNillionBlock(blockId, nodeData, context);
+        return this.executeNillionBlock(blockId, nodeData, context, signal, log);
       case 'nilai':
-        return this.executeNilAIBlock(nodeData, context);
+        return this.executeNilAIBlock(nodeData, signal, log);
       case 'zcash':
-        return this.executeZcashBlock(nodeData, context);
+        return this.executeZcashBlock(nodeData, context, signal, log);
       case 'connector':
-        return this.executeConnectorBlock(blockId, nodeData, context, connector);
+        return this.executeConnectorBlock(blockId, nodeData, context, connector, signal);
       default:
         throw new Error(`Unsupported handler ${handler}`);
     }
@@ -711,11 +1693,21 @@ export class WorkflowEngine {
 
     if (blockId === 'json-extract') {
       const source = (data.source as string) === 'memory' ? context.memory : context.payload;
-      return this.getValueFromObject(source, data.path as string);
+      return resolvePath(data.path as string, source as Record<string, unknown>);
+    }
+
+    if (blockId === 'condition') {
+      const edgeInputs = (data.__inputs as Record<string, unknown> | undefined) ?? {};
+      let value: unknown = edgeInputs.value;
+      if (value === undefined && typeof data.conditionPath === 'string' && data.conditionPath.length) {
+        value = this.getValueFromContext(context, data.conditionPath);
+      }
+      const passed = this.evaluateCondition(value, (data.operator as string) ?? 'truthy', data.compareTo);
+      return { passed, branch: passed ? 'true' : 'false', value };
     }
 
     if (blockId === 'memo-parser') {
-      const source = this.getValueFromContext(context, data.sourcePath as string);
+      const source = this.readPortInput(blockId, data, context, 'memo');
       if (typeof source !== 'string') return {};
       const delimiter = (data.delimiter as string) ?? ':';
       return source.split('\n').reduce<Record<string, string>>((acc, line) => {
@@ -728,11 +1720,47 @@ export class WorkflowEngine {
     throw new Error(`Unknown logic block ${blockId}`);
   }
 
+  private evaluateCondition(value: unknown, operator: string, compareTo: unknown): boolean {
+    switch (operator) {
+      case 'truthy':
+        return this.toBranch(value) === 'true';
+      case 'falsy':
+        return this.toBranch(value) === 'false';
+      case 'equals':
+        return value === compareTo || String(value) === String(compareTo);
+      case 'not_equals':
+        return !(value === compareTo || String(value) === String(compareTo));
+      case 'gt':
+        return Number(value) > Number(compareTo);
+      case 'gte':
+        return Number(value) >= Number(compareTo);
+      case 'lt':
+        return Number(value) < Number(compareTo);
+      case 'lte':
+        return Number(value) <= Number(compareTo);
+      case 'contains':
+        return String(value).includes(String(compareTo));
+      case 'exists':
+        return value !== undefined && value !== null;
+      default:
+        throw new Error(`Unsupported condition operator ${operator}`);
+    }
+  }
+
+  private forwardNilccLogs(runId?: string) {
+    if (!runId) return undefined;
+    return (workloadId: string, lines: string[]) =>
+      publishRunEvent(runId, { type: 'log', source: 'nilcc', workloadId, lines });
+  }
+
   private async executeNillionBlock(
     blockId: string,
     data: Record<string, any>,
     context: { payload: Record<string, unknown>; memory: MemoryMap },
+    signal?: AbortSignal,
+    log?: RunLogger,
   ): Promise<unknown> {
+    const nilccOptions = { signal, log: log?.child({ source: 'nilcc' }), onLogs: this.forwardNilccLogs(log?.runId) };
     const resolveSlotValue = (slotName: string): unknown => {
       const slots = (data.__inputSlots as Record<string, { source: string; output?: string }> | undefined) ?? {};
       const slot = slots[slotName];
@@ -815,7 +1843,7 @@ export class WorkflowEngine {
       };
 
       const runId = `${Date.now()}-${Math.random().toString(36).substring(2, 9)}`;
-      const { output } = await nilccExecutionService.executeBlockGraph(nillionGraph as any, {}, runId);
+      const { output } = await nilccExecutionService.executeBlockGraph(nillionGraph as any, {}, runId, nilccOptions);
       const raw = (output as Record<string, unknown>)['n1.result'];
 
       if (blockId === 'math-greater-than') {
@@ -894,18 +1922,18 @@ export class WorkflowEngine {
       };
 
       const runId = `${Date.now()}-${Math.random().toString(36).substring(2, 9)}`;
-      const { output } = await nilccExecutionService.executeBlockGraph(nillionGraph as any, {}, runId);
+      const { output } = await nilccExecutionService.executeBlockGraph(nillionGraph as any, {}, runId, nilccOptions);
       const raw = (output as Record<string, unknown>)['n1.result'];
       return raw;
     }
 
     if (blockId === 'nillion-compute') {
-      const inputPath = data.inputPath as string | undefined;
-      const input = inputPath ? this.getValueFromContext(context, inputPath) : data.inputs || context.payload;
+      const input = this.readPortInput(blockId, data, context, 'input', data.inputs || context.payload);
       return nilccExecutionService.execute(
         data.workloadId as string,
         (input ?? {}) as Record<string, unknown>,
         (data.relativePath as string) || '/',
+        { signal },
       );
     }
 
@@ -926,12 +1954,12 @@ export class WorkflowEngine {
       }
 
       const runId = `${Date.now()}-${Math.random().toString(36).substring(2, 9)}`;
-      return nilccExecutionService.executeBlockGraph(nillionGraph, graphInputs, runId);
+      return nilccExecutionService.executeBlockGraph(nillionGraph, graphInputs, runId, nilccOptions);
     }
 
     if (blockId === 'state-store') {
-      const dataToStore = data.dataPath ? this.getValueFromContext(context, data.dataPath as string) : context.payload;
-      const key = data.keyPath ? this.getValueFromContext(context, data.keyPath as string) : 'default';
+      const dataToStore = this.readPortInput(blockId, data, context, 'data', context.payload);
+      const key = this.readPortInput(blockId, data, context, 'key', 'default');
       let keyStr = typeof key === 'string' && key.length ? key : 'default';
 
       const parts = keyStr.split(':');
@@ -959,8 +1987,7 @@ export class WorkflowEngine {
     }
 
     if (blockId === 'state-read') {
-      const effectiveKeyPath = (data.keyPath as string | undefined) || 'payload.stateKey';
-      const keyValue = this.getValueFromContext(context, effectiveKeyPath);
+      const keyValue = this.readPortInput(blockId, data, context, 'key', context.payload.stateKey);
       const rawKey = typeof keyValue === 'string' && keyValue.length ? keyValue : 'default';
       const parts = rawKey.split(':');
       if (parts.length === 2) {
@@ -975,31 +2002,25 @@ export class WorkflowEngine {
 
   private async executeNilAIBlock(
     data: Record<string, any>,
-    context: { payload: Record<string, unknown>; memory: MemoryMap },
+    signal?: AbortSignal,
+    log?: RunLogger,
   ): Promise<NilAIBlockResult> {
-    const template = data.promptTemplate as string;
-    const rendered = template.replace(/{{(.*?)}}/g, (_match, path: string) => {
-      const value = this.getValueFromContext(context, path.trim());
-      return value !== undefined ? String(value) : '';
-    });
-    return nilaiService.runInference(rendered);
+    // The prompt was rendered with the rest of the config; rendering it again would evaluate `{{ }}` in payload values
+    return nilaiService.runInference(data.promptTemplate as string, undefined, { signal, log: log?.child({ source: 'nilai' }) });
   }
 
   private async executeZcashBlock(
     data: Record<string, any>,
     context: { payload: Record<string, unknown>; memory: MemoryMap },
+    signal?: AbortSignal,
+    log?: RunLogger,
   ): Promise<{ txId: string; operationId: string }> {
-    const amount = this.getValueFromContext(context, data.amountPath as string);
-    const addressPath = data.addressPath as string | undefined;
-    const memoPath = data.memoPath as string | undefined;
-    const fromAddressPath = data.fromAddressPath as string | undefined;
-    const address = addressPath
-      ? (this.getValueFromContext(context, addressPath) as string)
-      : (data.fallbackAddress as string);
-    const fromAddress = fromAddressPath
-      ? (this.getValueFromContext(context, fromAddressPath) as string)
-      : (data.fallbackFromAddress as string | undefined);
-    const memo = memoPath ? (this.getValueFromContext(context, memoPath) as string) : undefined;
+    const amount = this.readPortInput('zcash-send', data, context, 'amount');
+    const address = this.readPortInput('zcash-send', data, context, 'address', data.fallbackAddress) as string;
+    const fromAddress = this.readPortInput('zcash-send', data, context, 'fromAddress', data.fallbackFromAddress) as
+      | string
+      | undefined;
+    const memo = this.readPortInput('zcash-send', data, context, 'memo') as string | undefined;
     if (!address || amount === undefined) {
       throw new Error('Zcash block missing address or amount');
     }
@@ -1015,6 +2036,8 @@ export class WorkflowEngine {
       fee: fee ?? null,
       privacyPolicy,
       timeoutMs,
+      signal,
+      log: log?.child({ source: 'zcash' }),
     });
   }
 
@@ -1023,6 +2046,7 @@ export class WorkflowEngine {
     data: Record<string, any>,
     context: { payload: Record<string, unknown>; memory: MemoryMap },
     connector?: LeanConnector,
+    signal?: AbortSignal,
   ): Promise<unknown> {
     if (blockId === 'connector-request') {
       if (!connector) {
@@ -1033,7 +2057,7 @@ export class WorkflowEngine {
         throw new Error('Connector missing baseUrl');
       }
       const url = new URL((data.relativePath as string) ?? '/', baseUrl).toString();
-      return this.performHttpCall(url, data, context, connector.config as Record<string, unknown>);
+      return this.performHttpCall(blockId, url, data, context, connector.config as Record<string, unknown>, signal);
     }
 
     if (blockId === 'custom-http-action') {
@@ -1041,26 +2065,27 @@ export class WorkflowEngine {
       if (!url) {
         throw new Error('Custom HTTP block requires URL');
       }
-      return this.performHttpCall(url, data, context);
+      return this.performHttpCall(blockId, url, data, context, undefined, signal);
     }
 
     return undefined;
   }
 
   private async performHttpCall(
+    blockId: string,
     url: string,
     data: Record<string, any>,
     context: { payload: Record<string, unknown>; memory: MemoryMap },
     connectorConfig?: Record<string, unknown>,
+    signal?: AbortSignal,
   ): Promise<unknown> {
     const method = (data.method as string) ?? 'POST';
     const headers = {
       ...(connectorConfig?.headers as Record<string, string> | undefined),
       ...((data.headers as Record<string, string>) ?? {}),
     };
-    const bodyPath = data.bodyPath as string | undefined;
-    const bodyData = bodyPath ? this.getValueFromContext(context, bodyPath) : context.payload;
-    const response = await axios.request({ method, url, headers, data: bodyData });
+    const bodyData = this.readPortInput(blockId, data, context, 'body', context.payload);
+    const response = await axios.request({ method, url, headers, data: bodyData, signal });
     return response.data;
   }
 
@@ -1068,8 +2093,10 @@ export class WorkflowEngine {
     node: WorkflowNode,
     graph: WorkflowGraph,
     context: ExecutionContext,
+    options: { coerce?: boolean; includeConfig?: boolean } = {},
   ): Record<string, any> {
-    const inputs: Record<string, any> = { ...(node.data as Record<string, any>) };
+    const inputs: Record<string, any> = options.includeConfig === false ? {} : { ...(node.data as Record<string, any>) };
+    const ports = getBlockDefinition(node.blockId)?.inputs ?? [];
 
     const incomingEdges = graph.edges.filter((e) => e.target === node.id);
 
@@ -1077,26 +2104,35 @@ export class WorkflowEngine {
       const sourceNode = graph.nodes.find((n) => n.id === edge.source);
       const defaultOutput = sourceNode?.type === 'input' ? 'value' : 'result';
       const sourceOutput = edge.sourceHandle || defaultOutput;
-
-      let targetInput = edge.targetHandle;
-      if (!targetInput && sourceNode?.type === 'input' && sourceNode.data?.fieldName) {
-        targetInput = sourceNode.data.fieldName;
-      }
-      if (!targetInput) {
-        targetInput = 'value';
-      }
+      const targetInput = resolveTargetHandle(edge, sourceNode, ports);
 
       const key = `${edge.source}.${sourceOutput}`;
       const value = context.values.get(key);
 
       if (value !== undefined) {
-        inputs[targetInput] = value;
+        inputs[targetInput] = options.coerce === false ? value : this.coerceEdgeValue(node, findPort(ports, targetInput), value);
       }
     }
 
     return inputs;
   }
 
+  /**
+   * Convert an edge value to the declared port type. Values that cannot be converted fail
+   * the node, unless the port's config path is set for the block to fall back on.
+   */
+  private coerceEdgeValue(node: WorkflowNode, port: BlockPort | undefined, value: unknown): unknown {
+    if (!port) return value;
+
+    const coerced = coercePortValue(value, port.type);
+    if (coerced.ok) return coerced.value;
+
+    const fallbackPath = port.configField ? node.data?.[port.configField] : undefined;
+    if (typeof fallbackPath === 'string' && fallbackPath.length) return value;
+
+    throw new Error(`Input "${port.name}" of node ${node.id} expects ${port.type}, got ${describeValueType(value)}`);
+  }
+
   private topologicalSort(graph: WorkflowGraph): string[] {
     const nodeMap = new Map<string, WorkflowNode>();
     const inDegree = new Map<string, number>();
@@ -1194,18 +2230,31 @@ export class WorkflowEngine {
     current[path[path.length - 1]] = value;
   }
 
+  /**
+   * An input port's value: what its edge delivered, else what its config path points at,
+   * else `fallback` when the block has neither.
+   */
+  private readPortInput(
+    blockId: string,
+    data: Record<string, any>,
+    context: { payload: Record<string, unknown>; memory: MemoryMap },
+    name: string,
+    fallback?: unknown,
+  ): unknown {
+    const port = findPort(getBlockDefinition(blockId)?.inputs, name);
+    const edgeValue = ((data.__inputs as Record<string, unknown> | undefined) ?? {})[name];
+    // A value the port cannot take only gets this far when the config path is set, so the path wins then
+    if (edgeValue !== undefined && port && coercePortValue(edgeValue, port.type).ok) {
+      return edgeValue;
+    }
+    const path = port?.configField ? data[port.configField] : undefined;
+    return typeof path === 'string' && path.length ? this.getValueFromContext(context, path) : fallback;
+  }
+
   private getValueFromContext(context: { payload: Record<string, unknown>; memory: MemoryMap }, path?: string) {
     if (!path) return undefined;
     const root = { payload: context.payload, memory: context.memory };
-    return this.getValueFromObject(root, path);
-  }
-
-  private getValueFromObject(obj: any, path: string): unknown {
-    return path.split('.').reduce<unknown>((acc, key) => {
-      if (acc === undefined || acc === null) return undefined;
-      if (typeof acc === 'object' && key in acc) return (acc as Record<string, unknown>)[key];
-      return undefined;
-    }, obj);
+    return resolvePath(path, root);
   }
 
   private getNestedValue(obj: any, path: string): any {
@@ -1213,6 +2262,19 @@ export class WorkflowEngine {
     return path.split('.').reduce((acc, part) => (acc && acc[part] !== undefined ? acc[part] : undefined), obj);
   }
 
+  /** Resolves after `ms`, or as soon as the signal aborts. */
+  private sleep(ms: number, signal?: AbortSignal): Promise<void> {
+    return new Promise((resolve) => {
+      const timer = setTimeout(done, ms);
+      function done() {
+        clearTimeout(timer);
+        signal?.removeEventListener('abort', done);
+        resolve();
+      }
+      signal?.addEventListener('abort', done, { once: true });
+    });
+  }
+
   private async loadConnectors(graph: WorkflowGraph) {
     const connectorIds = graph.nodes
       .filter((node) => node.connector)
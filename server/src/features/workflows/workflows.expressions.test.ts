@@ -0,0 +1,159 @@
+import { describe, expect, it } from 'vitest';
+import {
+  ExpressionError,
+  evaluateExpression,
+  parseExpression,
+  renderConfigTemplates,
+  renderTemplate,
+  resolvePath,
+  validateConfigExpressions,
+} from './workflows.expressions';
+
+const scope = {
+  payload: { name: 'Ada', id: 7, items: [{ amount: 3 }, { amount: 5 }], tags: ['a', 'b'] },
+  memory: { score: { value: 4 }, 'score-card': { value: 9 } },
+};
+
+describe('evaluateExpression', () => {
+  it('follows operator precedence', () => {
+    expect(evaluateExpression('memory.score.value * 2 + 1', scope)).toBe(9);
+    expect(evaluateExpression('1 + 2 * 3 - 4 / 2', scope)).toBe(5);
+    expect(evaluateExpression('(1 + 2) * 3', scope)).toBe(9);
+    expect(evaluateExpression('-memory.score.value % 3', scope)).toBe(-1);
+  });
+
+  it('reads members and indexes', () => {
+    expect(evaluateExpression('payload.items[1].amount', scope)).toBe(5);
+    expect(evaluateExpression("payload['name']", scope)).toBe('Ada');
+    expect(evaluateExpression('payload.name.length', scope)).toBe(3);
+    expect(evaluateExpression('payload.missing.deeper', scope)).toBeUndefined();
+  });
+
+  it('concatenates when either side of + is a string', () => {
+    expect(evaluateExpression("upper(payload.name) + '-' + payload.id", scope)).toBe('ADA-7');
+  });
+
+  it('short-circuits logical operators', () => {
+    expect(evaluateExpression('payload.items[5].amount ?? 0', scope)).toBe(0);
+    expect(evaluateExpression("payload.missing || 'fallback'", scope)).toBe('fallback');
+    expect(evaluateExpression('false && payload.missing > 1', scope)).toBe(false);
+    expect(evaluateExpression('!payload.missing', scope)).toBe(true);
+  });
+
+  it('calls the built-in functions', () => {
+    expect(evaluateExpression('len(payload.items) >= 2', scope)).toBe(true);
+    expect(evaluateExpression('len(memory)', scope)).toBe(2);
+    expect(evaluateExpression('round(3.14159, 2)', scope)).toBe(3.14);
+    expect(evaluateExpression('lower(payload.name)', scope)).toBe('ada');
+    expect(evaluateExpression('json(payload.tags)', scope)).toBe('["a","b"]');
+  });
+
+  it('compares loosely for equality across primitives', () => {
+    expect(evaluateExpression("payload.id == '7'", scope)).toBe(true);
+    expect(evaluateExpression('payload.id != 8', scope)).toBe(true);
+    expect(evaluateExpression('null == 0', scope)).toBe(false);
+  });
+
+  it('orders two numbers or two strings', () => {
+    expect(evaluateExpression('payload.id > 3', scope)).toBe(true);
+    expect(evaluateExpression('payload.id <= 7', scope)).toBe(true);
+    expect(evaluateExpression("'apple' < 'banana'", scope)).toBe(true);
+    expect(evaluateExpression("payload.name >= 'Bob'", scope)).toBe(false);
+  });
+
+  it('rejects ordering between mixed types', () => {
+    expect(() => evaluateExpression("'10' < 9", scope)).toThrow(ExpressionError);
+    expect(() => evaluateExpression("'10' < 9", scope)).toThrow("Cannot compare string with number using '<'");
+    expect(() => evaluateExpression('payload.missing >= 1', scope)).toThrow('Cannot compare undefined with number');
+    expect(() => evaluateExpression('payload.tags > null', scope)).toThrow('Cannot compare array with null');
+  });
+
+  it('never reads inherited or prototype properties', () => {
+    expect(evaluateExpression('payload.constructor', scope)).toBeUndefined();
+    expect(evaluateExpression("payload['__proto__']", scope)).toBeUndefined();
+    expect(evaluateExpression('payload.toString', scope)).toBeUndefined();
+  });
+});
+
+describe('parseExpression', () => {
+  it.each([
+    ['', 'Expression is empty'],
+    ['1 +', 'Unexpected end of expression'],
+    ["'open", 'Unterminated string'],
+    ['payload # 1', "Unexpected character '#'"],
+    ['eval(1)', "Unknown function 'eval'"],
+    ['(1 + 2]', "Expected ')'"],
+    ['1 2', "Unexpected '2'"],
+  ])('rejects %j', (source, message) => {
+    expect(() => parseExpression(source)).toThrow(message);
+  });
+
+  it('limits nesting and length', () => {
+    expect(() => parseExpression(`${'('.repeat(40)}1${')'.repeat(40)}`)).toThrow('nested too deeply');
+    expect(() => parseExpression('1 + '.repeat(300) + '1')).toThrow('longer than 1000 characters');
+  });
+});
+
+describe('resolvePath', () => {
+  it('keeps dot-path lookups for simple paths', () => {
+    expect(resolvePath('memory.score-card.value', scope)).toBe(9);
+    expect(resolvePath('payload.items.0.amount', scope)).toBe(3);
+  });
+
+  it('never reads inherited or prototype properties', () => {
+    expect(resolvePath('payload.constructor', scope)).toBeUndefined();
+    expect(resolvePath('payload.__proto__', scope)).toBeUndefined();
+    expect(resolvePath('payload.name.toString', scope)).toBeUndefined();
+    expect(renderTemplate('{{ payload.constructor }}', scope)).toBe('');
+  });
+
+  it('evaluates anything else as an expression', () => {
+    expect(resolvePath('payload.items[0].amount + 1', scope)).toBe(4);
+  });
+});
+
+describe('templates', () => {
+  it('renders every placeholder', () => {
+    expect(renderTemplate('Hi {{ payload.name }}, you have {{ len(payload.items) }} items {{ payload.missing }}', scope)).toBe(
+      'Hi Ada, you have 2 items ',
+    );
+    expect(renderTemplate('{{ payload.tags }}', scope)).toBe('["a","b"]');
+  });
+
+  it('leaves path fields and nested graphs alone when rendering configs', () => {
+    const config = {
+      message: 'Hello {{ payload.name }}',
+      valuePath: '{{ payload.name }}',
+      inputs: { name: 'payload.name' },
+      subgraph: { nodes: [{ prompt: '{{ payload.name }}' }] },
+      list: ['{{ payload.id }}'],
+    };
+    expect(renderConfigTemplates(config, scope)).toEqual({ ...config, message: 'Hello Ada', list: ['7'] });
+  });
+
+  it('reports each invalid field', () => {
+    expect(
+      validateConfigExpressions({
+        message: 'Hello {{ payload.name + }}',
+        amountPath: 'payload.amount * ',
+        nested: { note: '{{ eval(1) }}' },
+        inputs: { ok: 'payload.name', bad: 'payload[' },
+        fine: 'plain text',
+      }).map((issue) => issue.field),
+    ).toEqual(['message', 'amountPath', 'nested.note', 'inputs.bad']);
+  });
+
+  it('checks the nodes of a for-each body', () => {
+    const subgraph = {
+      nodes: [
+        { id: 'ok', data: { message: '{{ payload.item }}' } },
+        { id: 'broken', data: { valuePath: 'payload.item +', subgraph: { nodes: [{ id: 'deep', data: { note: '{{ ( }}' } }] } } },
+      ],
+      edges: [],
+    };
+    expect(validateConfigExpressions({ subgraph }).map((issue) => issue.field)).toEqual([
+      'subgraph.broken.valuePath',
+      'subgraph.broken.subgraph.deep.note',
+    ]);
+  });
+});
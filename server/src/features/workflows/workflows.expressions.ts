@@ -0,0 +1,507 @@
+/**
+ * Sandboxed expression language used by block config fields.
+ *
+ * Expressions are parsed into a small AST and interpreted; nothing is ever handed to
+ * `eval` or `Function`. Identifiers resolve against the evaluation scope (`payload`,
+ * `memory`, ...) and member access only reads own properties.
+ *
+ *   memory.score.value * 2 + 1
+ *   upper(payload.name) + '-' + payload.id
+ *   payload.items[0].amount ?? 0
+ *   len(payload.items) >= 3
+ */
+
+type ExpressionNode =
+  | { kind: 'literal'; value: unknown }
+  | { kind: 'identifier'; name: string }
+  | { kind: 'member'; object: ExpressionNode; property: ExpressionNode }
+  | { kind: 'call'; name: string; args: ExpressionNode[] }
+  | { kind: 'unary'; operator: '!' | '-'; operand: ExpressionNode }
+  | { kind: 'binary'; operator: string; left: ExpressionNode; right: ExpressionNode };
+
+type Token =
+  | { type: 'number'; value: number; pos: number }
+  | { type: 'string'; value: string; pos: number }
+  | { type: 'identifier'; value: string; pos: number }
+  | { type: 'operator'; value: string; pos: number };
+
+export class ExpressionError extends Error {
+  constructor(message: string, readonly position?: number) {
+    super(position === undefined ? message : `${message} at position ${position}`);
+    this.name = 'ExpressionError';
+  }
+}
+
+const MAX_EXPRESSION_LENGTH = 1000;
+const MAX_DEPTH = 32;
+
+const FORBIDDEN_PROPERTIES = new Set(['__proto__', 'prototype', 'constructor']);
+
+// Longest operators first so `??` is not read as two `?`
+const OPERATORS = ['===', '!==', '==', '!=', '<=', '>=', '&&', '||', '??', '+', '-', '*', '/', '%', '<', '>', '!', '(', ')', '[', ']', '.', ','];
+
+const FUNCTIONS: Record<string, (...args: unknown[]) => unknown> = {
+  lower: (value) => String(value ?? '').toLowerCase(),
+  upper: (value) => String(value ?? '').toUpperCase(),
+  round: (value, digits) => {
+    const factor = 10 ** (typeof digits === 'number' ? digits : 0);
+    return Math.round(Number(value) * factor) / factor;
+  },
+  now: () => new Date().toISOString(),
+  json: (value) => JSON.stringify(value ?? null),
+  len: (value) => {
+    if (typeof value === 'string' || Array.isArray(value)) return value.length;
+    if (value && typeof value === 'object') return Object.keys(value).length;
+    return 0;
+  },
+};
+
+const SIMPLE_PATH = /^[\w$-]+(\.[\w$-]+)*$/;
+
+const tokenize = (source: string): Token[] => {
+  const tokens: Token[] = [];
+  let pos = 0;
+
+  while (pos < source.length) {
+    const char = source[pos];
+
+    if (/\s/.test(char)) {
+      pos += 1;
+      continue;
+    }
+
+    if (/[0-9]/.test(char)) {
+      const match = /^[0-9]+(\.[0-9]+)?/.exec(source.slice(pos))!;
+      tokens.push({ type: 'number', value: Number(match[0]), pos });
+      pos += match[0].length;
+      continue;
+    }
+
+    if (char === '"' || char === "'") {
+      let value = '';
+      let end = pos + 1;
+      while (end < source.length && source[end] !== char) {
+        if (source[end] === '\\' && end + 1 < source.length) {
+          end += 1;
+        }
+        value += source[end];
+        end += 1;
+      }
+      if (end >= source.length) {
+        throw new ExpressionError('Unterminated string', pos);
+      }
+      tokens.push({ type: 'string', value, pos });
+      pos = end + 1;
+      continue;
+    }
+
+    if (/[A-Za-z_$]/.test(char)) {
+      const match = /^[A-Za-z_$][\w$]*/.exec(source.slice(pos))!;
+      tokens.push({ type: 'identifier', value: match[0], pos });
+      pos += match[0].length;
+      continue;
+    }
+
+    const operator = OPERATORS.find((op) => source.startsWith(op, pos));
+    if (!operator) {
+      throw new ExpressionError(`Unexpected character '${char}'`, pos);
+    }
+    tokens.push({ type: 'operator', value: operator, pos });
+    pos += operator.length;
+  }
+
+  return tokens;
+};
+
+class Parser {
+  private index = 0;
+  private depth = 0;
+
+  constructor(private readonly tokens: Token[], private readonly length: number) {}
+
+  parse(): ExpressionNode {
+    if (this.tokens.length === 0) {
+      throw new ExpressionError('Expression is empty');
+    }
+    const node = this.parseBinary(0);
+    const extra = this.peek();
+    if (extra) {
+      throw new ExpressionError(`Unexpected '${extra.value}'`, extra.pos);
+    }
+    return node;
+  }
+
+  // Lowest precedence first
+  private static readonly LEVELS = [
+    ['??'],
+    ['||'],
+    ['&&'],
+    ['==', '!=', '===', '!=='],
+    ['<', '<=', '>', '>='],
+    ['+', '-'],
+    ['*', '/', '%'],
+  ];
+
+  private parseBinary(level: number): ExpressionNode {
+    if (level >= Parser.LEVELS.length) {
+      return this.parseUnary();
+    }
+    let left = this.parseBinary(level + 1);
+    while (this.isOperator(...Parser.LEVELS[level])) {
+      const operator = this.next().value as string;
+      const right = this.parseBinary(level + 1);
+      left = { kind: 'binary', operator, left, right };
+    }
+    return left;
+  }
+
+  private parseUnary(): ExpressionNode {
+    if (this.isOperator('!', '-')) {
+      const operator = this.next().value as '!' | '-';
+      return this.nested(() => ({ kind: 'unary', operator, operand: this.parseUnary() }));
+    }
+    return this.parsePostfix();
+  }
+
+  private parsePostfix(): ExpressionNode {
+    let node = this.parsePrimary();
+    while (this.isOperator('.', '[')) {
+      const operator = this.next();
+      if (operator.value === '.') {
+        const property = this.next();
+        if (property.type !== 'identifier' && property.type !== 'number') {
+          throw new ExpressionError('Expected property name', property.pos);
+        }
+        node = { kind: 'member', object: node, property: { kind: 'literal', value: String(property.value) } };
+      } else {
+        const property = this.nested(() => this.parseBinary(0));
+        this.expect(']');
+        node = { kind: 'member', object: node, property };
+      }
+    }
+    return node;
+  }
+
+  private parsePrimary(): ExpressionNode {
+    const token = this.next();
+
+    if (token.type === 'number' || token.type === 'string') {
+      return { kind: 'literal', value: token.value };
+    }
+
+    if (token.type === 'identifier') {
+      if (token.value === 'true' || token.value === 'false') {
+        return { kind: 'literal', value: token.value === 'true' };
+      }
+      if (token.value === 'null') {
+        return { kind: 'literal', value: null };
+      }
+      if (this.isOperator('(')) {
+        if (!Object.prototype.hasOwnProperty.call(FUNCTIONS, token.value)) {
+          throw new ExpressionError(`Unknown function '${token.value}'`, token.pos);
+        }
+        this.next();
+        const args: ExpressionNode[] = [];
+        while (!this.isOperator(')')) {
+          args.push(this.nested(() => this.parseBinary(0)));
+          if (!this.isOperator(',')) break;
+          this.next();
+        }
+        this.expect(')');
+        return { kind: 'call', name: token.value, args };
+      }
+      return { kind: 'identifier', name: token.value };
+    }
+
+    if (token.value === '(') {
+      const node = this.nested(() => this.parseBinary(0));
+      this.expect(')');
+      return node;
+    }
+
+    throw new ExpressionError(`Unexpected '${token.value}'`, token.pos);
+  }
+
+  private nested<T>(fn: () => T): T {
+    this.depth += 1;
+    if (this.depth > MAX_DEPTH) {
+      throw new ExpressionError('Expression is nested too deeply');
+    }
+    try {
+      return fn();
+    } finally {
+      this.depth -= 1;
+    }
+  }
+
+  private peek(): Token | undefined {
+    return this.tokens[this.index];
+  }
+
+  private next(): Token {
+    const token = this.tokens[this.index];
+    if (!token) {
+      throw new ExpressionError('Unexpected end of expression', this.length);
+    }
+    this.index += 1;
+    return token;
+  }
+
+  private isOperator(...values: string[]): boolean {
+    const token = this.peek();
+    return token?.type === 'operator' && values.includes(token.value);
+  }
+
+  private expect(value: string): void {
+    const token = this.next();
+    if (token.type !== 'operator' || token.value !== value) {
+      throw new ExpressionError(`Expected '${value}'`, token.pos);
+    }
+  }
+}
+
+const parseCache = new Map<string, ExpressionNode>();
+
+export const parseExpression = (source: string): ExpressionNode => {
+  const cached = parseCache.get(source);
+  if (cached) {
+    return cached;
+  }
+  if (source.length > MAX_EXPRESSION_LENGTH) {
+    throw new ExpressionError(`Expression is longer than ${MAX_EXPRESSION_LENGTH} characters`);
+  }
+  const node = new Parser(tokenize(source), source.length).parse();
+  if (parseCache.size > 1000) {
+    parseCache.clear();
+  }
+  parseCache.set(source, node);
+  return node;
+};
+
+const readProperty = (target: unknown, key: unknown): unknown => {
+  if (target === null || target === undefined) {
+    return undefined;
+  }
+  const property = String(key);
+  if (FORBIDDEN_PROPERTIES.has(property)) {
+    return undefined;
+  }
+  if (typeof target === 'string') {
+    return property === 'length' ? target.length : target[Number(property)];
+  }
+  if (typeof target === 'object' && Object.prototype.hasOwnProperty.call(target, property)) {
+    return (target as Record<string, unknown>)[property];
+  }
+  return undefined;
+};
+
+const toNumber = (value: unknown): number => (typeof value === 'number' ? value : Number(value));
+
+const describeOperand = (value: unknown): string => (value === null ? 'null' : Array.isArray(value) ? 'array' : typeof value);
+
+/** Order two numbers or two strings; anything else, such as `"10" < 9`, is an error rather than a coercion. */
+const compareOperands = (operator: string, left: unknown, right: unknown): number => {
+  if (typeof left === 'number' && typeof right === 'number') {
+    return left - right;
+  }
+  if (typeof left === 'string' && typeof right === 'string') {
+    return left < right ? -1 : left > right ? 1 : 0;
+  }
+  throw new ExpressionError(`Cannot compare ${describeOperand(left)} with ${describeOperand(right)} using '${operator}'`);
+};
+
+const evaluateBinary = (operator: string, left: unknown, right: unknown): unknown => {
+  switch (operator) {
+    case '+':
+      if (typeof left === 'string' || typeof right === 'string') {
+        return `${left ?? ''}${right ?? ''}`;
+      }
+      return toNumber(left) + toNumber(right);
+    case '-':
+      return toNumber(left) - toNumber(right);
+    case '*':
+      return toNumber(left) * toNumber(right);
+    case '/':
+      return toNumber(left) / toNumber(right);
+    case '%':
+      return toNumber(left) % toNumber(right);
+    case '==':
+    case '===':
+      return left === right || (left !== null && right !== null && typeof left !== 'object' && String(left) === String(right));
+    case '!=':
+    case '!==':
+      return !evaluateBinary('==', left, right);
+    case '<':
+      return compareOperands(operator, left, right) < 0;
+    case '<=':
+      return compareOperands(operator, left, right) <= 0;
+    case '>':
+      return compareOperands(operator, left, right) > 0;
+    case '>=':
+      return compareOperands(operator, left, right) >= 0;
+    default:
+      throw new ExpressionError(`Unsupported operator '${operator}'`);
+  }
+};
+
+const evaluateNode = (node: ExpressionNode, scope: Record<string, unknown>): unknown => {
+  switch (node.kind) {
+    case 'literal':
+      return node.value;
+    case 'identifier':
+      return readProperty(scope, node.name);
+    case 'member':
+      return readProperty(evaluateNode(node.object, scope), evaluateNode(node.property, scope));
+    case 'call':
+      return FUNCTIONS[node.name](...node.args.map((arg) => evaluateNode(arg, scope)));
+    case 'unary': {
+      const operand = evaluateNode(node.operand, scope);
+      return node.operator === '!' ? !operand : -toNumber(operand);
+    }
+    case 'binary': {
+      const left = evaluateNode(node.left, scope);
+      // Short-circuit operators only evaluate the right side when needed
+      if (node.operator === '??') return left ?? evaluateNode(node.right, scope);
+      if (node.operator === '&&') return left ? evaluateNode(node.right, scope) : left;
+      if (node.operator === '||') return left ? left : evaluateNode(node.right, scope);
+      return evaluateBinary(node.operator, left, evaluateNode(node.right, scope));
+    }
+    default:
+      return undefined;
+  }
+};
+
+export const evaluateExpression = (source: string, scope: Record<string, unknown>): unknown => {
+  return evaluateNode(parseExpression(source), scope);
+};
+
+/**
+ * Plain dot paths (`payload.user.id`, `memory.score-card.value`, `payload.items.0`) keep
+ * their original lookup semantics so existing configs behave exactly as before.
+ */
+export const isSimplePath = (source: string): boolean => SIMPLE_PATH.test(source);
+
+// Same own-property rules as member access in expressions, so a dot path cannot reach prototypes either
+const lookupPath = (scope: Record<string, unknown>, path: string): unknown => {
+  return path.split('.').reduce<unknown>((acc, key) => {
+    if (acc === undefined || acc === null || FORBIDDEN_PROPERTIES.has(key)) return undefined;
+    if (typeof acc === 'object' && Object.prototype.hasOwnProperty.call(acc, key)) {
+      return (acc as Record<string, unknown>)[key];
+    }
+    return undefined;
+  }, scope);
+};
+
+/** Resolve a `*Path` config value: either a dot path or a full expression. */
+export const resolvePath = (source: string, scope: Record<string, unknown>): unknown => {
+  const trimmed = source.trim();
+  return isSimplePath(trimmed) ? lookupPath(scope, trimmed) : evaluateExpression(trimmed, scope);
+};
+
+const TEMPLATE_PATTERN = /{{(.*?)}}/g;
+
+export const hasTemplate = (value: string): boolean => value.includes('{{');
+
+/** Replace every `{{ expression }}` in a string with its evaluated value. */
+export const renderTemplate = (template: string, scope: Record<string, unknown>): string => {
+  return template.replace(TEMPLATE_PATTERN, (_match, source: string) => {
+    const value = resolvePath(source, scope);
+    if (value === undefined || value === null) return '';
+    return typeof value === 'object' ? JSON.stringify(value) : String(value);
+  });
+};
+
+export interface ExpressionIssue {
+  field: string;
+  message: string;
+}
+
+// Config keys whose values are context paths even though they do not end in `Path`
+const PATH_MAP_FIELDS = new Set(['inputs', 'inputMapping']);
+// Nested graphs are rendered by their own nodes when they run; validation checks them node by node
+const SKIPPED_FIELDS = new Set(['subgraph', '__inputSlots']);
+
+const subgraphNodes = (value: unknown): { id: string; data: Record<string, unknown> }[] => {
+  const nodes = value && typeof value === 'object' ? (value as { nodes?: unknown }).nodes : undefined;
+  if (!Array.isArray(nodes)) return [];
+  return nodes.filter(
+    (node): node is { id: string; data: Record<string, unknown> } =>
+      Boolean(node) && typeof node.id === 'string' && Boolean(node.data) && typeof node.data === 'object',
+  );
+};
+
+/**
+ * Check every path and template in a block config without evaluating anything.
+ * Returns one issue per invalid field; an empty list means the config is usable.
+ */
+export const validateConfigExpressions = (config: Record<string, unknown>, prefix = ''): ExpressionIssue[] => {
+  const issues: ExpressionIssue[] = [];
+
+  const check = (field: string, source: string, asPath: boolean) => {
+    try {
+      if (asPath && !isSimplePath(source.trim())) {
+        parseExpression(source.trim());
+      }
+      if (hasTemplate(source)) {
+        for (const match of source.matchAll(TEMPLATE_PATTERN)) {
+          const inner = match[1].trim();
+          if (!isSimplePath(inner)) {
+            parseExpression(inner);
+          }
+        }
+      }
+    } catch (error) {
+      issues.push({ field, message: (error as Error).message });
+    }
+  };
+
+  for (const [key, value] of Object.entries(config ?? {})) {
+    const field = prefix ? `${prefix}.${key}` : key;
+    // A for-each body is inline and never created as blocks of its own, so its nodes are checked here
+    if (key === 'subgraph') {
+      for (const node of subgraphNodes(value)) {
+        issues.push(...validateConfigExpressions(node.data, `${field}.${node.id}`));
+      }
+      continue;
+    }
+    if (SKIPPED_FIELDS.has(key)) continue;
+
+    if (typeof value === 'string') {
+      check(field, value, key.endsWith('Path'));
+    } else if (PATH_MAP_FIELDS.has(key) && value && typeof value === 'object' && !Array.isArray(value)) {
+      for (const [mapKey, mapValue] of Object.entries(value)) {
+        if (typeof mapValue === 'string') {
+          check(`${field}.${mapKey}`, mapValue, true);
+        }
+      }
+    } else if (value && typeof value === 'object') {
+      issues.push(...validateConfigExpressions(value as Record<string, unknown>, field));
+    }
+  }
+
+  return issues;
+};
+
+/**
+ * Render `{{ }}` templates in every string of a block config, leaving path fields
+ * (resolved later by the block itself) and nested graphs untouched.
+ */
+export const renderConfigTemplates = <T>(value: T, scope: Record<string, unknown>, key = ''): T => {
+  if (typeof value === 'string') {
+    return (key.endsWith('Path') || !hasTemplate(value) ? value : renderTemplate(value, scope)) as T;
+  }
+  if (Array.isArray(value)) {
+    return value.map((entry) => renderConfigTemplates(entry, scope)) as T;
+  }
+  if (value && typeof value === 'object') {
+    const rendered: Record<string, unknown> = {};
+    for (const [entryKey, entry] of Object.entries(value as Record<string, unknown>)) {
+      rendered[entryKey] =
+        SKIPPED_FIELDS.has(entryKey) || PATH_MAP_FIELDS.has(entryKey) || entryKey === '__inputs'
+          ? entry
+          : renderConfigTemplates(entry, scope, entryKey);
+    }
+    return rendered as T;
+  }
+  return value;
+};
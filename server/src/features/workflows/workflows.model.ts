@@ -11,6 +11,10 @@ export interface WorkflowDocument extends Document {
   blocks: Array<Record<string, unknown>>;
   graph?: WorkflowGraph;
   version?: number;
+  /** Runs are stopped with status `timed_out` after this long; falls back to WORKFLOW_MAX_DURATION_MS */
+  maxDurationMs?: number;
+  /** Runs of this workflow allowed to execute at once; `1` runs them one at a time */
+  maxConcurrentRuns?: number;
 }
 
 const workflowSchema = new Schema<WorkflowDocument>(
@@ -56,6 +60,8 @@ const workflowSchema = new Schema<WorkflowDocument>(
       default: undefined,
     },
     version: { type: Number, default: 1 },
+    maxDurationMs: { type: Number, min: 0 },
+    maxConcurrentRuns: { type: Number, min: 1 },
   },
   { timestamps: true },
 );
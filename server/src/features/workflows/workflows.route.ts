@@ -1,11 +1,24 @@
 import { Router } from 'express';
 import { authenticate } from '@/shared/middlewares/auth.middleware';
 import { validate } from '@/shared/middlewares/validation.middleware';
-import { createWorkflowSchema, publishWorkflowSchema, deleteWorkflowSchema } from './workflows.schema';
+import {
+  createWorkflowSchema,
+  publishWorkflowSchema,
+  deleteWorkflowSchema,
+  updateWorkflowSchema,
+  workflowVersionSchema,
+  diffWorkflowVersionsSchema,
+} from './workflows.schema';
 import {
   createWorkflowHandler,
+  updateWorkflowHandler,
   listWorkflowsHandler,
   publishWorkflowHandler,
+  validateWorkflowHandler,
+  listWorkflowVersionsHandler,
+  getWorkflowVersionHandler,
+  diffWorkflowVersionsHandler,
+  rollbackWorkflowHandler,
   getWorkflowSnippetHandler,
    getWorkflowGraphHandler,
    getWorkflowTraceHandler,
@@ -17,9 +30,20 @@ const router = Router();
 router.get('/', authenticate, listWorkflowsHandler);
 router.post('/', authenticate, validate(createWorkflowSchema), createWorkflowHandler);
 router.post('/:workflowId/publish', authenticate, validate(publishWorkflowSchema), publishWorkflowHandler);
+router.post('/:workflowId/validate', authenticate, validate(publishWorkflowSchema), validateWorkflowHandler);
+router.get('/:workflowId/versions', authenticate, validate(publishWorkflowSchema), listWorkflowVersionsHandler);
+router.get('/:workflowId/versions/diff', authenticate, validate(diffWorkflowVersionsSchema), diffWorkflowVersionsHandler);
+router.get('/:workflowId/versions/:version', authenticate, validate(workflowVersionSchema), getWorkflowVersionHandler);
+router.post(
+  '/:workflowId/versions/:version/rollback',
+  authenticate,
+  validate(workflowVersionSchema),
+  rollbackWorkflowHandler,
+);
 router.get('/:workflowId/snippet', authenticate, getWorkflowSnippetHandler);
 router.get('/:workflowId/graph', authenticate, getWorkflowGraphHandler);
 router.get('/:workflowId/trace/:runId', authenticate, getWorkflowTraceHandler);
+router.patch('/:workflowId', authenticate, validate(updateWorkflowSchema), updateWorkflowHandler);
 router.delete('/:workflowId', authenticate, validate(deleteWorkflowSchema), deleteWorkflowHandler);
 
 export default router;
@@ -6,6 +6,18 @@ export const createWorkflowSchema = z.object({
     description: z.string().optional(),
     triggerId: z.string().optional(),
     datasetId: z.string().optional(),
+    maxDurationMs: z.number().int().min(0).optional(),
+    maxConcurrentRuns: z.number().int().min(1).optional(),
+  }),
+});
+
+export const updateWorkflowSchema = z.object({
+  params: z.object({ workflowId: z.string().min(1) }),
+  body: z.object({
+    name: z.string().min(1).optional(),
+    description: z.string().optional(),
+    maxDurationMs: z.number().int().min(0).nullable().optional(),
+    maxConcurrentRuns: z.number().int().min(1).nullable().optional(),
   }),
 });
 
@@ -16,3 +28,14 @@ export const publishWorkflowSchema = z.object({
 export const deleteWorkflowSchema = z.object({
   params: z.object({ workflowId: z.string().min(1) }),
 });
+
+const versionNumberSchema = z.coerce.number().int().min(1);
+
+export const workflowVersionSchema = z.object({
+  params: z.object({ workflowId: z.string().min(1), version: versionNumberSchema }),
+});
+
+export const diffWorkflowVersionsSchema = z.object({
+  params: z.object({ workflowId: z.string().min(1) }),
+  query: z.object({ from: versionNumberSchema, to: versionNumberSchema }),
+});
@@ -1,4 +1,5 @@
-import { WorkflowModel } from './workflows.model';
+import { WorkflowModel, WorkflowDocument } from './workflows.model';
+import { WorkflowVersionModel, WorkflowVersionDocument, WorkflowVersionBlock } from './workflow-version.model';
 import { WorkflowStatus, WorkflowGraph, WorkflowNode, WorkflowEdge } from './workflows.types';
 import { AppError } from '@/shared/errors/app-error';
 import { HttpStatus } from '@/utils/http-status';
@@ -6,7 +7,10 @@ import { registerWorkflowSchedule, unregisterWorkflowSchedule } from '@/features
 import { TriggerModel } from '@/features/triggers/triggers.model';
 import { BlockModel } from '@/features/blocks/blocks.model';
 import { RunModel } from '@/features/runs/runs.model';
+import { RunLogModel } from '@/features/runs/run-log.model';
+import { DeadLetterModel } from '@/features/dead-letters/dead-letters.model';
 import { getBlockDefinition } from '@/features/blocks/blocks.registry';
+import { validateWorkflowGraph } from './workflows.validation';
 import { Types } from 'mongoose';
 
 type ResolvedDependency = { source: string; targetHandle?: string; sourceHandle?: string };
@@ -69,6 +73,17 @@ interface CreateWorkflowInput {
   organizationId: string;
   triggerId?: string;
    datasetId?: string;
+  maxDurationMs?: number;
+  maxConcurrentRuns?: number;
+}
+
+interface UpdateWorkflowInput {
+  name?: string;
+  description?: string;
+  /** `null` clears the limit so the server default applies */
+  maxDurationMs?: number | null;
+  /** `null` removes the workflow cap; the organization cap still applies */
+  maxConcurrentRuns?: number | null;
 }
 
 const mapCategoryToNodeType = (category: string): WorkflowNode['type'] => {
@@ -83,6 +98,8 @@ const mapCategoryToNodeType = (category: string): WorkflowNode['type'] => {
       return 'transform';
     case 'storage':
       return 'compute';
+    case 'control':
+      return 'condition';
     default:
       return 'compute';
   }
@@ -104,7 +121,11 @@ const normalizeDependency = (dep: unknown): ResolvedDependency | null => {
   return null;
 };
 
-export const buildGraphFromBlocks = async (workflowId: string): Promise<WorkflowGraph> => {
+export const buildGraphFromBlocks = async (
+  workflowId: string,
+  options: { strict?: boolean } = {},
+): Promise<WorkflowGraph> => {
+  const strict = options.strict ?? true;
   const blocks = await BlockModel.find({ workflow: workflowId }).sort({ order: 1, createdAt: 1 }).lean();
 
   if (!blocks.length) {
@@ -117,14 +138,14 @@ export const buildGraphFromBlocks = async (workflowId: string): Promise<Workflow
   for (const block of blocks as any[]) {
     const type = String(block.type);
     const definition = getBlockDefinition(type);
-    if (!definition) {
+    if (!definition && strict) {
       throw new AppError(`Unknown block type in workflow: ${type}`, HttpStatus.BAD_REQUEST);
     }
 
     const node: WorkflowNode = {
       id: String(block._id),
-      blockId: definition.id,
-      type: mapCategoryToNodeType(definition.category),
+      blockId: definition?.id ?? type,
+      type: definition ? mapCategoryToNodeType(definition.category) : 'compute',
       position: block.position,
       data: (block.config ?? {}) as Record<string, any>,
       alias: block.alias as string | undefined,
@@ -183,9 +204,25 @@ export const createWorkflow = async (input: CreateWorkflowInput) => {
     organization: input.organizationId,
     trigger: input.triggerId,
     dataset: input.datasetId,
+    maxDurationMs: input.maxDurationMs,
+    maxConcurrentRuns: input.maxConcurrentRuns,
   });
 };
 
+export const updateWorkflow = async (workflowId: string, organizationId: string, input: UpdateWorkflowInput) => {
+  const workflow = await findOwnedWorkflow(workflowId, organizationId);
+  if (input.name !== undefined) workflow.name = input.name;
+  if (input.description !== undefined) workflow.description = input.description;
+  if (input.maxDurationMs !== undefined) {
+    workflow.maxDurationMs = input.maxDurationMs ?? undefined;
+  }
+  if (input.maxConcurrentRuns !== undefined) {
+    workflow.maxConcurrentRuns = input.maxConcurrentRuns ?? undefined;
+  }
+  await workflow.save();
+  return workflow;
+};
+
 export const listWorkflows = (organizationId: string) => {
   return WorkflowModel.find({ organization: organizationId }).lean();
 };
@@ -194,6 +231,7 @@ export const setWorkflowStatus = async (
   workflowId: string,
   status: WorkflowStatus,
   organizationId?: string,
+  publishedBy?: string,
 ) => {
   const workflow = await WorkflowModel.findById(workflowId);
   if (!workflow || (organizationId && workflow.organization.toString() !== organizationId)) {
@@ -214,26 +252,214 @@ export const setWorkflowStatus = async (
       },
     };
 
+    await createWorkflowVersion(workflow, publishedBy);
     await workflow.save();
     await registerWorkflowSchedule(workflow.id);
   } else {
     workflow.status = status;
     await workflow.save();
-    unregisterWorkflowSchedule(workflow.id);
+    await unregisterWorkflowSchedule(workflow.id);
   }
   return workflow;
 };
 
+export const validateWorkflow = async (workflowId: string, organizationId: string) => {
+  const workflow = await WorkflowModel.findById(workflowId);
+  if (!workflow || workflow.organization.toString() !== organizationId) {
+    throw new AppError('Workflow not found', HttpStatus.NOT_FOUND);
+  }
+
+  const graph = await buildGraphFromBlocks(workflowId, { strict: false });
+  return validateWorkflowGraph(graph, organizationId);
+};
+
+const snapshotBlocks = async (workflowId: string): Promise<WorkflowVersionBlock[]> => {
+  const blocks = await BlockModel.find({ workflow: workflowId }).sort({ order: 1, createdAt: 1 }).lean();
+  return (blocks as any[]).map((block) => ({
+    id: String(block._id),
+    type: String(block.type),
+    config: (block.config ?? {}) as Record<string, unknown>,
+    position: block.position,
+    order: block.order ?? 0,
+    alias: block.alias,
+    dependencies: (block.dependencies ?? []).map((dep: any) => ({
+      source: String(dep.source),
+      targetHandle: dep.targetHandle,
+      sourceHandle: dep.sourceHandle,
+    })),
+    connector: block.connector ? String(block.connector) : undefined,
+  }));
+};
+
+/** Record the workflow's current graph as the next immutable version and point the workflow at it. */
+const createWorkflowVersion = async (
+  workflow: WorkflowDocument,
+  publishedBy?: string,
+  rolledBackFrom?: WorkflowVersionDocument,
+) => {
+  const latest = await WorkflowVersionModel.findOne({ workflow: workflow._id }).sort({ version: -1 }).select('version').lean();
+  const version = (latest?.version ?? 0) + 1;
+
+  const snapshot = await WorkflowVersionModel.create({
+    workflow: workflow._id,
+    organization: workflow.organization,
+    version,
+    name: workflow.name,
+    description: workflow.description,
+    graph: workflow.graph,
+    blocks: rolledBackFrom ? rolledBackFrom.blocks : await snapshotBlocks(workflow.id),
+    trigger: workflow.trigger,
+    dataset: workflow.dataset,
+    publishedBy,
+    rolledBackFrom: rolledBackFrom?.version,
+  });
+
+  workflow.version = version;
+  return snapshot;
+};
+
+const findOwnedWorkflow = async (workflowId: string, organizationId: string) => {
+  const workflow = await WorkflowModel.findById(workflowId);
+  if (!workflow || workflow.organization.toString() !== organizationId) {
+    throw new AppError('Workflow not found', HttpStatus.NOT_FOUND);
+  }
+  return workflow;
+};
+
+const findWorkflowVersion = async (workflowId: string, version: number) => {
+  const snapshot = await WorkflowVersionModel.findOne({ workflow: workflowId, version });
+  if (!snapshot) {
+    throw new AppError(`Version ${version} not found`, HttpStatus.NOT_FOUND);
+  }
+  return snapshot;
+};
+
+export const listWorkflowVersions = async (workflowId: string, organizationId: string) => {
+  const workflow = await findOwnedWorkflow(workflowId, organizationId);
+  const versions = await WorkflowVersionModel.find({ workflow: workflowId })
+    .sort({ version: -1 })
+    .select('-graph -blocks')
+    .lean();
+  return { currentVersion: workflow.version, versions };
+};
+
+export const getWorkflowVersion = async (workflowId: string, version: number, organizationId: string) => {
+  await findOwnedWorkflow(workflowId, organizationId);
+  return findWorkflowVersion(workflowId, version);
+};
+
+const isSameValue = (a: unknown, b: unknown) => JSON.stringify(a ?? null) === JSON.stringify(b ?? null);
+
+const diffById = <T extends { id: string }>(before: T[], after: T[], fields: (keyof T)[]) => {
+  const beforeById = new Map(before.map((item) => [item.id, item]));
+  const afterById = new Map(after.map((item) => [item.id, item]));
+
+  const added = after.filter((item) => !beforeById.has(item.id));
+  const removed = before.filter((item) => !afterById.has(item.id));
+  const changed = after
+    .filter((item) => beforeById.has(item.id))
+    .map((item) => {
+      const previous = beforeById.get(item.id)!;
+      const changes = fields
+        .filter((field) => !isSameValue(previous[field], item[field]))
+        .map((field) => ({ field, before: previous[field], after: item[field] }));
+      return { id: item.id, changes };
+    })
+    .filter((entry) => entry.changes.length > 0);
+
+  return { added, removed, changed };
+};
+
+export const diffWorkflowVersions = async (
+  workflowId: string,
+  fromVersion: number,
+  toVersion: number,
+  organizationId: string,
+) => {
+  await findOwnedWorkflow(workflowId, organizationId);
+  const [from, to] = await Promise.all([
+    findWorkflowVersion(workflowId, fromVersion),
+    findWorkflowVersion(workflowId, toVersion),
+  ]);
+
+  const fromGraph = from.graph ?? { nodes: [], edges: [] };
+  const toGraph = to.graph ?? { nodes: [], edges: [] };
+
+  return {
+    from: fromVersion,
+    to: toVersion,
+    nodes: diffById<WorkflowNode>(fromGraph.nodes, toGraph.nodes, ['blockId', 'type', 'data', 'alias', 'connector']),
+    edges: diffById<WorkflowEdge>(fromGraph.edges, toGraph.edges, ['source', 'target', 'sourceHandle', 'targetHandle']),
+    trigger: isSameValue(String(from.trigger ?? ''), String(to.trigger ?? ''))
+      ? undefined
+      : { before: from.trigger ?? null, after: to.trigger ?? null },
+    metadata: ['name', 'description']
+      .filter((field) => !isSameValue(from.get(field), to.get(field)))
+      .map((field) => ({ field, before: from.get(field), after: to.get(field) })),
+  };
+};
+
+/**
+ * Make an earlier version live again. The workflow's blocks, graph and trigger are restored
+ * from the snapshot and recorded as a new version, so history is never rewritten.
+ */
+export const rollbackWorkflow = async (
+  workflowId: string,
+  targetVersion: number,
+  organizationId: string,
+  publishedBy?: string,
+) => {
+  const workflow = await findOwnedWorkflow(workflowId, organizationId);
+  const target = await findWorkflowVersion(workflowId, targetVersion);
+
+  // Write the snapshot's blocks before removing the others, so a failure part way never leaves the workflow empty
+  for (const block of target.blocks) {
+    await BlockModel.replaceOne(
+      { _id: block.id, workflow: workflowId },
+      {
+        workflow: workflowId,
+        organization: workflow.organization,
+        type: block.type,
+        config: block.config,
+        position: block.position,
+        order: block.order,
+        alias: block.alias,
+        dependencies: block.dependencies,
+        connector: block.connector,
+      },
+      { upsert: true },
+    );
+  }
+  await BlockModel.deleteMany({ workflow: workflowId, _id: { $nin: target.blocks.map((block) => block.id) } });
+
+  workflow.graph = target.graph;
+  workflow.trigger = target.trigger;
+  workflow.dataset = target.dataset;
+
+  const snapshot = await createWorkflowVersion(workflow, publishedBy, target);
+  await workflow.save();
+
+  if (workflow.status === 'published') {
+    await registerWorkflowSchedule(workflow.id);
+  }
+
+  return { workflow, version: snapshot };
+};
+
 export const deleteWorkflow = async (workflowId: string, organizationId: string): Promise<void> => {
   const workflow = await WorkflowModel.findById(workflowId);
   if (!workflow || workflow.organization.toString() !== organizationId) {
     throw new AppError('Workflow not found', HttpStatus.NOT_FOUND);
   }
 
-  unregisterWorkflowSchedule(workflow.id);
+  await unregisterWorkflowSchedule(workflow.id);
 
   await BlockModel.deleteMany({ workflow: workflowId });
+  const runIds = await RunModel.distinct('_id', { workflow: workflowId });
+  await RunLogModel.deleteMany({ run: { $in: runIds } });
+  await DeadLetterModel.deleteMany({ $or: [{ workflow: workflowId }, { run: { $in: runIds } }] });
   await RunModel.deleteMany({ workflow: workflowId });
+  await WorkflowVersionModel.deleteMany({ workflow: workflowId });
 
   await WorkflowModel.deleteOne({ _id: workflowId });
 };
@@ -43,9 +43,44 @@ export interface ExecutionStep {
   inputs: Record<string, any>;
   outputs: Record<string, any>;
   duration: number;
-  status: 'success' | 'failed';
+  status: 'success' | 'failed' | 'skipped';
   error?: string;
   nillionJobId?: string;
+  attempts?: ExecutionAttempt[];
+  /** Set on the per-item steps of a for-each node */
+  iteration?: number;
+  /** Credits used by a workflow called inline from this step */
+  childCredits?: number;
+}
+
+export interface ExecutionAttempt {
+  attempt: number;
+  startedAt: string;
+  duration: number;
+  status: 'success' | 'failed';
+  error?: string;
+}
+
+export interface NodePolicy {
+  retries: number;
+  backoff: 'fixed' | 'exponential';
+  backoffDelayMs: number;
+  timeoutMs?: number;
+  onError: 'fail' | 'continue' | 'route';
+  fallbackValue?: unknown;
+  /** How much of the node's outputs live run events may show */
+  redact: 'none' | 'values' | 'all';
+}
+
+export interface MemoryEntry {
+  key: string;
+  value: unknown;
+}
+
+/** Progress persisted on the run so a retried or resumed run can skip finished nodes. */
+export interface ExecutionCheckpoint {
+  steps: ExecutionStep[];
+  memory: MemoryEntry[];
 }
 
 export interface ExecutionResult {
@@ -55,3 +90,21 @@ export interface ExecutionResult {
   status: 'success' | 'failed';
   error?: string;
 }
+
+export interface GraphDiagnostic {
+  severity: 'error' | 'warning';
+  code: string;
+  message: string;
+  nodeId?: string;
+  /** The `for-each` node whose body holds `nodeId` */
+  parentNodeId?: string;
+  edgeId?: string;
+  field?: string;
+}
+
+export interface GraphValidationResult {
+  valid: boolean;
+  diagnostics: GraphDiagnostic[];
+  /** Diagnostics grouped by the node they point at */
+  nodes: Record<string, GraphDiagnostic[]>;
+}
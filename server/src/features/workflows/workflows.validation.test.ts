@@ -0,0 +1,72 @@
+import { describe, expect, it, vi } from 'vitest';
+import type { WorkflowGraph, WorkflowNode } from './workflows.types';
+import { validateWorkflowGraph } from './workflows.validation';
+
+vi.mock('@/features/connectors/connectors.model', () => ({
+  ConnectorModel: { find: vi.fn(() => ({ select: () => ({ lean: async () => [] }) })) },
+}));
+
+vi.mock('./workflows.model', () => ({
+  WorkflowModel: { findById: vi.fn(() => ({ select: () => ({ lean: async () => null }) })) },
+}));
+
+const ORG_ID = 'org-1';
+
+const extract = (id: string, data: Record<string, unknown> = {}): WorkflowNode => ({
+  id,
+  blockId: 'json-extract',
+  type: 'transform',
+  data: { path: 'payload.value', alias: id, ...data },
+});
+
+const loop = (id: string, body: WorkflowNode[], data: Record<string, unknown> = {}): WorkflowNode => ({
+  id,
+  blockId: 'for-each',
+  type: 'control',
+  data: { itemsPath: 'payload.items', alias: id, subgraph: { nodes: body, edges: [] }, ...data },
+});
+
+const withLoop = (loopNode: WorkflowNode): WorkflowGraph => ({
+  nodes: [{ id: 'start', blockId: 'input', type: 'input', data: {} }, loopNode],
+  edges: [{ id: 'e1', source: 'start', target: loopNode.id }],
+});
+
+describe('validateWorkflowGraph', () => {
+  it('accepts a well-formed for-each body', async () => {
+    const result = await validateWorkflowGraph(withLoop(loop('each', [extract('inner')])), ORG_ID);
+
+    expect(result).toMatchObject({ valid: true, diagnostics: [] });
+  });
+
+  it('reports invalid nodes inside a for-each body against the loop node', async () => {
+    const body = [
+      extract('ok'),
+      { id: 'mystery', blockId: 'no-such-block', type: 'transform', data: {} },
+      extract('untitled', { alias: '' }),
+      extract('broken', { note: 'Total {{ ( }}' }),
+    ];
+
+    const result = await validateWorkflowGraph(withLoop(loop('each', body)), ORG_ID);
+
+    expect(result.valid).toBe(false);
+    expect(result.diagnostics.map(({ code, nodeId, parentNodeId, field }) => ({ code, nodeId, parentNodeId, field }))).toEqual([
+      { code: 'unknown_block', nodeId: 'mystery', parentNodeId: 'each', field: undefined },
+      { code: 'invalid_config', nodeId: 'untitled', parentNodeId: 'each', field: 'alias' },
+      { code: 'invalid_expression', nodeId: 'broken', parentNodeId: 'each', field: 'note' },
+    ]);
+    expect(Object.keys(result.nodes)).toEqual(['each']);
+  });
+
+  it('names the nearest loop as parent inside nested bodies', async () => {
+    const inner = loop('inner-each', [{ id: 'mystery', blockId: 'no-such-block', type: 'transform', data: {} }], {
+      itemsPath: 'item.children',
+    });
+
+    const result = await validateWorkflowGraph(withLoop(loop('outer-each', [inner])), ORG_ID);
+
+    expect(result.diagnostics).toEqual([
+      expect.objectContaining({ code: 'unknown_block', nodeId: 'mystery', parentNodeId: 'inner-each' }),
+    ]);
+    expect(result.nodes['outer-each']).toHaveLength(1);
+  });
+});
@@ -0,0 +1,307 @@
+import { Types } from 'mongoose';
+import { getBlockDefinition } from '@/features/blocks/blocks.registry';
+import { arePortTypesCompatible, findPort, resolveTargetHandle } from '@/features/blocks/blocks.ports';
+import { ConnectorModel } from '@/features/connectors/connectors.model';
+import { WorkflowModel } from './workflows.model';
+import { validateConfigExpressions } from './workflows.expressions';
+import { WorkflowGraph, WorkflowNode, GraphDiagnostic, GraphValidationResult } from './workflows.types';
+
+const ERROR_HANDLE = 'error';
+
+const nodeAliases = (node: WorkflowNode): string[] => {
+  const data = (node.data ?? {}) as Record<string, unknown>;
+  const aliases = new Set<string>();
+  for (const candidate of [node.alias, data.alias, data.responseAlias]) {
+    if (typeof candidate === 'string' && candidate.trim()) {
+      aliases.add(candidate.trim());
+    }
+  }
+  return Array.from(aliases);
+};
+
+const hasConfigValue = (data: Record<string, unknown>, field?: string): boolean => {
+  if (!field) return false;
+  const value = data[field];
+  return value !== undefined && value !== null && value !== '';
+};
+
+const findCycleNodes = (graph: WorkflowGraph): string[] => {
+  const inDegree = new Map<string, number>(graph.nodes.map((node) => [node.id, 0]));
+  for (const edge of graph.edges) {
+    if (inDegree.has(edge.target) && inDegree.has(edge.source)) {
+      inDegree.set(edge.target, (inDegree.get(edge.target) ?? 0) + 1);
+    }
+  }
+  const queue = Array.from(inDegree.entries()).filter(([, degree]) => degree === 0).map(([id]) => id);
+  const visited = new Set<string>();
+  while (queue.length) {
+    const id = queue.shift()!;
+    visited.add(id);
+    for (const edge of graph.edges.filter((e) => e.source === id)) {
+      const remaining = (inDegree.get(edge.target) ?? 0) - 1;
+      inDegree.set(edge.target, remaining);
+      if (remaining === 0) {
+        queue.push(edge.target);
+      }
+    }
+  }
+  return graph.nodes.filter((node) => !visited.has(node.id)).map((node) => node.id);
+};
+
+const findUnreachableNodes = (graph: WorkflowGraph): string[] => {
+  const inputNodes = graph.nodes.filter((node) => node.type === 'input');
+  const entryIds = inputNodes.length
+    ? inputNodes.map((node) => node.id)
+    : graph.nodes.filter((node) => !graph.edges.some((edge) => edge.target === node.id)).map((node) => node.id);
+
+  const reached = new Set<string>(entryIds);
+  const queue = [...entryIds];
+  while (queue.length) {
+    const id = queue.shift()!;
+    for (const edge of graph.edges) {
+      if (edge.source === id && !reached.has(edge.target)) {
+        reached.add(edge.target);
+        queue.push(edge.target);
+      }
+    }
+  }
+  return graph.nodes.filter((node) => !reached.has(node.id)).map((node) => node.id);
+};
+
+const isRecord = (value: unknown): value is Record<string, any> => typeof value === 'object' && value !== null;
+
+// Malformed entries are already reported by the for-each config schema
+const forEachBody = (data: Record<string, unknown>): WorkflowGraph | undefined => {
+  const subgraph = data.subgraph as Partial<WorkflowGraph> | undefined;
+  if (!Array.isArray(subgraph?.nodes)) return undefined;
+  return {
+    nodes: subgraph.nodes.filter((node) => isRecord(node) && typeof node.id === 'string'),
+    edges: Array.isArray(subgraph.edges) ? subgraph.edges.filter(isRecord) : [],
+  } as WorkflowGraph;
+};
+
+/** Check one graph; a `for-each` body is checked as a graph of its own, its diagnostics naming the loop node as parent. */
+const validateGraphLevel = async (
+  graph: WorkflowGraph,
+  organizationId: string,
+  report: (diagnostic: GraphDiagnostic, ownerNodeId?: string) => void,
+): Promise<void> => {
+  const nodeById = new Map(graph.nodes.map((node) => [node.id, node]));
+
+  const connectorIds = graph.nodes
+    .map((node) => node.connector)
+    .filter((id): id is string => typeof id === 'string' && Types.ObjectId.isValid(id));
+  const connectors = connectorIds.length
+    ? await ConnectorModel.find({ _id: { $in: connectorIds }, organization: organizationId }).select('type').lean()
+    : [];
+  const connectorTypes = new Map(connectors.map((connector) => [String(connector._id), connector.type as string]));
+
+  for (const edge of graph.edges) {
+    if (!nodeById.has(edge.source)) {
+      report({ severity: 'error', code: 'unknown_edge_source', edgeId: edge.id, nodeId: edge.target, message: `Edge ${edge.id} starts at unknown node ${edge.source}` });
+    }
+    if (!nodeById.has(edge.target)) {
+      report({ severity: 'error', code: 'unknown_edge_target', edgeId: edge.id, nodeId: edge.source, message: `Edge ${edge.id} ends at unknown node ${edge.target}` });
+    }
+  }
+
+  const aliasOwners = new Map<string, string[]>();
+
+  for (const node of graph.nodes) {
+    const data = (node.data ?? {}) as Record<string, unknown>;
+    const incoming = graph.edges.filter((edge) => edge.target === node.id && nodeById.has(edge.source));
+
+    for (const alias of nodeAliases(node)) {
+      aliasOwners.set(alias, [...(aliasOwners.get(alias) ?? []), node.id]);
+    }
+
+    if (node.type === 'output') {
+      if (!incoming.length) {
+        report({ severity: 'error', code: 'output_without_input', nodeId: node.id, message: 'Output node has no incoming edge' });
+      }
+      continue;
+    }
+    const definition = getBlockDefinition(node.blockId);
+    if (!definition && node.type === 'input') {
+      continue;
+    }
+    if (!definition) {
+      report({ severity: 'error', code: 'unknown_block', nodeId: node.id, message: `Unknown block type ${node.blockId}` });
+      continue;
+    }
+
+    const parsed = definition.configSchema.safeParse(data);
+    if (!parsed.success) {
+      for (const issue of parsed.error.issues) {
+        report({
+          severity: 'error',
+          code: 'invalid_config',
+          nodeId: node.id,
+          field: issue.path.join('.'),
+          message: issue.message,
+        });
+      }
+    }
+    for (const issue of validateConfigExpressions(data)) {
+      // Expressions of a for-each body are reported against the body's own nodes below
+      if (definition.id === 'for-each' && issue.field.startsWith('subgraph.')) continue;
+      report({ severity: 'error', code: 'invalid_expression', nodeId: node.id, field: issue.field, message: issue.message });
+    }
+
+    const body = definition.id === 'for-each' ? forEachBody(data) : undefined;
+    if (body) {
+      await validateGraphLevel(body, organizationId, (diagnostic) =>
+        report({ ...diagnostic, parentNodeId: diagnostic.parentNodeId ?? node.id }, node.id),
+      );
+    }
+
+    const declaredInputs = definition.inputs;
+    const connectedHandles = new Set(
+      incoming.map((edge) => resolveTargetHandle(edge, nodeById.get(edge.source), declaredInputs)),
+    );
+    if (declaredInputs.length) {
+      const names = new Set(declaredInputs.map((input) => input.name));
+      for (const edge of incoming) {
+        if (edge.targetHandle && !names.has(edge.targetHandle)) {
+          report({
+            severity: 'error',
+            code: 'unknown_handle',
+            nodeId: node.id,
+            edgeId: edge.id,
+            message: `Block ${definition.id} has no input "${edge.targetHandle}" (expected one of ${Array.from(names).join(', ')})`,
+          });
+        }
+      }
+      for (const input of declaredInputs) {
+        if (input.required && !connectedHandles.has(input.name) && !hasConfigValue(data, input.configField)) {
+          report({
+            severity: 'error',
+            code: 'missing_input',
+            nodeId: node.id,
+            field: input.configField,
+            message: `Input "${input.name}" needs an incoming edge${input.configField ? ` or ${input.configField}` : ''}`,
+          });
+        }
+      }
+      for (const edge of incoming) {
+        const sourceNode = nodeById.get(edge.source)!;
+        const targetPort = findPort(declaredInputs, resolveTargetHandle(edge, sourceNode, declaredInputs));
+        const sourceOutput = edge.sourceHandle || (sourceNode.type === 'input' ? 'value' : 'result');
+        const sourcePort = findPort(getBlockDefinition(sourceNode.blockId)?.outputs, sourceOutput);
+        if (targetPort && sourcePort && !arePortTypesCompatible(sourcePort.type, targetPort.type)) {
+          report({
+            severity: hasConfigValue(data, targetPort.configField) ? 'warning' : 'error',
+            code: 'port_type_mismatch',
+            nodeId: node.id,
+            edgeId: edge.id,
+            message: `Output "${sourceOutput}" (${sourcePort.type}) cannot feed input "${targetPort.name}" (${targetPort.type})`,
+          });
+        }
+      }
+    }
+
+    if (definition.requiresConnector) {
+      if (!node.connector) {
+        report({ severity: 'error', code: 'missing_connector', nodeId: node.id, message: `Block ${definition.id} requires a connector` });
+      } else if (!connectorTypes.has(node.connector)) {
+        report({ severity: 'error', code: 'missing_connector', nodeId: node.id, message: `Connector ${node.connector} was not found` });
+      } else if (definition.connectorTypes && !definition.connectorTypes.includes(connectorTypes.get(node.connector)!)) {
+        report({
+          severity: 'error',
+          code: 'wrong_connector_type',
+          nodeId: node.id,
+          message: `Block ${definition.id} needs a ${definition.connectorTypes.join(' or ')} connector, got ${connectorTypes.get(node.connector)}`,
+        });
+      }
+    }
+
+    if (definition.id === 'call-workflow' && typeof data.workflowId === 'string') {
+      const target = Types.ObjectId.isValid(data.workflowId)
+        ? await WorkflowModel.findById(data.workflowId).select('organization status').lean()
+        : null;
+      if (!target || String(target.organization) !== organizationId) {
+        report({ severity: 'error', code: 'unknown_workflow', nodeId: node.id, field: 'workflowId', message: `Workflow ${data.workflowId} was not found` });
+      } else if (target.status !== 'published') {
+        report({ severity: 'warning', code: 'unpublished_workflow', nodeId: node.id, field: 'workflowId', message: `Workflow ${data.workflowId} is not published yet` });
+      }
+    }
+
+    const outgoing = graph.edges.filter((edge) => edge.source === node.id);
+    for (const edge of outgoing) {
+      if (edge.sourceHandle === ERROR_HANDLE && (data.policy as Record<string, unknown> | undefined)?.onError !== 'route') {
+        report({
+          severity: 'warning',
+          code: 'unused_error_edge',
+          nodeId: node.id,
+          edgeId: edge.id,
+          message: 'Error edge is only followed when the node policy has onError "route"',
+        });
+      }
+    }
+  }
+
+  for (const [alias, owners] of aliasOwners) {
+    if (owners.length > 1) {
+      for (const nodeId of owners) {
+        report({ severity: 'error', code: 'alias_collision', nodeId, field: 'alias', message: `Alias "${alias}" is used by ${owners.length} nodes` });
+      }
+    }
+  }
+
+  for (const nodeId of findCycleNodes(graph)) {
+    report({ severity: 'error', code: 'cycle', nodeId, message: 'Node is part of a cycle' });
+  }
+
+  for (const nodeId of findUnreachableNodes(graph)) {
+    if (nodeById.get(nodeId)?.type === 'output') continue;
+    report({ severity: 'warning', code: 'unreachable', nodeId, message: 'Node is not reachable from any input node' });
+  }
+};
+
+/**
+ * Statically check a workflow graph without executing anything. Errors make the graph
+ * unpublishable; warnings point at likely mistakes that still run.
+ */
+export const validateWorkflowGraph = async (
+  graph: WorkflowGraph,
+  organizationId: string,
+): Promise<GraphValidationResult> => {
+  const diagnostics: GraphDiagnostic[] = [];
+  const nodes: Record<string, GraphDiagnostic[]> = {};
+  await validateGraphLevel(graph, organizationId, (diagnostic, ownerNodeId) => {
+    diagnostics.push(diagnostic);
+    // Problems inside a for-each body are listed under the top-level node that holds it
+    const owner = ownerNodeId ?? diagnostic.nodeId;
+    if (owner) {
+      nodes[owner] = [...(nodes[owner] ?? []), diagnostic];
+    }
+  });
+
+  return {
+    valid: !diagnostics.some((diagnostic) => diagnostic.severity === 'error'),
+    diagnostics,
+    nodes,
+  };
+};
+
+export interface SideEffectNode {
+  nodeId: string;
+  blockId: string;
+  /** The for-each node whose body contains this node */
+  parentNodeId?: string;
+}
+
+/** Nodes whose blocks act outside the run, including those inside for-each bodies. */
+export const findSideEffectNodes = (graph: WorkflowGraph, parentNodeId?: string): SideEffectNode[] => {
+  const found: SideEffectNode[] = [];
+  for (const node of graph.nodes ?? []) {
+    if (getBlockDefinition(node.blockId)?.sideEffects) {
+      found.push({ nodeId: node.id, blockId: node.blockId, ...(parentNodeId ? { parentNodeId } : {}) });
+    }
+    const subgraph = (node.data as Record<string, any> | undefined)?.subgraph as WorkflowGraph | undefined;
+    if (node.blockId === 'for-each' && Array.isArray(subgraph?.nodes)) {
+      found.push(...findSideEffectNodes({ nodes: subgraph.nodes, edges: subgraph.edges ?? [] }, node.id));
+    }
+  }
+  return found;
+};
@@ -3,12 +3,11 @@ import { TriggerModel } from '@/features/triggers/triggers.model';
 import { ConnectorModel } from '@/features/connectors/connectors.model';
 import { decryptConnectorConfig } from '@/features/connectors/connectors.security';
 import { zcashService, ViewingKeyRescanMode } from '@/shared/services/zcash.service';
-import { logger } from '@/utils/logger';
 import { createRun } from '@/features/runs/runs.service';
-import { WorkflowModel } from '@/features/workflows/workflows.model';
-import { ZcashTriggerStateModel, ZcashTriggerStateDocument } from './zcash-trigger-state.model';
+import { ZcashTriggerStateModel } from './zcash-trigger-state.model';
 
-const POLL_INTERVAL_MS = 30_000;
+/** How often each Zcash transaction trigger is polled */
+export const ZCASH_POLL_INTERVAL_MS = 30_000;
 const MAX_TRACKED_TXIDS = 200;
 const importedViewingKeys = new Set<string>();
 
@@ -18,7 +17,7 @@ const decodeMemo = (hex?: string): string | undefined => {
   }
   try {
     const buffer = Buffer.from(hex.replace(/00+$/g, ''), 'hex');
-    return buffer.toString('utf8').replace(/\u0000+/g, '').trim();
+    return buffer.toString('utf8').replaceAll('\u0000', '').trim();
   } catch {
     return undefined;
   }
@@ -36,159 +35,110 @@ const ensureViewingKey = async (
   importedViewingKeys.add(viewingKey);
 };
 
-const loadTriggerStates = async (triggerIds: string[]): Promise<Map<string, ZcashTriggerStateDocument>> => {
-  const records = triggerIds.length
-    ? await ZcashTriggerStateModel.find({ trigger: { $in: triggerIds } })
-    : [];
-  const map = new Map<string, ZcashTriggerStateDocument>();
-  records.forEach((state) => map.set(state.trigger.toString(), state));
-  return map;
-};
-
-const loadConnectorMap = async (
-  connectorIds: string[],
-): Promise<Map<string, { type: string; config: Record<string, unknown> }>> => {
-  if (!connectorIds.length) {
-    return new Map();
+const loadConnectorConfig = async (connectorId?: string): Promise<Record<string, unknown> | undefined> => {
+  if (!connectorId) {
+    return undefined;
   }
-  const connectors = await ConnectorModel.find({ _id: { $in: connectorIds } });
-  const map = new Map<string, { type: string; config: Record<string, unknown> }>();
-  connectors.forEach((connector) => {
-    map.set(connector.id, {
-      type: connector.type,
-      config: decryptConnectorConfig(connector.type, connector.config as Record<string, unknown>),
-    });
-  });
-  return map;
+  const connector = await ConnectorModel.findById(connectorId);
+  return connector ? decryptConnectorConfig(connector.type, connector.config as Record<string, unknown>) : undefined;
 };
 
-const pollZcash = async (): Promise<void> => {
-  const triggers = await TriggerModel.find({ type: 'zcash-transaction', status: 'active' });
-  if (!triggers.length) {
-    return;
+/** Start a run for each new transaction matching one trigger. Returns the number of runs. */
+export const pollZcashTrigger = async (triggerId: string, workflowId: string): Promise<number> => {
+  const trigger = await TriggerModel.findById(triggerId);
+  if (!trigger || trigger.status !== 'active') {
+    return 0;
   }
 
-  const triggerIds = triggers.map((trigger) => (trigger._id as Types.ObjectId).toString());
-  const stateMap = await loadTriggerStates(triggerIds);
+  const config = trigger.config as Record<string, unknown>;
+  const memoPattern = config.memoPattern as string | undefined;
+  const minAmount = config.minAmount as number | undefined;
+  const minConfirmations = (config.minConfirmations as number | undefined) ?? 1;
 
-  const connectorIds = [...new Set(triggers.map((t) => t.connector?.toString()).filter(Boolean) as string[])];
-  const connectorMap = await loadConnectorMap(connectorIds);
+  const connectorConfig = await loadConnectorConfig(trigger.connector?.toString());
+  const connectorAddress = connectorConfig?.address as string | undefined;
+  const viewingKey = connectorConfig?.viewingKey as string | undefined;
+  const rescanMode = connectorConfig?.rescanMode as ViewingKeyRescanMode | undefined;
+  const startHeight = connectorConfig?.startHeight as number | undefined;
 
-  for (const trigger of triggers) {
-    const config = trigger.config as Record<string, unknown>;
-    const memoPattern = config.memoPattern as string | undefined;
-    const minAmount = config.minAmount as number | undefined;
-    const minConfirmations = (config.minConfirmations as number | undefined) ?? 1;
+  const address = (config.address as string | undefined) ?? connectorAddress;
+  if (!address) {
+    throw new Error('Zcash trigger missing address');
+  }
 
-    const connectorInfo = trigger.connector ? connectorMap.get(trigger.connector.toString()) : undefined;
-    const connectorAddress = connectorInfo?.config.address as string | undefined;
-    const viewingKey = connectorInfo?.config.viewingKey as string | undefined;
-    const rescanMode = connectorInfo?.config.rescanMode as ViewingKeyRescanMode | undefined;
-    const startHeight = connectorInfo?.config.startHeight as number | undefined;
+  await ensureViewingKey(viewingKey, rescanMode, startHeight);
 
-    const address = (config.address as string | undefined) ?? connectorAddress;
-    if (!address) {
-      continue;
-    }
+  const received = await zcashService.call<any[]>('z_listreceivedbyaddress', [address, minConfirmations]);
 
-    try {
-      await ensureViewingKey(viewingKey, rescanMode, startHeight);
+  const state =
+    (await ZcashTriggerStateModel.findOne({ trigger: trigger._id })) ??
+    new ZcashTriggerStateModel({
+      trigger: trigger._id as Types.ObjectId,
+      lastBlockHeight: 0,
+      processedTxIds: [],
+    });
+
+  const processedSet = new Set(state.processedTxIds ?? []);
+  let highestBlockHeight = state.lastBlockHeight ?? 0;
+  let triggeredCount = 0;
+
+  const orderedTxs = [...received].sort(
+    (a, b) => (a.blockheight ?? 0) - (b.blockheight ?? 0),
+  );
 
-      const received = await zcashService.call<any[]>('z_listreceivedbyaddress', [address, minConfirmations]);
-      const workflow = await WorkflowModel.findOne({ trigger: trigger.id, status: 'published' });
-      if (!workflow) {
+  try {
+    for (const tx of orderedTxs) {
+      if (tx.change) {
         continue;
       }
 
-      let state = stateMap.get(trigger.id);
-      if (!state) {
-        state = new ZcashTriggerStateModel({
-          trigger: trigger._id as Types.ObjectId,
-          lastBlockHeight: 0,
-          processedTxIds: [],
-        });
-        stateMap.set(trigger.id, state);
+      const memoDecoded = tx.memoStr ?? decodeMemo(tx.memo);
+      if (memoPattern && memoDecoded && !memoDecoded.includes(memoPattern)) {
+        continue;
       }
 
-      const processedSet = new Set(state.processedTxIds ?? []);
-      let highestBlockHeight = state.lastBlockHeight ?? 0;
-      let stateChanged = false;
-
-      const orderedTxs = [...received].sort(
-        (a, b) => (a.blockheight ?? 0) - (b.blockheight ?? 0),
-      );
-
-      for (const tx of orderedTxs) {
-        if (tx.change) {
-          continue;
-        }
-
-        const memoDecoded = tx.memoStr ?? decodeMemo(tx.memo);
-        if (memoPattern && memoDecoded && !memoDecoded.includes(memoPattern)) {
-          continue;
-        }
-
-        if (minAmount && Number(tx.amount) < minAmount) {
-          continue;
-        }
-
-        if (processedSet.has(tx.txid)) {
-          continue;
-        }
-
-        const blockheight = tx.blockheight ?? 0;
-        if (blockheight && blockheight < state.lastBlockHeight) {
-          continue;
-        }
-
-        await createRun({
-          workflowId: workflow.id,
-          triggerId: trigger.id,
-          payload: {
-            txid: tx.txid,
-            amount: tx.amount,
-            memo: memoDecoded,
-            address: tx.address,
-            confirmations: tx.confirmations,
-            pool: tx.pool,
-            blockheight,
-            blocktime: tx.blocktime,
-          },
-        });
-
-        processedSet.add(tx.txid);
-        stateChanged = true;
-        if (blockheight > highestBlockHeight) {
-          highestBlockHeight = blockheight;
-        }
+      if (minAmount && Number(tx.amount) < minAmount) {
+        continue;
       }
 
-      if (stateChanged) {
-        state.lastBlockHeight = highestBlockHeight;
-        state.processedTxIds = Array.from(processedSet).slice(-MAX_TRACKED_TXIDS);
-        await state.save();
+      if (processedSet.has(tx.txid)) {
+        continue;
       }
-    } catch (error) {
-      logger.error({ err: error, triggerId: trigger.id }, 'Failed to poll Zcash transactions');
-    }
-  }
-};
 
-let intervalHandle: NodeJS.Timeout | null = null;
+      const blockheight = tx.blockheight ?? 0;
+      if (blockheight && blockheight < state.lastBlockHeight) {
+        continue;
+      }
 
-export const startZcashWatcher = (): void => {
-  if (intervalHandle) {
-    return;
+      await createRun({
+        workflowId,
+        triggerId,
+        payload: {
+          txid: tx.txid,
+          amount: tx.amount,
+          memo: memoDecoded,
+          address: tx.address,
+          confirmations: tx.confirmations,
+          pool: tx.pool,
+          blockheight,
+          blocktime: tx.blocktime,
+        },
+      });
+
+      processedSet.add(tx.txid);
+      triggeredCount++;
+      if (blockheight > highestBlockHeight) {
+        highestBlockHeight = blockheight;
+      }
+    }
+  } finally {
+    // Transactions that already started a run are saved even when a later one fails
+    if (triggeredCount > 0) {
+      state.lastBlockHeight = highestBlockHeight;
+      state.processedTxIds = Array.from(processedSet).slice(-MAX_TRACKED_TXIDS);
+      await state.save();
+    }
   }
-  intervalHandle = setInterval(() => {
-    pollZcash().catch((error) => logger.error({ err: error }, 'Zcash watcher error'));
-  }, POLL_INTERVAL_MS);
-  logger.info('Zcash watcher started');
-};
 
-export const stopZcashWatcher = (): void => {
-  if (intervalHandle) {
-    clearInterval(intervalHandle);
-    intervalHandle = null;
-  }
+  return triggeredCount;
 };
@@ -6,21 +6,18 @@ import app from '@/app';
 import { envConfig } from '@/config/env';
 import { connectMongo } from '@/config/mongo';
 import { logger } from '@/utils/logger';
-import { initializeTriggerSchedules } from '@/features/jobs/schedule-runner';
-import { startZcashWatcher } from '@/features/zcash-execution/zcash-watcher';
-import { startCustomPollRunner } from '@/features/jobs/custom-poll-runner';
-import { startTwitterPollRunner } from '@/features/jobs/twitter-poll-runner';
+import { initTracing, shutdownTracing } from '@/utils/tracing';
+import { initializeTriggerSchedules, startTriggerRunner } from '@/features/jobs/schedule-runner';
 import { startRunWorker } from '@/queues/run-queue';
 
 const server = http.createServer(app);
 
 const start = async (): Promise<void> => {
   try {
+    initTracing();
     await connectMongo();
     await initializeTriggerSchedules();
-    startZcashWatcher();
-    startCustomPollRunner();
-    startTwitterPollRunner();
+    startTriggerRunner();
     startRunWorker();
     server.listen(envConfig.PORT, () => {
       logger.info(`Server running on port ${envConfig.PORT}`);
@@ -28,7 +25,6 @@ const start = async (): Promise<void> => {
 
     const keepAliveUrl = envConfig.PUBLIC_URL;
     const keepAliveIntervalMs = envConfig.KEEP_ALIVE_INTERVAL_MS ?? 10 * 60 * 1000;
-    let keepAliveInterval: NodeJS.Timer | undefined;
 
     try {
       const parsedUrl = new URL(keepAliveUrl);
@@ -48,7 +44,7 @@ const start = async (): Promise<void> => {
         });
       };
 
-      keepAliveInterval = setInterval(ping, keepAliveIntervalMs);
+      setInterval(ping, keepAliveIntervalMs);
       ping();
     } catch (error) {
       logger.warn({ err: error }, 'Failed to initialize keep-alive ping');
@@ -67,5 +63,7 @@ process.on('unhandledRejection', (reason) => {
 
 process.on('SIGINT', () => {
   logger.info('Shutting down...');
-  server.close(() => process.exit(0));
+  server.close(() => {
+    shutdownTracing().finally(() => process.exit(0));
+  });
 });
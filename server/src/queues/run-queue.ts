@@ -1,10 +1,26 @@
-import { Queue, Worker, QueueEvents, JobsOptions } from 'bullmq';
+import { Queue, Worker, QueueEvents, JobsOptions, DelayedError } from 'bullmq';
 import IORedis from 'ioredis';
+import { Gauge } from 'prom-client';
+import { SpanKind } from '@opentelemetry/api';
 import { envConfig } from '@/config/env';
 import { workflowEngine } from '@/features/workflows/workflows.engine';
 import { WorkflowModel } from '@/features/workflows/workflows.model';
 import { RunModel } from '@/features/runs/runs.model';
+import { RunPriority } from '@/features/runs/runs.types';
+import { OrganizationModel } from '@/features/organizations/organizations.model';
+import { closeDeadLetter, recordDeadLetter } from '@/features/dead-letters/dead-letters.service';
 import { logger } from '@/utils/logger';
+import { metricsRegistry } from '@/utils/metrics';
+import { extractTraceContext, injectTraceContext, TraceCarrier, withSpan } from '@/utils/tracing';
+import {
+  acquireRunSlot,
+  countRunningRuns,
+  getRecentWaitMs,
+  MAX_FAIR_RANK,
+  noteRunDequeued,
+  noteRunQueued,
+  noteRunStarted,
+} from './run-slots';
 
 const redisUrl = envConfig.QUEUE_REDIS_URL ?? 'redis://127.0.0.1:6379';
 const connection = new IORedis(redisUrl, {
@@ -35,15 +51,128 @@ queueEvents.on('completed', ({ jobId }) => {
   logger.info({ jobId }, 'Run job completed');
 });
 
-export const enqueueRunJob = async (runId: string, options: JobsOptions = {}): Promise<void> => {
-  await runQueue.add('execute', { runId }, options);
+const QUEUE_STATES = ['waiting', 'prioritized', 'delayed', 'active', 'failed'] as const;
+
+new Gauge({
+  name: 'zecflow_run_queue_jobs',
+  help: 'Run jobs in the queue by state',
+  labelNames: ['state'] as const,
+  registers: [metricsRegistry],
+  async collect() {
+    const counts = await runQueue.getJobCounts(...QUEUE_STATES);
+    for (const state of QUEUE_STATES) {
+      this.set({ state }, counts[state] ?? 0);
+    }
+  },
+});
+
+// Runs blocked by a concurrency cap go back to the queue for about this long
+const SLOT_RETRY_DELAY_MS = 2_000;
+const STATS_SCAN_LIMIT = 5_000;
+
+// Priority bands sit above the fair-share rank (BullMQ runs lower numbers first)
+const PRIORITY_OFFSETS: Record<RunPriority, number> = {
+  high: 0,
+  normal: 2 * MAX_FAIR_RANK,
+  low: 4 * MAX_FAIR_RANK,
+};
+
+interface RunJobData {
+  runId: string;
+  organizationId?: string;
+  workflowId?: string;
+  /** Earliest start of a scheduled run, in epoch milliseconds */
+  notBefore?: number;
+  /** Whether the run was counted as waiting when it was queued */
+  counted?: boolean;
+  /** Set once the job first got a slot, so retries are not counted as waiting again */
+  started?: boolean;
+  /** Trace context of whatever queued the run, so the worker continues the same trace */
+  traceContext?: TraceCarrier;
+}
+
+export const enqueueRunJob = (runId: string, options: JobsOptions = {}): Promise<void> =>
+  withSpan('run.enqueue', { kind: SpanKind.PRODUCER, attributes: { 'zecflow.run.id': runId } }, () =>
+    addRunJob(runId, options),
+  );
+
+const addRunJob = async (runId: string, options: JobsOptions): Promise<void> => {
+  const run = await RunModel.findById(runId).select('workflow priority notBefore').lean();
+  const workflow = run ? await WorkflowModel.findById(run.workflow).select('organization').lean() : null;
+  if (!run || !workflow) {
+    await runQueue.add('execute', { runId, traceContext: injectTraceContext() }, options);
+    return;
+  }
+
+  const delay = run.notBefore ? Math.max(0, run.notBefore.getTime() - Date.now()) : 0;
+  const data: RunJobData = {
+    runId,
+    organizationId: workflow.organization.toString(),
+    workflowId: String(workflow._id),
+    notBefore: delay > 0 ? run.notBefore!.getTime() : undefined,
+    // Scheduled runs are not waiting yet, so they do not push back the organization's other runs
+    counted: delay === 0,
+    traceContext: injectTraceContext(),
+  };
+  const rank = delay > 0 ? 1 : await noteRunQueued(data.organizationId!);
+  const priority = PRIORITY_OFFSETS[run.priority ?? 'normal'] + rank;
+  await runQueue.add('execute', data, { priority, ...(delay > 0 ? { delay } : {}), ...options });
+};
+
+/** When a queued job became ready to run: its creation, or the end of its schedule. */
+const readyAt = (job: { timestamp: number; data: RunJobData }) => Math.max(job.timestamp, job.data.notBefore ?? 0);
+
+/** Queue depth, running runs and wait times for one organization. */
+export const getRunQueueStats = async (organizationId: string) => {
+  const jobs = await runQueue.getJobs(['waiting', 'prioritized', 'delayed'], 0, STATS_SCAN_LIMIT - 1);
+  const now = Date.now();
+  const ownJobs = jobs.filter((job) => (job?.data as RunJobData | undefined)?.organizationId === organizationId);
+  const queued = ownJobs.filter((job) => readyAt(job) <= now);
+
+  const perWorkflow = new Map<string, { queued: number; oldestQueuedAt?: number }>();
+  for (const job of queued) {
+    const workflowId = (job.data as RunJobData).workflowId ?? 'unknown';
+    const entry = perWorkflow.get(workflowId) ?? { queued: 0 };
+    entry.queued += 1;
+    entry.oldestQueuedAt = Math.min(entry.oldestQueuedAt ?? readyAt(job), readyAt(job));
+    perWorkflow.set(workflowId, entry);
+  }
+
+  const organization = await OrganizationModel.findById(organizationId).select('maxConcurrentRuns').lean();
+  const workflows = await WorkflowModel.find({ organization: organizationId }).select('name maxConcurrentRuns').lean();
+  const running = await countRunningRuns(organizationId, workflows.map((workflow) => String(workflow._id)));
+  const oldestQueuedAt = queued.length ? Math.min(...queued.map(readyAt)) : undefined;
+
+  return {
+    queued: queued.length,
+    scheduled: ownJobs.length - queued.length,
+    running: running.organization,
+    limit: organization?.maxConcurrentRuns ?? envConfig.RUN_ORG_CONCURRENCY,
+    oldestWaitMs: oldestQueuedAt !== undefined ? now - oldestQueuedAt : null,
+    recentAverageWaitMs: await getRecentWaitMs(organizationId),
+    workflows: workflows
+      .map((workflow) => {
+        const id = String(workflow._id);
+        const entry = perWorkflow.get(id);
+        return {
+          workflowId: id,
+          name: workflow.name,
+          queued: entry?.queued ?? 0,
+          running: running.workflows[id] ?? 0,
+          limit: workflow.maxConcurrentRuns ?? null,
+          oldestWaitMs: entry?.oldestQueuedAt !== undefined ? now - entry.oldestQueuedAt : null,
+        };
+      })
+      .filter((workflow) => workflow.queued > 0 || workflow.running > 0),
+  };
 };
 
 export const startRunWorker = (): void => {
   const worker = new Worker(
     RUN_QUEUE_NAME,
-    async (job) => {
-      const runId = job.data.runId as string;
+    async (job, token) => {
+      const data = job.data as RunJobData;
+      const runId = data.runId;
       const run = await RunModel.findById(runId);
       if (!run) {
         throw new Error(`Run ${runId} not found`);
@@ -58,17 +187,89 @@ export const startRunWorker = (): void => {
         throw new Error(`Workflow ${workflow._id} has no graph. Please recreate it in the visual editor.`);
       }
 
-      logger.info({ runId, workflowId: workflow._id }, 'Executing workflow graph');
-      await workflowEngine.start(runId);
+      // Runs cancelled while queued or scheduled never take a slot
+      if (run.status === 'cancelled') {
+        if (!data.started && data.organizationId && data.counted !== false) {
+          await noteRunDequeued(data.organizationId);
+        }
+        return;
+      }
+
+      // The schedule has passed, so the run now waits like any other
+      if (run.status === 'scheduled') {
+        await RunModel.updateOne({ _id: run._id, status: 'scheduled' }, { $set: { status: 'pending' } });
+      }
+
+      const organizationId = workflow.organization.toString();
+      const organization = await OrganizationModel.findById(organizationId).select('maxConcurrentRuns').lean();
+      const acquired = await acquireRunSlot({
+        runId,
+        organizationId,
+        workflowId: workflow.id,
+        organizationLimit: organization?.maxConcurrentRuns ?? envConfig.RUN_ORG_CONCURRENCY,
+        workflowLimit: workflow.maxConcurrentRuns ?? 0,
+      });
+      if ('blockedBy' in acquired) {
+        // The job keeps its fair-share priority, so other organizations' runs still go first
+        logger.debug({ runId, blockedBy: acquired.blockedBy }, 'Run waiting for a concurrency slot');
+        await job.moveToDelayed(Date.now() + SLOT_RETRY_DELAY_MS + Math.floor(Math.random() * 1_000), token);
+        throw new DelayedError();
+      }
+
+      try {
+        if (!data.started && data.organizationId) {
+          await noteRunStarted(organizationId, Date.now() - readyAt(job), data.counted !== false);
+          await job.updateData({ ...data, started: true });
+        }
+        logger.info({ runId, workflowId: workflow._id }, 'Executing workflow graph');
+        const outcome = await withSpan(
+          'run.execute',
+          {
+            kind: SpanKind.CONSUMER,
+            parent: extractTraceContext(data.traceContext),
+            attributes: { 'zecflow.run.id': runId, 'zecflow.workflow.id': workflow.id, 'bullmq.job.attempt': job.attemptsMade + 1 },
+          },
+          () => workflowEngine.start(runId),
+        );
+        // The engine settles a failed run itself, so the job completes and BullMQ never dead-letters it
+        if (outcome?.status === 'failed') {
+          await recordDeadLetter({
+            runId,
+            workflowId: workflow.id,
+            organizationId,
+            jobId: job.id,
+            failedReason: outcome.error ?? 'Run failed',
+            attemptsMade: job.attemptsMade + 1,
+          }).catch((error) => logger.error({ err: error, jobId: job.id }, 'Failed to record dead letter'));
+        } else if (outcome?.status === 'succeeded') {
+          await closeDeadLetter(runId, 'resolved').catch((error) =>
+            logger.error({ err: error, jobId: job.id }, 'Failed to resolve dead letter'),
+          );
+        }
+      } finally {
+        await acquired.slot.release();
+      }
     },
     {
       connection,
-      concurrency: 5,
+      concurrency: envConfig.RUN_WORKER_CONCURRENCY,
     },
   );
 
   worker.on('failed', (job, err) => {
     logger.error({ jobId: job?.id, err }, 'Run worker failure');
+    // Only the final attempt is dead-lettered; earlier ones are retried by BullMQ
+    if (job && job.attemptsMade >= (job.opts.attempts ?? 1)) {
+      const data = job.data as RunJobData;
+      recordDeadLetter({
+        runId: data.runId,
+        workflowId: data.workflowId,
+        organizationId: data.organizationId,
+        jobId: job.id,
+        failedReason: err.message,
+        attemptsMade: job.attemptsMade,
+      }).catch((error) => logger.error({ err: error, jobId: job.id }, 'Failed to record dead letter'));
+    }
   });
 
   worker.on('completed', (job) => {
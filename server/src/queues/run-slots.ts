@@ -0,0 +1,150 @@
+import IORedis from 'ioredis';
+import { envConfig } from '@/config/env';
+import { logger } from '@/utils/logger';
+
+const redisUrl = envConfig.QUEUE_REDIS_URL ?? 'redis://127.0.0.1:6379';
+let redis: IORedis | undefined;
+
+const getRedis = () => {
+  if (!redis) {
+    redis = new IORedis(redisUrl, { maxRetriesPerRequest: null });
+  }
+  return redis;
+};
+
+// A slot is a lease: a crashed worker's slots expire instead of blocking the organization forever
+const SLOT_LEASE_MS = 60_000;
+const SLOT_RENEW_MS = 20_000;
+/** Fair-share ranks are capped so they stay inside BullMQ's priority range */
+export const MAX_FAIR_RANK = 100_000;
+const WAIT_SAMPLES = 100;
+
+const orgSlotsKey = (organizationId: string) => `run-slots:org:${organizationId}`;
+const workflowSlotsKey = (workflowId: string) => `run-slots:workflow:${workflowId}`;
+const waitingKey = 'run-queue:waiting';
+const waitSamplesKey = (organizationId: string) => `run-queue:waits:${organizationId}`;
+
+// Returns 1 when the slot was taken, 0 when the organization is full and -1 when the workflow is
+const ACQUIRE_SCRIPT = `
+redis.call('ZREMRANGEBYSCORE', KEYS[1], '-inf', ARGV[2])
+redis.call('ZREMRANGEBYSCORE', KEYS[2], '-inf', ARGV[2])
+if not redis.call('ZSCORE', KEYS[1], ARGV[1]) then
+  if redis.call('ZCARD', KEYS[1]) >= tonumber(ARGV[4]) then
+    return 0
+  end
+  local workflowLimit = tonumber(ARGV[5])
+  if workflowLimit > 0 and redis.call('ZCARD', KEYS[2]) >= workflowLimit then
+    return -1
+  end
+end
+redis.call('ZADD', KEYS[1], ARGV[3], ARGV[1])
+redis.call('ZADD', KEYS[2], ARGV[3], ARGV[1])
+return 1
+`;
+
+const DECREMENT_SCRIPT = `
+local value = redis.call('HINCRBY', KEYS[1], ARGV[1], -1)
+if value <= 0 then
+  redis.call('HDEL', KEYS[1], ARGV[1])
+end
+return value
+`;
+
+export interface RunSlot {
+  release(): Promise<void>;
+}
+
+interface AcquireRunSlotInput {
+  runId: string;
+  organizationId: string;
+  workflowId: string;
+  organizationLimit: number;
+  /** `0` leaves the workflow uncapped */
+  workflowLimit: number;
+}
+
+/** Take an execution slot for a run, or report which cap is full. */
+export const acquireRunSlot = async (
+  input: AcquireRunSlotInput,
+): Promise<{ slot: RunSlot } | { blockedBy: 'organization' | 'workflow' }> => {
+  const client = getRedis();
+  const keys = [orgSlotsKey(input.organizationId), workflowSlotsKey(input.workflowId)];
+  const now = Date.now();
+  const acquired = (await client.eval(
+    ACQUIRE_SCRIPT,
+    keys.length,
+    ...keys,
+    input.runId,
+    now,
+    now + SLOT_LEASE_MS,
+    input.organizationLimit,
+    input.workflowLimit,
+  )) as number;
+
+  if (acquired !== 1) {
+    return { blockedBy: acquired === 0 ? 'organization' : 'workflow' };
+  }
+
+  const renew = setInterval(() => {
+    const leaseUntil = Date.now() + SLOT_LEASE_MS;
+    client
+      .multi()
+      .zadd(keys[0], 'XX', leaseUntil, input.runId)
+      .zadd(keys[1], 'XX', leaseUntil, input.runId)
+      .exec()
+      .catch((error) => logger.warn({ err: error, runId: input.runId }, 'Failed to renew run slot'));
+  }, SLOT_RENEW_MS);
+  renew.unref();
+
+  return {
+    slot: {
+      release: async () => {
+        clearInterval(renew);
+        await client.multi().zrem(keys[0], input.runId).zrem(keys[1], input.runId).exec();
+      },
+    },
+  };
+};
+
+/**
+ * Count a queued run against its organization and return its fair-share rank: the n-th
+ * waiting run of an organization gets rank n, so organizations take turns at the head of the queue.
+ */
+export const noteRunQueued = async (organizationId: string): Promise<number> => {
+  const waiting = await getRedis().hincrby(waitingKey, organizationId, 1);
+  return Math.min(Math.max(waiting, 1), MAX_FAIR_RANK);
+};
+
+/** Stop counting a queued run as waiting, e.g. because it was cancelled before it started. */
+export const noteRunDequeued = async (organizationId: string): Promise<void> => {
+  await getRedis().eval(DECREMENT_SCRIPT, 1, waitingKey, organizationId);
+};
+
+export const noteRunStarted = async (organizationId: string, waitMs: number, wasCounted = true): Promise<void> => {
+  const client = getRedis();
+  if (wasCounted) {
+    await noteRunDequeued(organizationId);
+  }
+  await client.multi().lpush(waitSamplesKey(organizationId), waitMs).ltrim(waitSamplesKey(organizationId), 0, WAIT_SAMPLES - 1).exec();
+};
+
+/** Runs holding a slot, per organization and for the given workflows. */
+export const countRunningRuns = async (organizationId: string, workflowIds: string[]) => {
+  const client = getRedis();
+  const now = Date.now();
+  const organization = await client.zcount(orgSlotsKey(organizationId), now, '+inf');
+  const workflows: Record<string, number> = {};
+  for (const workflowId of workflowIds) {
+    workflows[workflowId] = await client.zcount(workflowSlotsKey(workflowId), now, '+inf');
+  }
+  return { organization, workflows };
+};
+
+/** Average time recent runs of the organization waited between being queued and starting. */
+export const getRecentWaitMs = async (organizationId: string): Promise<number | null> => {
+  const samples = (await getRedis().lrange(waitSamplesKey(organizationId), 0, -1)).map(Number);
+  if (!samples.length) {
+    return null;
+  }
+  return Math.round(samples.reduce((sum, value) => sum + value, 0) / samples.length);
+};
@@ -0,0 +1,73 @@
+import { Queue, Worker, Job } from 'bullmq';
+import IORedis from 'ioredis';
+import { envConfig } from '@/config/env';
+import { logger } from '@/utils/logger';
+
+const redisUrl = envConfig.QUEUE_REDIS_URL ?? 'redis://127.0.0.1:6379';
+const connection = new IORedis(redisUrl, {
+  maxRetriesPerRequest: null,
+});
+
+export const TRIGGER_QUEUE_NAME = 'trigger-ticks';
+
+// A failed tick is not retried: the next tick polls again
+export const triggerQueue = new Queue(TRIGGER_QUEUE_NAME, {
+  connection,
+  defaultJobOptions: {
+    removeOnComplete: 100,
+    removeOnFail: 500,
+  },
+});
+
+export interface TriggerJobData {
+  workflowId: string;
+  triggerId: string;
+  triggerType: string;
+}
+
+/** A cron `pattern` (in `tz`) or a fixed `every` interval, optionally within a start/end window. */
+export type TriggerRepeat = ({ pattern: string; tz?: string } | { every: number }) & {
+  startDate?: Date;
+  endDate?: Date;
+};
+
+const schedulerId = (workflowId: string) => `workflow:${workflowId}`;
+
+/** Add or replace the repeatable job that fires a published workflow's trigger. */
+export const upsertTriggerJob = async (data: TriggerJobData, repeat: TriggerRepeat): Promise<void> => {
+  // BullMQ keeps an existing interval's slots on update, so a new start date would be ignored
+  await triggerQueue.removeJobScheduler(schedulerId(data.workflowId));
+  await triggerQueue.upsertJobScheduler(schedulerId(data.workflowId), repeat, {
+    name: data.triggerType,
+    data,
+  });
+};
+
+export const removeTriggerJob = async (workflowId: string): Promise<boolean> => {
+  return triggerQueue.removeJobScheduler(schedulerId(workflowId));
+};
+
+export const listTriggerJobIds = async (): Promise<string[]> => {
+  const schedulers = await triggerQueue.getJobSchedulers();
+  return schedulers
+    .map((scheduler) => scheduler.key)
+    .filter((key) => key.startsWith('workflow:'))
+    .map((key) => key.slice('workflow:'.length));
+};
+
+/** When the workflow's trigger fires next, or `null` when it has no repeatable job. */
+export const getTriggerNextFireAt = async (workflowId: string): Promise<Date | null> => {
+  const scheduler = await triggerQueue.getJobScheduler(schedulerId(workflowId));
+  return scheduler?.next ? new Date(scheduler.next) : null;
+};
+
+export const startTriggerWorker = (processor: (job: Job<TriggerJobData>) => Promise<unknown>): void => {
+  const worker = new Worker<TriggerJobData>(TRIGGER_QUEUE_NAME, processor, {
+    connection,
+    concurrency: envConfig.TRIGGER_WORKER_CONCURRENCY,
+  });
+
+  worker.on('failed', (job, err) => {
+    logger.error({ jobId: job?.id, triggerId: job?.data.triggerId, err }, 'Trigger tick failed');
+  });
+};
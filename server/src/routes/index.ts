@@ -6,6 +6,7 @@ import triggersRouter from '@/features/triggers/triggers.route';
 import blocksRouter from '@/features/blocks/blocks.route';
 import workflowsRouter from '@/features/workflows/workflows.route';
 import runsRouter from '@/features/runs/runs.route';
+import deadLettersRouter from '@/features/dead-letters/dead-letters.route';
 import datasetsRouter from '@/features/datasets/datasets.route';
 import nillionRouter from '@/features/nillion-compute/nillion-compute.route';
 import zcashRouter from '@/features/zcash-execution/zcash-execution.route';
@@ -22,6 +23,7 @@ router.use('/triggers', triggersRouter);
 router.use('/blocks', blocksRouter);
 router.use('/workflows', workflowsRouter);
 router.use('/runs', runsRouter);
+router.use('/dead-letters', deadLettersRouter);
 router.use('/datasets', datasetsRouter);
 router.use('/nillion', nillionRouter);
 router.use('/zcash', zcashRouter);
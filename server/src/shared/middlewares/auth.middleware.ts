@@ -22,7 +22,7 @@ export const authenticate = (req: AuthenticatedRequest, res: Response, next: Nex
     const payload = verifyAccessToken(token);
     req.user = { id: payload.sub, roles: payload.roles };
     next();
-  } catch (error) {
+  } catch {
     res.status(HttpStatus.UNAUTHORIZED).json({ message: 'Invalid token' });
   }
 };
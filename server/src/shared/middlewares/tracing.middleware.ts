@@ -0,0 +1,29 @@
+import { NextFunction, Request, Response } from 'express';
+import { SpanKind, SpanStatusCode, context, trace } from '@opentelemetry/api';
+import { extractTraceContext, TraceCarrier, tracer } from '@/utils/tracing';
+
+/**
+ * Open a server span for the request and keep it active for the rest of the chain, so work
+ * the handler starts (such as queuing a run) joins the same trace. Honors an incoming `traceparent`.
+ */
+export const traceRequest = (name: string) => (req: Request, res: Response, next: NextFunction): void => {
+  const parent = extractTraceContext(req.headers as TraceCarrier);
+  const span = tracer.startSpan(
+    name,
+    {
+      kind: SpanKind.SERVER,
+      attributes: { 'http.request.method': req.method, 'http.route': req.route?.path ?? req.path },
+    },
+    parent,
+  );
+
+  res.on('finish', () => {
+    span.setAttribute('http.response.status_code', res.statusCode);
+    if (res.statusCode >= 500) {
+      span.setStatus({ code: SpanStatusCode.ERROR });
+    }
+    span.end();
+  });
+
+  context.with(trace.setSpan(parent, span), () => next());
+};
@@ -1,5 +1,9 @@
 import axios, { AxiosInstance } from 'axios';
+import { SpanKind } from '@opentelemetry/api';
 import { envConfig } from '@/config/env';
+import { zcashRpcSeconds } from '@/utils/metrics';
+import { withSpan } from '@/utils/tracing';
+import type { RunLogger } from '@/features/runs/runs.logger';
 
 export type ZcashPrivacyPolicy =
   | 'FullPrivacy'
@@ -20,6 +24,9 @@ interface SendShieldedTransactionOptions {
   fee?: number | null;
   privacyPolicy?: ZcashPrivacyPolicy;
   timeoutMs?: number;
+  /** Stops the send before submission, or the wait for its result after */
+  signal?: AbortSignal;
+  log?: RunLogger;
 }
 
 class ZcashService {
@@ -34,20 +41,34 @@ class ZcashService {
     });
   }
 
-  async call<T>(method: string, params: unknown[] = []): Promise<T> {
+  call<T>(method: string, params: unknown[] = [], signal?: AbortSignal): Promise<T> {
+    const attributes = { 'rpc.system': 'jsonrpc', 'rpc.method': method };
+    return withSpan(`zcash.rpc ${method}`, { kind: SpanKind.CLIENT, attributes }, () =>
+      this.send<T>(method, params, signal),
+    );
+  }
+
+  private async send<T>(method: string, params: unknown[], signal?: AbortSignal): Promise<T> {
+    const endTimer = zcashRpcSeconds.startTimer({ method });
     try {
-      const { data } = await this.client.post('', {
-        jsonrpc: '2.0',
-        id: Date.now(),
-        method,
-        params,
-      });
+      const { data } = await this.client.post(
+        '',
+        {
+          jsonrpc: '2.0',
+          id: Date.now(),
+          method,
+          params,
+        },
+        { signal },
+      );
 
       if (data.error) {
         throw new Error(data.error?.message ?? 'Unknown RPC error');
       }
+      endTimer({ status: 'success' });
       return data.result as T;
     } catch (error) {
+      endTimer({ status: 'failed' });
       if (error instanceof Error) {
         error.message = `Zcash RPC ${method} failed: ${error.message}`;
         throw error;
@@ -91,7 +112,7 @@ class ZcashService {
   async sendShieldedTransaction(
     address: string,
     amount: number | string,
-    { memo, fromAddress, minConfirmations, fee, privacyPolicy, timeoutMs }: SendShieldedTransactionOptions = {},
+    { memo, fromAddress, minConfirmations, fee, privacyPolicy, timeoutMs, signal, log }: SendShieldedTransactionOptions = {},
   ): Promise<{ txId: string; operationId: string }> {
     const sourceAddress = fromAddress ?? envConfig.ZCASH_DEFAULT_FROM_ADDRESS;
     if (!sourceAddress) {
@@ -115,21 +136,37 @@ class ZcashService {
       privacyPolicy ?? envConfig.ZCASH_DEFAULT_PRIVACY_POLICY ?? 'LegacyCompat',
     ];
 
-    const operationId = await this.call<string>('z_sendmany', params);
-    const txId = await this.waitForOperation(operationId, timeoutMs ?? envConfig.ZCASH_OPERATION_TIMEOUT_MS);
+    signal?.throwIfAborted();
+    const operationId = await this.call<string>('z_sendmany', params, signal);
+    log?.info('Zcash transfer submitted', { operationId });
+    // Aborting from here on only stops waiting; the submitted transfer still goes through
+    const txId = await this.waitForOperation(operationId, timeoutMs ?? envConfig.ZCASH_OPERATION_TIMEOUT_MS, log, signal);
+    log?.info('Zcash transfer confirmed', { operationId, txId });
     return { txId, operationId };
   }
 
-  private async waitForOperation(operationId: string, timeoutMs: number, pollIntervalMs = 5_000): Promise<string> {
+  private async waitForOperation(
+    operationId: string,
+    timeoutMs: number,
+    log?: RunLogger,
+    signal?: AbortSignal,
+    pollIntervalMs = 5_000,
+  ): Promise<string> {
     const startedAt = Date.now();
+    let lastStatus: string | undefined;
 
     while (Date.now() - startedAt < timeoutMs) {
+      signal?.throwIfAborted();
       const [status] = await this.call<Array<{ id: string; status: string; result?: { txid?: string }; error?: { message?: string } }>>(
         'z_getoperationstatus',
         [[operationId]],
       );
 
       if (status) {
+        if (status.status !== lastStatus) {
+          log?.debug('Zcash operation status', { operationId, status: status.status });
+          lastStatus = status.status;
+        }
         if (status.status === 'success') {
           const [result] = await this.call<Array<{ result: { txid: string } }>>('z_getoperationresult', [[operationId]]);
           const txId = result?.result?.txid ?? status.result?.txid;
@@ -140,13 +177,23 @@ class ZcashService {
         }
         if (status.status === 'failed') {
           await this.call('z_getoperationresult', [[operationId]]);
+          log?.error('Zcash operation failed', { operationId, error: status.error?.message });
           throw new Error(status.error?.message ?? `Zcash operation ${operationId} failed`);
         }
       }
 
-      await new Promise((resolve) => setTimeout(resolve, pollIntervalMs));
+      await new Promise<void>((resolve) => {
+        const timer = setTimeout(done, pollIntervalMs);
+        function done() {
+          clearTimeout(timer);
+          signal?.removeEventListener('abort', done);
+          resolve();
+        }
+        signal?.addEventListener('abort', done, { once: true });
+      });
     }
 
+    log?.error('Timed out waiting for the Zcash operation', { operationId, timeoutMs });
     throw new Error(`Timed out waiting for Zcash operation ${operationId}`);
   }
 
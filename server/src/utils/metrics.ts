@@ -0,0 +1,76 @@
+import { Counter, Histogram, Registry, collectDefaultMetrics } from 'prom-client';
+
+export const metricsRegistry = new Registry();
+collectDefaultMetrics({ register: metricsRegistry, prefix: 'zecflow_' });
+
+// External calls range from a fast RPC to a nilCC workload that takes minutes to boot
+const SERVICE_BUCKETS = [0.05, 0.1, 0.25, 0.5, 1, 2.5, 5, 10, 30, 60, 120, 300];
+const RUN_BUCKETS = [0.1, 0.5, 1, 5, 15, 30, 60, 120, 300, 600, 1800, 3600];
+
+export const runsFinishedTotal = new Counter({
+  name: 'zecflow_runs_finished_total',
+  help: 'Workflow runs that reached a final status',
+  labelNames: ['workflow', 'status'] as const,
+  registers: [metricsRegistry],
+});
+
+export const runDurationSeconds = new Histogram({
+  name: 'zecflow_run_duration_seconds',
+  help: 'Time from a run starting to it reaching a final status',
+  labelNames: ['workflow', 'status'] as const,
+  buckets: RUN_BUCKETS,
+  registers: [metricsRegistry],
+});
+
+export const blockExecutionsTotal = new Counter({
+  name: 'zecflow_block_executions_total',
+  help: 'Node executions by block and outcome (success, failed, skipped)',
+  labelNames: ['block', 'status'] as const,
+  registers: [metricsRegistry],
+});
+
+export const blockDurationSeconds = new Histogram({
+  name: 'zecflow_block_duration_seconds',
+  help: 'Node execution latency by block, including retries',
+  labelNames: ['block', 'status'] as const,
+  buckets: SERVICE_BUCKETS,
+  registers: [metricsRegistry],
+});
+
+export const nilccProvisioningSeconds = new Histogram({
+  name: 'zecflow_nilcc_provisioning_seconds',
+  help: 'Time from creating a nilCC workload until its container is ready',
+  labelNames: ['outcome'] as const,
+  buckets: SERVICE_BUCKETS,
+  registers: [metricsRegistry],
+});
+
+export const nilaiInferenceSeconds = new Histogram({
+  name: 'zecflow_nilai_inference_seconds',
+  help: 'NilAI inference latency per attempt',
+  labelNames: ['model', 'status'] as const,
+  buckets: SERVICE_BUCKETS,
+  registers: [metricsRegistry],
+});
+
+export const nilaiRetriesTotal = new Counter({
+  name: 'zecflow_nilai_retries_total',
+  help: 'NilAI inference attempts retried after a transient error',
+  labelNames: ['model'] as const,
+  registers: [metricsRegistry],
+});
+
+export const zcashRpcSeconds = new Histogram({
+  name: 'zecflow_zcash_rpc_seconds',
+  help: 'Zcash RPC call latency',
+  labelNames: ['method', 'status'] as const,
+  buckets: SERVICE_BUCKETS,
+  registers: [metricsRegistry],
+});
+
+export const nildbFailuresTotal = new Counter({
+  name: 'zecflow_nildb_failures_total',
+  help: 'Failed nilDB operations',
+  labelNames: ['operation'] as const,
+  registers: [metricsRegistry],
+});
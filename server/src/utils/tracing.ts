@@ -0,0 +1,143 @@
+import axios, { AxiosInstance, InternalAxiosRequestConfig } from 'axios';
+import {
+  Attributes,
+  Context,
+  Span,
+  SpanKind,
+  SpanStatusCode,
+  context,
+  propagation,
+  trace,
+} from '@opentelemetry/api';
+import { OTLPTraceExporter } from '@opentelemetry/exporter-trace-otlp-http';
+import { resourceFromAttributes } from '@opentelemetry/resources';
+import { BatchSpanProcessor, NodeTracerProvider } from '@opentelemetry/sdk-trace-node';
+import { ATTR_SERVICE_NAME } from '@opentelemetry/semantic-conventions';
+import { envConfig } from '@/config/env';
+import { logger } from '@/utils/logger';
+
+/** W3C trace context (`traceparent`, `tracestate`) carried across process boundaries. */
+export type TraceCarrier = Record<string, string>;
+
+export const tracer = trace.getTracer('zecflow-server');
+let provider: NodeTracerProvider | undefined;
+
+const parseHeaders = (raw?: string): Record<string, string> =>
+  Object.fromEntries(
+    (raw ?? '')
+      .split(',')
+      .map((pair) => pair.split('='))
+      .filter(([key, value]) => key?.trim() && value !== undefined)
+      .map(([key, ...value]) => [key.trim(), value.join('=').trim()]),
+  );
+
+/**
+ * Export spans to an OTLP collector. Without `OTEL_EXPORTER_OTLP_ENDPOINT` every span is a
+ * no-op, so instrumented code runs the same whether or not tracing is on.
+ */
+export const initTracing = (): void => {
+  if (provider || !envConfig.OTEL_EXPORTER_OTLP_ENDPOINT) {
+    return;
+  }
+
+  const exporter = new OTLPTraceExporter({
+    url: `${envConfig.OTEL_EXPORTER_OTLP_ENDPOINT.replace(/\/$/, '')}/v1/traces`,
+    headers: parseHeaders(envConfig.OTEL_EXPORTER_OTLP_HEADERS),
+  });
+  provider = new NodeTracerProvider({
+    resource: resourceFromAttributes({ [ATTR_SERVICE_NAME]: envConfig.OTEL_SERVICE_NAME }),
+    spanProcessors: [new BatchSpanProcessor(exporter)],
+  });
+  provider.register();
+  instrumentAxios(axios);
+  logger.info({ endpoint: envConfig.OTEL_EXPORTER_OTLP_ENDPOINT }, 'OpenTelemetry tracing enabled');
+};
+
+export const shutdownTracing = async (): Promise<void> => {
+  await provider?.shutdown().catch((error) => logger.warn({ err: error }, 'Failed to flush traces'));
+};
+
+/**
+ * Run `fn` inside a new active span. The span records an exception and error status when
+ * `fn` throws, and ends either way.
+ */
+export const withSpan = <T>(
+  name: string,
+  options: { attributes?: Attributes; kind?: SpanKind; parent?: Context },
+  fn: (span: Span) => Promise<T>,
+): Promise<T> => {
+  return tracer.startActiveSpan(
+    name,
+    { attributes: options.attributes, kind: options.kind },
+    options.parent ?? context.active(),
+    async (span) => {
+      try {
+        return await fn(span);
+      } catch (error) {
+        markSpanFailed(span, error);
+        throw error;
+      } finally {
+        span.end();
+      }
+    },
+  );
+};
+
+export const markSpanFailed = (span: Span, error: unknown): void => {
+  span.recordException(error instanceof Error ? error : String(error));
+  span.setStatus({ code: SpanStatusCode.ERROR, message: error instanceof Error ? error.message : String(error) });
+};
+
+export const injectTraceContext = (): TraceCarrier => {
+  const carrier: TraceCarrier = {};
+  propagation.inject(context.active(), carrier);
+  return carrier;
+};
+
+export const extractTraceContext = (carrier?: TraceCarrier): Context => {
+  return propagation.extract(context.active(), carrier ?? {});
+};
+
+type TracedRequestConfig = InternalAxiosRequestConfig & { traceSpan?: Span };
+
+/** Give every request sent through `instance` a client span and forward the trace context. */
+export const instrumentAxios = (instance: AxiosInstance): void => {
+  instance.interceptors.request.use((config: TracedRequestConfig) => {
+    const method = (config.method ?? 'get').toUpperCase();
+    const url = instance.getUri(config);
+    const span = tracer.startSpan(`HTTP ${method}`, {
+      kind: SpanKind.CLIENT,
+      attributes: { 'http.request.method': method, 'url.full': url.split('?')[0] },
+    });
+    const carrier: TraceCarrier = {};
+    propagation.inject(trace.setSpan(context.active(), span), carrier);
+    for (const [key, value] of Object.entries(carrier)) {
+      config.headers.set(key, value);
+    }
+    config.traceSpan = span;
+    return config;
+  });
+
+  instance.interceptors.response.use(
+    (response) => {
+      const span = (response.config as TracedRequestConfig).traceSpan;
+      span?.setAttribute('http.response.status_code', response.status);
+      if (response.status >= 500) {
+        span?.setStatus({ code: SpanStatusCode.ERROR });
+      }
+      span?.end();
+      return response;
+    },
+    (error) => {
+      const span = (error?.config as TracedRequestConfig | undefined)?.traceSpan;
+      if (span) {
+        if (error.response?.status) {
+          span.setAttribute('http.response.status_code', error.response.status);
+        }
+        markSpanFailed(span, error);
+        span.end();
+      }
+      return Promise.reject(error);
+    },
+  );
+};
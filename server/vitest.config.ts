@@ -0,0 +1,22 @@
+import path from 'path';
+import { defineConfig } from 'vitest/config';
+
+export default defineConfig({
+  resolve: {
+    alias: { '@': path.resolve(__dirname, 'src') },
+  },
+  test: {
+    include: ['src/**/*.test.ts'],
+    // Just enough for `@/config/env` to parse; nothing here is ever connected to
+    env: {
+      NODE_ENV: 'test',
+      MONGO_URI: 'mongodb://127.0.0.1:27017/zecflow-test',
+      JWT_SECRET: 'test-jwt-secret',
+      REFRESH_TOKEN_SECRET: 'test-refresh-secret',
+      ZCASH_RPC_URL: 'http://127.0.0.1:8232',
+      PUBLIC_URL: 'http://localhost:4000',
+      ENCRYPTION_KEY: 'test-encryption-key-0123456789',
+      QUEUE_REDIS_URL: 'redis://127.0.0.1:6379',
+    },
+  },
+});